@@ -6,28 +6,40 @@ import AppErrorBoundary from './components/AppErrorBoundary';
 import { SimpleAuthProvider } from './context/SimpleAuthContext';
 import AdminGuard from './components/AdminGuard';
 import { getStoredData, loadAppData } from './services/storageService';
+import { resolveDisplayTarget } from './services/tenantService';
+import { registerServiceWorker, precacheAssets } from './services/offlineService';
+import { getActiveTheme, getThemeVariables, loadThemeFont, resolveThemeTokens } from './services/themeService';
+
+// Scheduled themes are re-checked this often
+const THEME_SCHEDULE_CHECK_MS = 60000;
+
+// Past this the kiosk boots from its cached config instead of waiting on a stalled network
+const BOOTSTRAP_TIMEOUT_MS = 8000;
 
 /**
  * ThemeSync manages the global CSS variables for the entire application.
- * It ensures that --accent-color and gradients are consistently applied across Kiosk, Admin, and Login.
+ * It ensures that --accent-color, gradients and typography are consistently applied across Kiosk, Admin, and Login,
+ * and switches to scheduled themes as their dates come around.
+ * The scale tokens resize the root font only when `scaleRoot` is set, so the admin keeps its normal size.
  */
-const ThemeSync: React.FC = () => {
+const ThemeSync: React.FC<{ scaleRoot: boolean }> = ({ scaleRoot }) => {
   const applyTheme = useCallback(() => {
-    const data = getStoredData();
-    const theme = data.theme;
+    const theme = getActiveTheme(getStoredData(), new Date());
     const root = document.documentElement;
 
-    root.style.setProperty('--accent-color', theme.accentColor);
-    root.style.setProperty('--gradient-start', theme.gradientStart);
-    root.style.setProperty('--gradient-end', theme.gradientEnd);
-    root.style.setProperty('--text-primary', theme.textColor || '#ffffff');
-    root.style.setProperty('--glass-border', `${theme.accentColor}33`);
-  }, []);
+    Object.entries(getThemeVariables(theme)).forEach(([name, value]) => root.style.setProperty(name, value));
+    loadThemeFont(resolveThemeTokens(theme).fontFamily);
+    root.style.fontSize = scaleRoot ? 'calc(var(--base-font) * var(--ui-scale))' : '';
+  }, [scaleRoot]);
 
   useEffect(() => {
     applyTheme();
+    const timer = setInterval(applyTheme, THEME_SCHEDULE_CHECK_MS);
     window.addEventListener('hardy-storage-update', applyTheme);
-    return () => window.removeEventListener('hardy-storage-update', applyTheme);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('hardy-storage-update', applyTheme);
+    };
   }, [applyTheme]);
 
   return null;
@@ -39,11 +51,16 @@ const App: React.FC = () => {
 
   useEffect(() => {
     const bootstrap = async () => {
+      registerServiceWorker();
       try {
-        await loadAppData();
+        await Promise.race([
+          resolveDisplayTarget().then(() => loadAppData()),
+          new Promise((_, reject) => setTimeout(() => reject(new Error('Bootstrap timed out')), BOOTSTRAP_TIMEOUT_MS))
+        ]);
       } catch (error) {
         console.error('App bootstrap load failed', error);
       } finally {
+        precacheAssets(getStoredData());
         setIsReady(true);
       }
     };
@@ -75,7 +92,7 @@ const App: React.FC = () => {
   return (
     <AppErrorBoundary>
       <SimpleAuthProvider>
-        <ThemeSync />
+        <ThemeSync scaleRoot={viewMode === ViewMode.KIOSK} />
         {viewMode === ViewMode.KIOSK ? (
           <div onClick={handleLogoClick}>
             <KioskView onExit={() => toggleView(ViewMode.ADMIN)} />
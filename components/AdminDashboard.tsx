@@ -1,8 +1,8 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { AppData, ViewMode, Announcement, Event, Page, WidgetConfig, GridItemConfig, CustomWidgetDefinition, LoginLogEntry } from '../types';
+import { AppData, ViewMode, Announcement, Event, Page, WidgetConfig, WidgetType, GridItemConfig, CustomWidgetDefinition, DisplayTarget, DeviceRecord, ConfigRevision, ConfigDiffEntry, RevisionMeta, AdminTab, AuditAction, AuditEntry, AuditFilter, MediaKind, GeocodeResult, WeatherConfig, TemperatureUnit, WindUnit, WeatherAlert, WeatherAlertConfig, AlertSeverity, CalendarSource, Theme } from '../types';
 import { getStoredData, loadAppData, saveAppData } from '../services/storageService';
 import { rewriteAnnouncement, generateTheme, analyzeNewsletter } from '../services/geminiService';
-import { extractTextFromPdf } from '../services/pdfService';
+import { extractDocumentText, getImportAccept, getImporters } from '../services/importService';
 import { safeStorage } from '../lib/safeStorage';
 import { 
   Monitor, Save, Plus, Trash2, Wand2, Calendar, Megaphone, 
@@ -10,16 +10,44 @@ import {
   Sparkles, FileUp, LayoutGrid, Instagram, Twitter, 
   ArrowUp, ArrowDown, Settings2, HeartPulse, 
   Terminal, Trash, Shield, Copy, Camera, CloudSun, LogOut, AlertTriangle,
-  ChevronRight, Globe, Clock, ShieldCheck, Mail, Lock, CheckCircle, Info, XCircle, Phone
+  ChevronRight, Globe, Clock, ShieldCheck, Mail, Lock, CheckCircle, Info, XCircle, Phone,
+  Siren, Volume2, Building2, RefreshCw, Wifi, WifiOff, History, RotateCcw, Download, ShieldAlert, Bell
 } from 'lucide-react';
 import RGL from 'react-grid-layout';
 import _ from 'lodash';
-import { WIDGET_TYPES, WIDGET_LABELS, GridRenderer } from './WidgetSystem';
+import { WIDGET_TYPES, WIDGET_LABELS, GridRenderer, getDefaultWidgetSettings } from './WidgetSystem';
+import WidgetSettingsEditor from './WidgetSettingsEditor';
+import { getInvalidWidgets } from '../services/widgetSettingsService';
 import AdminConfigEditor from './AdminConfigEditor';
 import { getLogs, clearLogs, LogEntry } from '../services/logService';
 import { useSimpleAuth } from '../context/SimpleAuthContext';
-import { getLoginLogs, clearLoginLogs } from '../services/authLogService';
+import { recordAuditEvent, listAuditEvents, auditEntriesToCsv, AUDIT_ACTION_LABELS } from '../services/auditService';
 import ErrorBoundary from './ErrorBoundary';
+import { getActiveTarget, listDisplayTargets, isSameTarget, formatTarget } from '../services/tenantService';
+import { listDevices, getLatestConfigHashes, isDeviceOnline, getDeviceSyncState } from '../services/deviceService';
+import { listRevisions, getRevision, diffConfigs } from '../services/revisionService';
+import { DEFAULT_BELL_SCHEDULE } from '../services/bellScheduleService';
+import { normalizeTickerItems, DEFAULT_TICKER_SPEED } from '../services/tickerService';
+import { getActiveThemeEntry, resolveThemeTokens, THEME_FONTS } from '../services/themeService';
+import { failsAA } from '../services/themeValidationService';
+import { isAnnouncementLive, isRuleActive, getScheduledPages, describeRule, toLocalInputValue } from '../services/scheduleService';
+import ScheduleTimeline, { TimelineRow } from './ScheduleTimeline';
+import ScheduleRuleEditor from './ScheduleRuleEditor';
+import MediaLibrary from './MediaLibrary';
+import CalendarSourcesEditor from './CalendarSourcesEditor';
+import BellScheduleEditor from './BellScheduleEditor';
+import TickerEditor from './TickerEditor';
+import ThemeLibraryEditor from './ThemeLibraryEditor';
+import ThemeContrastPanel from './ThemeContrastPanel';
+import AiSettingsPanel from './AiSettingsPanel';
+import { syncCalendarSources } from '../services/calendarService';
+import { normalizeEvent, parseLegacySchedule, archivePastEvents, selectEventRows, setEventAllDay, isEventOver, getEventEnd, getEventDay, formatEventTime, toZonedInputValue, fromZonedInputValue, resolveTimeZone } from '../services/eventService';
+import { fetchWeatherAlerts, getAlertMessage, meetsSeverity, ALERT_SEVERITIES, DEFAULT_WEATHER_ALERT_CONFIG } from '../services/weatherAlertService';
+import { searchCities, TEMPERATURE_UNIT_LABELS, WIND_UNIT_LABELS } from '../services/weatherService';
+import VideoSettingsEditor from './VideoSettingsEditor';
+import LiveCamView from './LiveCamView';
+import { getFeedType, FEED_TYPE_LABELS, DEFAULT_SNAPSHOT_REFRESH_SECONDS } from '../services/liveCamService';
+import { canEditTab, canViewTab, isSuperAdmin, ROLE_LABELS } from '../services/roleService';
 
 const Responsive = (RGL as any).Responsive;
 
@@ -30,37 +58,119 @@ interface AdminProps {
 const APP_VERSION = "v1.6.0";
 const MAX_FILE_SIZE_MB = 10;
 const ANALYSIS_TIMEOUT_MS = 45000;
+const DEVICE_REFRESH_MS = 30000;
 
 const AdminDashboard: React.FC<AdminProps> = ({ changeView }) => {
   const { session, logout } = useSimpleAuth();
   const [data, setData] = useState<AppData>(getStoredData());
-  const [activeTab, setActiveTab] = useState<'announcements' | 'events' | 'pages' | 'appearance' | 'ticker' | 'livecam' | 'contact' | 'weather' | 'widgets' | 'import' | 'config' | 'health' | 'security'>('announcements');
+  const role = session?.role || 'viewer';
+  const [activeTab, setActiveTab] = useState<AdminTab>(canViewTab(role, 'announcements') ? 'announcements' : 'pages');
+  const [domainInput, setDomainInput] = useState('');
+  const [cityQuery, setCityQuery] = useState('');
+  const [cityResults, setCityResults] = useState<GeocodeResult[]>([]);
+  const [isSearchingCities, setIsSearchingCities] = useState(false);
+  const [activeWeatherAlerts, setActiveWeatherAlerts] = useState<WeatherAlert[] | null>(null);
+  const [isSyncingCalendars, setIsSyncingCalendars] = useState(false);
+  const [showArchivedEvents, setShowArchivedEvents] = useState(false);
+  const [mediaPicker, setMediaPicker] = useState<{ kind: MediaKind; onSelect: (url: string) => void } | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [systemLogs, setSystemLogs] = useState<LogEntry[]>(getLogs());
-  const [loginLogs, setLoginLogs] = useState<LoginLogEntry[]>([]);
-  const [tickerInput, setTickerInput] = useState('');
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [auditFilter, setAuditFilter] = useState<AuditFilter>({});
+  const [devices, setDevices] = useState<DeviceRecord[]>([]);
+  const [latestConfigHashes, setLatestConfigHashes] = useState<Record<string, string>>({});
+  const [saveNote, setSaveNote] = useState('');
+  const [scheduleEditingId, setScheduleEditingId] = useState<string | null>(null);
+  const [playlistPreviewAt, setPlaylistPreviewAt] = useState<string>(() => toLocalInputValue(new Date().toISOString()));
+
+  // Revision history
+  const [revisions, setRevisions] = useState<ConfigRevision[]>([]);
+  const [revisionData, setRevisionData] = useState<Record<string, AppData>>({});
+  const [compareIds, setCompareIds] = useState<{ from: string; to: string }>({ from: '', to: '' });
 
   // Use ID instead of index for stable page editing
   const [editingLayoutPageId, setEditingLayoutPageId] = useState<string | null>(null); 
+  const [selectedWidgetId, setSelectedWidgetId] = useState<string | null>(null);
   
   // AI Import Specific State
   const [importStatus, setImportStatus] = useState<string>('idle');
   const [importStep, setImportStep] = useState<number>(0);
+  const [importDetail, setImportDetail] = useState('');
+  const [importFileName, setImportFileName] = useState('');
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
   const [previewData, setPreviewData] = useState<{announcements: any[], events: any[]} | null>(null);
   const [isExpanded, setIsExpanded] = useState<boolean>(false);
   const importTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const importAbortRef = useRef<AbortController | null>(null);
+  // Imports only reach the screens once the draft is saved, so they are audited then
+  const pendingImportsRef = useRef<{ fileName: string; announcementIds: string[]; eventIds: string[] }[]>([]);
 
   const [designerWidth, setDesignerWidth] = useState(1200);
   const designerContainerRef = useRef<HTMLDivElement>(null);
   const [newWidgetDef, setNewWidgetDef] = useState<Partial<CustomWidgetDefinition>>({ refreshSeconds: 60 });
 
-const refreshFromStorage = useCallback(async () => {
-  const latestData = await loadAppData();
-  setData(latestData);
-}, []);
+  // Display group currently being edited (independent of what this browser's kiosk shows)
+  const [editTarget, setEditTarget] = useState<DisplayTarget>(getActiveTarget());
+  const [availableTargets, setAvailableTargets] = useState<DisplayTarget[]>([getActiveTarget()]);
+  // Last config saved for editTarget, used to describe what a save changed in the audit log
+  const savedDataRef = useRef<AppData>(data);
+  // False until editTarget's config has loaded, so background work never saves the local copy over it
+  const [isConfigLoaded, setIsConfigLoaded] = useState(false);
+
+  // editTarget only moves once the group's config is in hand, so saves never write one group's config over another
+  const switchTarget = useCallback(async (target: DisplayTarget) => {
+    try {
+      const latestData = await loadAppData(target);
+      savedDataRef.current = latestData;
+      pendingImportsRef.current = [];
+      setData(latestData);
+      setEditTarget(target);
+      setIsConfigLoaded(true);
+    } catch (error) {
+      console.error('Failed to load display group config:', error);
+      alert(`Could not load ${formatTarget(target)}. Still editing ${formatTarget(editTarget)}.`);
+    }
+  }, [editTarget]);
 
   useEffect(() => {
-  refreshFromStorage();
+    listDisplayTargets().then(targets => {
+      const active = getActiveTarget();
+      setAvailableTargets(targets.some(t => isSameTarget(t, active)) ? targets : [active, ...targets]);
+    });
+  }, []);
+
+  const handleTargetChange = (value: string) => {
+      if (value === '__new__') {
+          const tenantId = window.prompt('School / tenant ID (e.g. ps-104):', editTarget.tenantId)?.trim();
+          if (!tenantId) return;
+          const groupId = window.prompt('Display group ID (e.g. lobby, cafeteria):')?.trim();
+          if (!groupId) return;
+          const target = { tenantId, groupId };
+          if (availableTargets.some(t => isSameTarget(t, target))) {
+              switchTarget(target);
+              return;
+          }
+          if (!window.confirm(`Create ${formatTarget(target)} from a copy of the current config?`)) return;
+          const snapshot = structuredClone(data);
+          saveAppData(snapshot, target, revisionMeta(`Created from ${formatTarget(editTarget)}`))
+              .then(() => {
+                  audit('group_create', `Created ${formatTarget(target)} from ${formatTarget(editTarget)}`, undefined, target);
+                  setAvailableTargets(prev => [...prev, target]);
+                  savedDataRef.current = snapshot;
+                  setEditTarget(target);
+              })
+              .catch(error => {
+                  console.error('Failed to create display group:', error);
+                  alert('Could not create display group. Check console.');
+              });
+          return;
+      }
+      const next = availableTargets.find(t => formatTarget(t) === value);
+      if (next) switchTarget(next);
+  };
+
+  useEffect(() => {
+  switchTarget(editTarget);
   const handleLogUpdate = () => setSystemLogs(getLogs());
 
   window.addEventListener('hardy-log-update', handleLogUpdate);
@@ -68,13 +178,83 @@ const refreshFromStorage = useCallback(async () => {
   return () => {
     window.removeEventListener('hardy-log-update', handleLogUpdate);
   };
-}, [refreshFromStorage]);
+}, []);
 
   useEffect(() => {
-    if (activeTab === 'security') {
-      setLoginLogs(getLoginLogs());
-    }
-  }, [activeTab]);
+    if (activeTab !== 'security') return;
+    listAuditEvents(editTarget.tenantId, auditFilter).then(setAuditEntries);
+  }, [activeTab, editTarget, auditFilter]);
+
+  useEffect(() => {
+    if (activeTab !== 'history') return;
+    listRevisions(editTarget).then(list => {
+      setRevisions(list);
+      setCompareIds({ from: list[1]?.id || '', to: list[0]?.id || '' });
+    });
+  }, [activeTab, editTarget]);
+
+  useEffect(() => {
+    const missing = [compareIds.from, compareIds.to].filter(id => id && !revisionData[id]);
+    missing.forEach(async id => {
+      const revision = await getRevision(id);
+      if (revision?.data) setRevisionData(prev => ({ ...prev, [id]: revision.data as AppData }));
+    });
+  }, [compareIds, revisionData]);
+
+  const revisionDiff = useMemo<ConfigDiffEntry[] | null>(() => {
+    const from = revisionData[compareIds.from];
+    const to = revisionData[compareIds.to];
+    return from && to ? diffConfigs(from, to) : null;
+  }, [compareIds, revisionData]);
+
+  const handleRestoreRevision = async (revision: ConfigRevision) => {
+      const label = new Date(revision.createdAt).toLocaleString();
+      if (!window.confirm(`Restore the config saved ${label} by ${revision.authorEmail}? This publishes it to every screen in ${formatTarget(editTarget)}.`)) return;
+
+      const restored = revisionData[revision.id] || (await getRevision(revision.id))?.data;
+      if (!restored) {
+          alert('Could not load that revision. Check console.');
+          return;
+      }
+
+      setIsSaving(true);
+      try {
+          const snapshot = structuredClone(restored);
+          await saveAppData(snapshot, editTarget, revisionMeta(`Restored revision #${revision.id} (${label})`));
+          auditSave(snapshot, 'revision_restore', `Restored revision #${revision.id}`);
+          setData(snapshot);
+          const list = await listRevisions(editTarget);
+          setRevisions(list);
+          setCompareIds({ from: list[1]?.id || '', to: list[0]?.id || '' });
+      } catch (error) {
+          console.error('Revision restore failed:', error);
+          alert('Restore failed. Check console.');
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  const refreshDevices = useCallback(async () => {
+    const registered = await listDevices();
+    setDevices(registered);
+    setLatestConfigHashes(await getLatestConfigHashes(registered));
+  }, []);
+
+  useEffect(() => {
+    if (activeTab !== 'health') return;
+    refreshDevices();
+    const interval = setInterval(refreshDevices, DEVICE_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [activeTab, refreshDevices]);
+
+  const refreshWeatherAlerts = useCallback(async () => {
+    setActiveWeatherAlerts(null);
+    setActiveWeatherAlerts(await fetchWeatherAlerts(data.weatherConfig.lat, data.weatherConfig.lon) || []);
+  }, [data.weatherConfig.lat, data.weatherConfig.lon]);
+
+  useEffect(() => {
+    if (activeTab === 'weather') refreshWeatherAlerts();
+  }, [activeTab, refreshWeatherAlerts]);
 
   useEffect(() => {
       if (editingLayoutPageId === null || !designerContainerRef.current) return;
@@ -87,14 +267,51 @@ const refreshFromStorage = useCallback(async () => {
       return () => resizeObserver.disconnect();
   }, [editingLayoutPageId]);
 
+  const revisionMeta = (note?: string): RevisionMeta => ({ authorEmail: session?.email || 'unknown', note });
+
+  const audit = (action: AuditAction, summary: string, details?: Record<string, unknown>, target: DisplayTarget = editTarget) =>
+    recordAuditEvent(session?.email || 'unknown', action, summary, target, details);
+
+  const auditSave = (snapshot: AppData, action: AuditAction, note?: string) => {
+    const changes = diffConfigs(savedDataRef.current, snapshot);
+    savedDataRef.current = snapshot;
+    const resolvedAction = action === 'config_save' && changes.length > 0 && changes.every(c => c.section === 'Announcements') ? 'announcement_edit' : action;
+    const summary = changes.length > 0 ? `${changes.length} change(s): ${_.uniq(changes.map(c => c.section)).join(', ')}` : 'No changes';
+    audit(resolvedAction, summary, { note: note || undefined, changes: changes.map(c => `${c.kind} ${c.section}: ${c.label}`) });
+    auditPendingImports(snapshot);
+  };
+
+  // Counts only the imported items still in the saved config; ones deleted before saving never went live
+  const auditPendingImports = (snapshot: AppData) => {
+    pendingImportsRef.current.forEach(({ fileName, announcementIds, eventIds }) => {
+      const announcements = (snapshot.announcements || []).filter(a => announcementIds.includes(a.id)).length;
+      const events = (snapshot.events || []).filter(e => eventIds.includes(e.id)).length;
+      if (announcements + events > 0) audit('import', `Imported ${announcements} announcement(s) and ${events} event(s) from "${fileName}"`);
+    });
+    pendingImportsRef.current = [];
+  };
+
   const handleSave = async () => {
+  // Only themes edited since the last save are held to AA, so an older theme never blocks an urgent announcement
+  const saved = savedDataRef.current;
+  const unreadable = [data.theme, ...(data.themeLibrary || [])]
+    .filter(theme => !_.isEqual(theme, saved.theme) && !(saved.themeLibrary || []).some(t => _.isEqual(t, theme)))
+    .filter(failsAA);
+  if (unreadable.length > 0) {
+    alert(`Not saved: ${_.uniq(unreadable.map(t => `"${t.name}"`)).join(', ')} fails WCAG AA contrast. Use "Fix for AA" in the Visual Theme tab.`);
+    return;
+  }
   setIsSaving(true);
 
   try {
-    const snapshot = structuredClone(data);
+    const snapshot = structuredClone(data.eventSettings?.autoArchive
+      ? { ...data, events: archivePastEvents(data.events || [], new Date(), data.eventSettings.timeZone) }
+      : data);
 
-    await saveAppData(snapshot);
+    await saveAppData(snapshot, editTarget, revisionMeta(saveNote.trim()));
+    auditSave(snapshot, 'config_save', saveNote.trim());
     setData(snapshot);
+    setSaveNote('');
 
     console.log('Cloud save success', snapshot);
   } catch (error) {
@@ -109,7 +326,8 @@ const handleSaveConfig = async (updatedData: AppData) => {
   try {
     const snapshot = structuredClone(updatedData);
 
-    await saveAppData(snapshot);
+    await saveAppData(snapshot, editTarget, revisionMeta('Raw config edit'));
+    auditSave(snapshot, 'raw_config_edit');
     setData(snapshot);
 
     console.log('Cloud config save success', snapshot);
@@ -120,13 +338,15 @@ const handleSaveConfig = async (updatedData: AppData) => {
 };
   const cancelImport = useCallback(() => {
     if (importTimeoutRef.current) clearTimeout(importTimeoutRef.current);
+    importAbortRef.current?.abort();
     setImportStatus('idle');
     setImportStep(0);
     setPreviewData(null);
   }, []);
 
-  const handlePdfImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleDocumentImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
+      e.target.value = '';
       if (!file) return;
       if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
           alert(`File too large. Maximum size is ${MAX_FILE_SIZE_MB}MB.`);
@@ -134,26 +354,34 @@ const handleSaveConfig = async (updatedData: AppData) => {
       }
       setImportStatus('processing');
       setImportStep(1);
+      setImportDetail('');
+      setImportFileName(file.name);
+      setImportWarnings([]);
+      const controller = new AbortController();
+      importAbortRef.current = controller;
       importTimeoutRef.current = setTimeout(() => {
-          if (importStatus === 'processing') {
-              cancelImport();
-              alert("Import timed out.");
-          }
+          cancelImport();
+          alert("Import timed out.");
       }, ANALYSIS_TIMEOUT_MS);
       try {
           setImportStep(2);
-          const text = await extractTextFromPdf(file);
+          const text = await extractDocumentText(file, {
+              signal: controller.signal,
+              onProgress: setImportDetail,
+              onWarning: (warning) => setImportWarnings(prev => [...prev, warning])
+          });
           setImportStep(3);
           await new Promise(r => setTimeout(r, 400));
           setImportStep(4);
-          const result = await analyzeNewsletter(text);
+          const result = await analyzeNewsletter(text, controller.signal);
+          if (controller.signal.aborted) return;
           setImportStep(5);
           setPreviewData(result);
           setImportStatus('preview');
       } catch (err: any) {
           setImportStatus('idle');
           setImportStep(0);
-          if (err.name !== 'AbortError') {
+          if (!controller.signal.aborted) {
              alert(err.message || "An error occurred during import.");
           }
       } finally {
@@ -161,19 +389,81 @@ const handleSaveConfig = async (updatedData: AppData) => {
       }
   };
 
-  const handleFactoryReset = () => {
+  const handleFactoryReset = async () => {
       if (window.confirm("Factory reset? This will erase all data.")) {
+          await audit('factory_reset', 'Cleared local kiosk storage');
           safeStorage.clear();
           window.location.reload();
       }
   };
 
-  const handleImageUpload = (file: File, callback: (base64: string) => void) => {
-      const reader = new FileReader();
-      reader.onloadend = () => typeof reader.result === 'string' && callback(reader.result);
-      reader.readAsDataURL(file);
+  const handleEmergencyBroadcast = async (active: boolean, message: string = data.emergency.message) => {
+      const prompt = active
+          ? `Broadcast this emergency alert to ALL screens now?\n\n"${message}"`
+          : 'Clear the emergency alert and resume normal signage on all screens?';
+      if (!window.confirm(prompt)) return;
+
+      // Publish only the alert: start from the last saved config so unsaved edits elsewhere stay
+      // drafts, but take the siren and clip from this panel, which are part of the alert
+      const saved = savedDataRef.current;
+      const { includeSiren, audioData } = data.emergency;
+      const emergency = { ...saved.emergency, includeSiren, audioData, message, active, timestamp: active ? Date.now() : saved.emergency.timestamp };
+      setIsSaving(true);
+      try {
+          const snapshot = structuredClone({ ...saved, emergency });
+          await saveAppData(snapshot, editTarget, revisionMeta(active ? 'Emergency alert triggered' : 'Emergency alert cleared'));
+          savedDataRef.current = snapshot;
+          audit(active ? 'emergency_trigger' : 'emergency_clear', active ? `Broadcast: "${message}"` : 'Emergency alert cleared');
+          setData(prev => ({ ...prev, emergency }));
+      } catch (error) {
+          console.error('Emergency broadcast failed:', error);
+          alert('Emergency broadcast failed. Screens were NOT updated. Check console.');
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  const handleCalendarSync = async () => {
+      setIsSyncingCalendars(true);
+      try {
+          const result = await syncCalendarSources(data.calendarSources || [], data.events || [], true, data.eventSettings?.timeZone);
+          setData(prev => ({ ...prev, calendarSources: result.sources, events: result.events }));
+      } finally {
+          setIsSyncingCalendars(false);
+      }
   };
 
+  const eventSettings = data.eventSettings || { autoArchive: false };
+  const archivedCount = (data.events || []).filter(e => e.archived).length;
+
+  // Older cloud configs may still hold legacy date/time events; edits save them in the structured form
+  const updateEvent = (index: number, patch: Partial<Event>) => {
+      const n = [...(data.events || [])];
+      n[index] = { ...normalizeEvent(n[index], eventSettings.timeZone), ...patch };
+      setData({ ...data, events: n });
+  };
+
+  // Removing or disabling a source drops its synced events right away
+  const updateCalendarSources = (sources: CalendarSource[]) => setData({
+      ...data,
+      calendarSources: sources,
+      events: (data.events || []).filter(e => !e.sourceId || sources.some(s => s.id === e.sourceId && s.enabled))
+  });
+
+  const handleExportAudit = () => {
+      const blob = new Blob([auditEntriesToCsv(auditEntries)], { type: 'text/csv' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${editTarget.tenantId}-${new Date().toISOString().slice(0, 10)}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+  };
+
+  const openMediaPicker = (kind: MediaKind, onSelect: (url: string) => void) => setMediaPicker({ kind, onSelect });
+
   const deleteImportItem = (type: 'announcements' | 'events', index: number) => {
       if (!previewData) return;
       const updated = { ...previewData };
@@ -184,32 +474,33 @@ const handleSaveConfig = async (updatedData: AppData) => {
 
   const commitImport = () => {
       if (!previewData) return;
-      const newAnnouncements = [...(data.announcements || [])];
-      const newEvents = [...(data.events || [])];
-      
-      previewData.announcements?.forEach((a: any) => {
-          newAnnouncements.unshift({
-              id: Math.random().toString(36).substr(2, 9),
-              type: 'text',
-              title: a.title || 'Extracted Notice',
-              content: a.content || '',
-              active: true,
-              priority: a.priority || 'normal'
-          });
+      const importedAnnouncements: Announcement[] = (previewData.announcements || []).map((a: any) => ({
+          id: Math.random().toString(36).substr(2, 9),
+          type: 'text',
+          title: a.title || 'Extracted Notice',
+          content: a.content || '',
+          active: true,
+          priority: a.priority || 'normal'
+      }));
+      const importedEvents: Event[] = (previewData.events || []).map((e: any) => ({
+          id: Math.random().toString(36).substr(2, 9),
+          title: e.title || 'Extracted Event',
+          location: e.location || 'Campus',
+          category: e.category || 'General',
+          ...parseLegacySchedule(e.date, e.time || '12:00', data.eventSettings?.timeZone)
+      }));
+
+      // Newest first, as each item used to be unshifted in turn
+      setData({
+          ...data,
+          announcements: [...importedAnnouncements.reverse(), ...(data.announcements || [])],
+          events: [...importedEvents.reverse(), ...(data.events || [])]
       });
-      
-      previewData.events?.forEach((e: any) => {
-          newEvents.unshift({
-              id: Math.random().toString(36).substr(2, 9),
-              title: e.title || 'Extracted Event',
-              time: e.time || '12:00',
-              location: e.location || 'Campus',
-              date: e.date || new Date().toISOString(),
-              category: e.category || 'General'
-          });
+      pendingImportsRef.current.push({
+          fileName: importFileName,
+          announcementIds: importedAnnouncements.map(a => a.id),
+          eventIds: importedEvents.map(e => e.id)
       });
-      
-      setData({ ...data, announcements: newAnnouncements, events: newEvents });
       setPreviewData(null);
       setImportStatus('idle');
       setImportStep(0);
@@ -221,18 +512,18 @@ const handleSaveConfig = async (updatedData: AppData) => {
       setData({ ...data, pages: newPages });
   };
 
-  const addWidget = (type: string, customDefId?: string) => {
+  const addWidget = (type: WidgetType, customDefId?: string) => {
       if (editingLayoutPageId === null) return;
       const newPages = (data.pages || []).map(p => {
           if (p.id !== editingLayoutPageId) return p;
           const widgetId = `${type}-${Date.now()}`;
-          const newWidget: WidgetConfig = {
+          const newWidget = {
               id: widgetId,
-              type: type as any,
+              type,
               title: customDefId ? undefined : WIDGET_LABELS[type] || type,
               refreshSeconds: 60,
-              settings: {}
-          };
+              settings: getDefaultWidgetSettings(type)
+          } as WidgetConfig;
           const newItem: GridItemConfig = { i: widgetId, x: 0, y: 0, w: 4, h: 4 };
           return {
               ...p,
@@ -244,6 +535,36 @@ const handleSaveConfig = async (updatedData: AppData) => {
       setData({ ...data, pages: newPages });
   };
 
+  const updateWidget = (widget: WidgetConfig) => {
+      const newPages = (data.pages || []).map(p =>
+          p.id === editingLayoutPageId ? { ...p, widgets: { ...(p.widgets || {}), [widget.id]: widget } } : p
+      );
+      setData({ ...data, pages: newPages });
+  };
+
+  const announcementTimelineRows = useMemo<TimelineRow[]>(
+    () => (data.announcements || []).filter(a => a.active).map(a => ({
+      id: a.id,
+      label: a.title || 'Untitled',
+      isLive: (at: Date) => isAnnouncementLive(a, at)
+    })),
+    [data.announcements]
+  );
+
+  const pageTimelineRows = useMemo<TimelineRow[]>(
+    () => (data.pages || []).filter(p => p.enabled !== false && p.schedule).map(p => ({
+      id: p.id,
+      label: p.title || 'Untitled',
+      isLive: (at: Date) => isRuleActive(p.schedule, at)
+    })),
+    [data.pages]
+  );
+
+  const previewPlaylist = useMemo(() => {
+    const at = playlistPreviewAt ? new Date(playlistPreviewAt) : new Date();
+    return getScheduledPages(data.pages || [], at);
+  }, [data.pages, playlistPreviewAt]);
+
   const layoutCtx = useMemo(() => 
     (data.pages || []).find(p => p.id === editingLayoutPageId), 
     [data.pages, editingLayoutPageId]
@@ -254,7 +575,37 @@ const handleSaveConfig = async (updatedData: AppData) => {
     return { lg: safeLayout };
   }, [layoutCtx]);
 
+  const mediaPickerModal = mediaPicker && (
+    <div className="fixed inset-0 z-[100] bg-slate-950/60 backdrop-blur-sm flex items-center justify-center p-12" onClick={() => setMediaPicker(null)}>
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-5xl max-h-full overflow-y-auto p-8" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <div><h3 className="text-xl font-black">Media Library</h3><p className="text-xs text-slate-400 font-bold uppercase tracking-widest">Choose or upload {mediaPicker.kind === 'audio' ? 'an audio clip' : mediaPicker.kind === 'video' ? 'a video' : 'an image'}</p></div>
+          <button onClick={() => setMediaPicker(null)} className="p-2 text-slate-400 hover:text-slate-700 transition-colors"><XCircle className="w-5 h-5" /></button>
+        </div>
+        <MediaLibrary
+          tenantId={editTarget.tenantId}
+          kind={mediaPicker.kind}
+          onSelect={(asset) => {
+            mediaPicker.onSelect(asset.url);
+            setMediaPicker(null);
+          }}
+        />
+      </div>
+    </div>
+  );
+
   if (layoutCtx) {
+      const selectedWidget = selectedWidgetId ? layoutCtx.widgets?.[selectedWidgetId] : undefined;
+      const selectedItem = layoutCtx.layout?.find(l => l.i === selectedWidgetId);
+      const invalidWidgetIds = getInvalidWidgets(layoutCtx).map(w => w.id);
+      const handleSaveLayout = () => {
+          if (invalidWidgetIds.length > 0) {
+              setSelectedWidgetId(invalidWidgetIds[0]);
+              alert(`${invalidWidgetIds.length} widget(s) need attention before this layout can be saved.`);
+              return;
+          }
+          handleSave();
+      };
       const dynamicRowHeight = (designerWidth / 12) / 1.2;
       return (
           <div className="fixed inset-0 bg-slate-950 z-[100] flex flex-col text-white font-sans">
@@ -265,8 +616,8 @@ const handleSaveConfig = async (updatedData: AppData) => {
                        <span className="text-[10px] font-black px-2 py-1 rounded text-white" style={{ backgroundColor: 'var(--accent-color)' }}>DESIGNER</span>
                    </div>
                    <div className="flex items-center gap-6">
-                       <button onClick={() => setEditingLayoutPageId(null)} className="px-6 py-2 hover:bg-white/10 rounded-xl font-bold transition-all border border-white/10">Exit Designer</button>
-                       <button onClick={handleSave} style={{ backgroundColor: 'var(--accent-color)' }} className="hover:opacity-90 px-8 py-2 rounded-xl font-black text-sm flex items-center gap-2 shadow-xl shadow-green-900/20 text-white">
+                       <button onClick={() => { setEditingLayoutPageId(null); setSelectedWidgetId(null); }} className="px-6 py-2 hover:bg-white/10 rounded-xl font-bold transition-all border border-white/10">Exit Designer</button>
+                       <button onClick={handleSaveLayout} disabled={!canEditTab(role, 'pages')} style={{ backgroundColor: 'var(--accent-color)' }} className="hover:opacity-90 px-8 py-2 rounded-xl font-black text-sm flex items-center gap-2 shadow-xl shadow-green-900/20 text-white disabled:opacity-40">
                             {isSaving ? <Loader2 className="w-4 h-4 animate-spin"/> : <Save className="w-4 h-4"/>} SAVE LAYOUT
                        </button>
                    </div>
@@ -306,7 +657,7 @@ const handleSaveConfig = async (updatedData: AppData) => {
                                 margin={[20, 20]}
                             >
                                 {(layoutCtx.layout || []).map(item => (
-                                    <div key={item.i} className="rounded-3xl border-2 bg-slate-800 shadow-xl overflow-hidden border-white/5 flex flex-col relative group/item">
+                                    <div key={item.i} className={`rounded-3xl border-2 bg-slate-800 shadow-xl overflow-hidden flex flex-col relative group/item ${invalidWidgetIds.includes(item.i) ? 'border-red-500/60' : selectedWidgetId === item.i ? 'border-white/40' : 'border-white/5'}`}>
                                         <div className="bg-slate-900 p-2 flex items-center justify-between drag-handle cursor-move">
                                             <span className="text-[9px] font-black uppercase text-white/50">{layoutCtx.widgets?.[item.i]?.title || layoutCtx.widgets?.[item.i]?.type || 'Widget'}</span>
                                             <button onClick={() => {
@@ -317,9 +668,10 @@ const handleSaveConfig = async (updatedData: AppData) => {
                                                   return { ...p, layout: newLayout, widgets: newWidgets };
                                               });
                                               setData({...data, pages: newPages});
+                                              if (selectedWidgetId === item.i) setSelectedWidgetId(null);
                                             }} className="text-red-400 hover:text-red-500 p-1 opacity-0 group-hover/item:opacity-100 transition-opacity"><Trash2 className="w-3 h-3"/></button>
                                         </div>
-                                        <div className="flex-1 flex flex-col items-center justify-center opacity-30 select-none">
+                                        <div onClick={() => setSelectedWidgetId(item.i)} className="flex-1 flex flex-col items-center justify-center opacity-30 select-none cursor-pointer">
                                             <div className="text-xl font-black uppercase tracking-tighter">{layoutCtx.widgets?.[item.i]?.type}</div>
                                         </div>
                                     </div>
@@ -327,34 +679,57 @@ const handleSaveConfig = async (updatedData: AppData) => {
                             </Responsive>
                       </div>
                   </div>
+                  {selectedWidget && (
+                      <div className="w-80 bg-slate-900 border-l border-white/10 flex flex-col overflow-y-auto shrink-0 p-6 space-y-3">
+                          <div className="flex items-center justify-between mb-3">
+                              <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{WIDGET_LABELS[selectedWidget.type] || selectedWidget.type} Settings</h3>
+                              <button onClick={() => setSelectedWidgetId(null)} className="text-slate-500 hover:text-white"><XCircle className="w-4 h-4" /></button>
+                          </div>
+                          <WidgetSettingsEditor
+                              widget={selectedWidget}
+                              appData={data}
+                              // Grid rows are 1/1.2 of a column wide
+                              aspectRatio={selectedItem ? (selectedItem.w * 1.2) / selectedItem.h : 1}
+                              onChange={updateWidget}
+                              onPickMedia={openMediaPicker}
+                          />
+                      </div>
+                  )}
               </div>
+              {mediaPickerModal}
           </div>
       );
   }
 
+  const onlineDeviceCount = devices.filter(d => isDeviceOnline(d)).length;
+  const countOnlineInSyncState = (state: ReturnType<typeof getDeviceSyncState>) =>
+      devices.filter(d => isDeviceOnline(d) && getDeviceSyncState(d, latestConfigHashes[formatTarget(d)]) === state).length;
+  const staleDeviceCount = countOnlineInSyncState('stale');
+  const unsyncedDeviceCount = countOnlineInSyncState('unsynced');
+
   const renderActiveTab = () => {
     switch (activeTab) {
       case 'announcements':
         return (
           <div className="space-y-6">
             <div className="flex justify-between items-center mb-4">
-              <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{(data.announcements || []).length} Items</p>
+              <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{(data.announcements || []).length} Items · Live schedule, next 7 days</p>
               <button onClick={() => setData({...data, announcements: [{id: Date.now().toString(), type: 'text', title: 'New Announcement', content: '', active: true, priority: 'normal'}, ...(data.announcements || [])]})} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 flex items-center gap-2 transition-all">
                 <Plus className="w-4 h-4" /> Add New
               </button>
             </div>
+            <ScheduleTimeline rows={announcementTimelineRows} />
             {(data.announcements || []).map((item, i) => (
               <div key={item.id} className="p-6 rounded-[2rem] bg-slate-50 border border-slate-100 flex gap-6 group hover:border-blue-100 transition-all">
                 <div className="w-32 h-32 rounded-2xl bg-slate-200 shrink-0 overflow-hidden relative shadow-inner">
                   {item.imageUrl ? <img src={item.imageUrl} className="w-full h-full object-cover" /> : <div className="w-full h-full flex items-center justify-center text-slate-400"><ImageIcon className="w-8 h-8" /></div>}
-                  <label className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 flex items-center justify-center cursor-pointer text-white text-[9px] font-black uppercase transition-opacity">
+                  <button onClick={() => openMediaPicker('image', (url) => {
+                      const n = [...(data.announcements || [])];
+                      n[i] = { ...n[i], imageUrl: url, type: n[i].type === 'video' ? 'video' : 'image' };
+                      setData({...data, announcements: n});
+                    })} className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 flex items-center justify-center cursor-pointer text-white text-[9px] font-black uppercase transition-opacity">
                     Change
-                    <input type="file" className="hidden" onChange={(e) => e.target.files?.[0] && handleImageUpload(e.target.files[0], (b64) => { 
-                      const n = [...(data.announcements || [])]; 
-                      n[i].imageUrl = b64; 
-                      setData({...data, announcements: n}); 
-                    })} />
-                  </label>
+                  </button>
                 </div>
                 <div className="flex-1 space-y-4">
                   <div className="flex justify-between items-start">
@@ -381,6 +756,11 @@ const handleSaveConfig = async (updatedData: AppData) => {
                     n[i].content = e.target.value; 
                     setData({...data, announcements: n}); 
                   }} />
+                  <VideoSettingsEditor video={item.video} onPick={(onSelect) => openMediaPicker('video', onSelect)} onChange={(video) => {
+                    const n = [...(data.announcements || [])];
+                    n[i] = { ...n[i], video, type: video ? 'video' : n[i].imageUrl ? 'image' : 'text' };
+                    setData({...data, announcements: n});
+                  }} />
                   <div className="flex items-center justify-between">
                     <button onClick={async () => { 
                       const n = [...(data.announcements || [])]; 
@@ -389,6 +769,10 @@ const handleSaveConfig = async (updatedData: AppData) => {
                     }} className="flex items-center gap-2 text-[10px] font-black text-indigo-500 hover:text-indigo-600 uppercase tracking-widest transition-colors">
                       <Wand2 className="w-3.5 h-3.5" /> AI Rewrite
                     </button>
+                    <button onClick={() => setScheduleEditingId(scheduleEditingId === item.id ? null : item.id)} className="flex items-center gap-2 text-[10px] font-black text-slate-500 hover:text-slate-700 uppercase tracking-widest transition-colors">
+                      <Clock className="w-3.5 h-3.5" />
+                      {item.startAt || item.endAt || item.recurrence ? describeRule(item.recurrence) + (item.startAt || item.endAt ? ' · Windowed' : '') : 'Schedule'}
+                    </button>
                     <label className="flex items-center gap-3 cursor-pointer">
                       <span className="text-[10px] font-black uppercase text-slate-400">Published</span>
                       <div onClick={() => { 
@@ -400,6 +784,29 @@ const handleSaveConfig = async (updatedData: AppData) => {
                       </div>
                     </label>
                   </div>
+                  {scheduleEditingId === item.id && (
+                    <div className="p-4 bg-white rounded-2xl border border-slate-200 space-y-4">
+                      <div className="flex items-center gap-2">
+                        <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest w-20">Window</span>
+                        <input type="datetime-local" className="bg-white px-3 py-1.5 rounded-lg border border-slate-200 text-xs font-bold" value={toLocalInputValue(item.startAt)} onChange={(e) => {
+                          const n = [...(data.announcements || [])];
+                          n[i] = { ...n[i], startAt: e.target.value ? new Date(e.target.value).toISOString() : undefined };
+                          setData({...data, announcements: n});
+                        }} />
+                        <span className="text-xs text-slate-400">to</span>
+                        <input type="datetime-local" className="bg-white px-3 py-1.5 rounded-lg border border-slate-200 text-xs font-bold" value={toLocalInputValue(item.endAt)} onChange={(e) => {
+                          const n = [...(data.announcements || [])];
+                          n[i] = { ...n[i], endAt: e.target.value ? new Date(e.target.value).toISOString() : undefined };
+                          setData({...data, announcements: n});
+                        }} />
+                      </div>
+                      <ScheduleRuleEditor rule={item.recurrence} onChange={(rule) => {
+                        const n = [...(data.announcements || [])];
+                        n[i] = { ...n[i], recurrence: rule };
+                        setData({...data, announcements: n});
+                      }} />
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -408,57 +815,131 @@ const handleSaveConfig = async (updatedData: AppData) => {
       case 'events':
         return (
           <div className="space-y-6">
+            <CalendarSourcesEditor
+              sources={data.calendarSources || []}
+              categories={(data.eventCategories || []).map(c => c.name)}
+              tenantId={editTarget.tenantId}
+              isSyncing={isSyncingCalendars}
+              readOnly={!canEditTab(role, 'events')}
+              onChange={updateCalendarSources}
+              onSyncNow={handleCalendarSync}
+            />
+            <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 flex items-center gap-6 flex-wrap">
+              <label className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-400 tracking-widest">
+                Time zone
+                <input list="event-time-zones" className="w-56 bg-white px-3 py-2 rounded-xl border border-slate-200 text-sm font-bold text-slate-700 normal-case tracking-normal" placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone} value={data.eventSettings?.timeZone || ''} onChange={(e) => setData({...data, eventSettings: {...eventSettings, timeZone: e.target.value.trim() || undefined}})} />
+                <datalist id="event-time-zones">
+                  {((Intl as any).supportedValuesOf?.('timeZone') || []).map((zone: string) => <option key={zone} value={zone} />)}
+                </datalist>
+              </label>
+              {eventSettings.timeZone && !resolveTimeZone(eventSettings.timeZone) && <span className="text-[10px] font-black uppercase tracking-widest text-red-500">Unknown zone · screens use their own</span>}
+              <label className="flex items-center gap-3 text-[10px] font-black uppercase text-slate-400 tracking-widest">
+                Auto-archive past events on save
+                <button onClick={() => setData({...data, eventSettings: {...eventSettings, autoArchive: !eventSettings.autoArchive}})} className={`w-12 h-7 rounded-full p-1 transition-colors ${eventSettings.autoArchive ? 'bg-green-500' : 'bg-slate-300'}`}><div className={`w-5 h-5 bg-white rounded-full transition-transform ${eventSettings.autoArchive ? 'translate-x-5' : 'translate-x-0'}`} /></button>
+              </label>
+              {archivedCount > 0 && (
+                <button onClick={() => setShowArchivedEvents(!showArchivedEvents)} className="ml-auto text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-700">
+                  {showArchivedEvents ? 'Hide' : 'Show'} archived ({archivedCount})
+                </button>
+              )}
+            </div>
             <div className="flex justify-between items-center mb-6">
-              <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{(data.events || []).length} Upcoming</p>
-              <button onClick={() => setData({...data, events: [...(data.events || []), {id: Date.now().toString(), title: 'New Event', time: '12:00', location: 'TBD', date: new Date().toISOString(), category: 'General'}]})} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 flex items-center gap-2 transition-all">
+              <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{selectEventRows(data.events || [], new Date(), eventSettings.timeZone).length} Upcoming</p>
+              <button onClick={() => {
+                // Next full hour, one hour long
+                const start = Math.ceil(Date.now() / 3600000) * 3600000;
+                setData({...data, events: [...(data.events || []), {id: Date.now().toString(), title: 'New Event', location: 'TBD', start: new Date(start).toISOString(), end: new Date(start + 3600000).toISOString(), category: 'General'}]});
+              }} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 flex items-center gap-2 transition-all">
                 <Plus className="w-4 h-4" /> Add Event
               </button>
             </div>
             <div className="grid grid-cols-1 gap-4">
-              {(data.events || []).map((evt, i) => (
-                <div key={evt.id} className="p-4 bg-slate-50 border border-slate-100 rounded-3xl flex items-center gap-6 group hover:border-blue-100 transition-all">
-                  <div className="w-16 h-16 rounded-2xl bg-white flex flex-col items-center justify-center border border-slate-100 shadow-sm shrink-0 relative overflow-hidden">
-                    <input type="date" className="absolute inset-0 opacity-0 cursor-pointer" value={evt.date?.split('T')[0] || ''} onChange={(e) => { 
-                      const n = [...(data.events || [])]; 
-                      n[i].date = new Date(e.target.value).toISOString(); 
-                      setData({...data, events: n}); 
-                    }} />
-                    <span className="text-[9px] font-black text-red-500 uppercase">{new Date(evt.date || Date.now()).toLocaleDateString('en-US', {weekday:'short'}).toUpperCase()}</span>
-                    <span className="text-2xl font-black text-slate-800">{new Date(evt.date || Date.now()).getDate()}</span>
+              {(data.events || []).map((raw, i) => {
+                if (raw.archived && !showArchivedEvents) return null;
+                const evt = normalizeEvent(raw, eventSettings.timeZone);
+                const tz = eventSettings.timeZone;
+                const synced = !!evt.sourceId;
+                const syncedFrom = synced ? (data.calendarSources || []).find(s => s.id === evt.sourceId) : undefined;
+                const day = getEventDay(evt, tz);
+                const inputClass = "bg-transparent font-bold text-slate-500 text-xs border-none p-0 focus:ring-0";
+                return (
+                <div key={evt.id} className={`p-4 bg-slate-50 border border-slate-100 rounded-3xl flex items-center gap-6 group hover:border-blue-100 transition-all ${evt.archived || isEventOver(evt, new Date()) ? 'opacity-60' : ''}`}>
+                  <div className="w-16 h-16 rounded-2xl bg-white flex flex-col items-center justify-center border border-slate-100 shadow-sm shrink-0">
+                    <span className="text-[9px] font-black text-red-500 uppercase">{day.weekday}</span>
+                    <span className="text-2xl font-black text-slate-800">{day.day}</span>
                   </div>
                   <div className="flex-1 grid grid-cols-12 gap-4 items-center">
-                    <div className="col-span-5"><input className="w-full bg-transparent font-black text-slate-800 border-none p-0 focus:ring-0" value={evt.title} onChange={(e) => { 
-                      const n = [...(data.events || [])]; 
-                      n[i].title = e.target.value; 
-                      setData({...data, events: n}); 
-                    }} placeholder="Event Title" /></div>
-                    <div className="col-span-2"><input type="time" className="w-full bg-transparent font-bold text-slate-500 text-sm border-none p-0 focus:ring-0" value={evt.time} onChange={(e) => { 
-                      const n = [...(data.events || [])]; 
-                      n[i].time = e.target.value; 
-                      setData({...data, events: n}); 
-                    }} /></div>
-                    <div className="col-span-3">
-                      <select className="w-full bg-transparent font-black text-[10px] text-slate-400 uppercase tracking-widest border-none p-0 focus:ring-0" value={evt.category} onChange={(e) => { 
-                        const n = [...(data.events || [])]; 
-                        n[i].category = e.target.value; 
-                        setData({...data, events: n}); 
-                      }}>
-                        {['Academic', 'Sports', 'Arts', 'General'].map(c => <option key={c} value={c}>{c}</option>)}
+                    <div className="col-span-4"><input disabled={synced} className="w-full bg-transparent font-black text-slate-800 border-none p-0 focus:ring-0" value={evt.title} onChange={(e) => updateEvent(i, { title: e.target.value })} placeholder="Event Title" /></div>
+                    <div className="col-span-4 flex flex-col gap-1">
+                      {synced ? (
+                        <span className="text-xs font-bold text-slate-500">{formatEventTime(evt, tz)}</span>
+                      ) : evt.allDay ? (
+                        <>
+                          <input type="date" className={inputClass} value={toZonedInputValue(evt.start, tz, true)} onChange={(e) => {
+                            const start = fromZonedInputValue(e.target.value, tz);
+                            if (start) updateEvent(i, { start, end: fromZonedInputValue(e.target.value, tz, 1) });
+                          }} />
+                          <label className="flex items-center gap-2 text-[9px] font-black uppercase text-slate-400 tracking-widest">Through
+                            <input type="date" className={inputClass} min={toZonedInputValue(evt.start, tz, true)} value={toZonedInputValue(new Date(getEventEnd(evt).getTime() - 1).toISOString(), tz, true)} onChange={(e) => {
+                              const end = fromZonedInputValue(e.target.value, tz, 1);
+                              if (end && end > evt.start) updateEvent(i, { end });
+                            }} />
+                          </label>
+                        </>
+                      ) : (
+                        <>
+                          <input type="datetime-local" className={inputClass} value={toZonedInputValue(evt.start, tz)} onChange={(e) => {
+                            const start = fromZonedInputValue(e.target.value, tz);
+                            if (!start) return;
+                            // Moving the start keeps the event's length
+                            const end = evt.end ? new Date(new Date(start).getTime() + getEventEnd(evt).getTime() - new Date(evt.start).getTime()).toISOString() : undefined;
+                            updateEvent(i, { start, end });
+                          }} />
+                          <label className="flex items-center gap-2 text-[9px] font-black uppercase text-slate-400 tracking-widest">Ends
+                            <input type="datetime-local" className={inputClass} min={toZonedInputValue(evt.start, tz)} value={toZonedInputValue(evt.end, tz)} onChange={(e) => {
+                              const end = fromZonedInputValue(e.target.value, tz);
+                              if (!end || end > evt.start) updateEvent(i, { end });
+                            }} />
+                          </label>
+                        </>
+                      )}
+                    </div>
+                    <div className="col-span-2">
+                      <select disabled={synced} className="w-full bg-transparent font-black text-[10px] text-slate-400 uppercase tracking-widest border-none p-0 focus:ring-0" value={evt.category} onChange={(e) => updateEvent(i, { category: e.target.value })}>
+                        {Array.from(new Set(['Academic', 'Sports', 'Arts', 'General', evt.category])).map(c => <option key={c} value={c}>{c}</option>)}
                       </select>
                     </div>
-                    <div className="col-span-2 flex justify-end">
-                      <button onClick={() => { 
-                        const n = [...(data.events || [])]; 
-                        n.splice(i, 1); 
-                        setData({...data, events: n}); 
-                      }} className="p-2 text-slate-200 hover:text-red-500 transition-colors"><Trash2 className="w-4 h-4" /></button>
+                    <div className="col-span-2 flex justify-end items-center gap-2">
+                      {synced ? (
+                        <span title={syncedFrom ? `Synced from ${syncedFrom.name}` : 'Synced'} className="px-2 py-1 rounded bg-blue-100 text-blue-600 text-[9px] font-black uppercase tracking-widest flex items-center gap-1 truncate max-w-full"><RefreshCw className="w-3 h-3 shrink-0" /> Synced</span>
+                      ) : evt.archived ? (
+                        <button onClick={() => updateEvent(i, { archived: undefined })} className="px-2 py-1 rounded bg-slate-200 text-slate-600 text-[9px] font-black uppercase tracking-widest hover:bg-slate-300">Restore</button>
+                      ) : (
+                        <>
+                          <button onClick={() => updateEvent(i, setEventAllDay(evt, !evt.allDay, tz))} className={`px-2 py-1 rounded text-[9px] font-black uppercase tracking-widest transition-colors ${evt.allDay ? 'bg-slate-900 text-white' : 'bg-white text-slate-400 border border-slate-200'}`}>All Day</button>
+                          <button onClick={() => { 
+                            const n = [...(data.events || [])]; 
+                            n.splice(i, 1); 
+                            setData({...data, events: n}); 
+                          }} className="p-2 text-slate-200 hover:text-red-500 transition-colors"><Trash2 className="w-4 h-4" /></button>
+                        </>
+                      )}
                     </div>
                   </div>
                 </div>
-              ))}
+                );
+              })}
             </div>
           </div>
         );
+      case 'bells':
+        return (
+          <BellScheduleEditor
+            config={data.bellSchedule || DEFAULT_BELL_SCHEDULE}
+            readOnly={!canEditTab(role, 'bells')}
+            onChange={(bellSchedule) => setData({...data, bellSchedule})}
+          />
+        );
       case 'pages':
         return (
           <div className="space-y-12">
@@ -468,6 +949,25 @@ const handleSaveConfig = async (updatedData: AppData) => {
                 <Plus className="w-4 h-4" /> Create Page
               </button>
             </div>
+            <div className="p-8 rounded-[2.5rem] bg-slate-900 text-white space-y-6">
+              <div className="flex items-center justify-between">
+                <div><h3 className="text-sm font-black uppercase tracking-widest flex items-center gap-2"><Clock className="w-4 h-4" /> Playlist Preview</h3><p className="text-xs text-white/40 font-bold">Simulate the rotation at any moment</p></div>
+                <input type="datetime-local" className="bg-white/10 border border-white/10 rounded-xl px-4 py-2 text-xs font-bold text-white" value={playlistPreviewAt} onChange={(e) => setPlaylistPreviewAt(e.target.value)} />
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="px-4 py-2 rounded-xl bg-white/10 text-xs font-black">Home · {data.pageDuration || 60}s</span>
+                {previewPlaylist.map(p => (
+                  <React.Fragment key={p.id}>
+                    <ChevronRight className="w-4 h-4 text-white/30" />
+                    <span className="px-4 py-2 rounded-xl text-xs font-black" style={{ backgroundColor: 'var(--accent-color)' }}>{p.title} · {p.duration || data.pageDuration || 60}s</span>
+                  </React.Fragment>
+                ))}
+              </div>
+              <p className="text-[10px] font-black uppercase tracking-widest text-white/40">
+                Full cycle: {(data.pageDuration || 60) + previewPlaylist.reduce((sum, p) => sum + (p.duration || data.pageDuration || 60), 0)}s
+              </p>
+            </div>
+            {pageTimelineRows.length > 0 && <ScheduleTimeline rows={pageTimelineRows} />}
             {(data.pages || []).map((page, i) => (
               <div key={page.id} className="p-8 rounded-[2.5rem] bg-slate-50 border border-slate-100 relative group/page">
                 <div className="flex justify-between items-center mb-8 pb-8 border-b border-slate-200">
@@ -513,15 +1013,42 @@ const handleSaveConfig = async (updatedData: AppData) => {
                     <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Hero Visual</label>
                     <div className="w-full h-40 rounded-2xl bg-slate-200 overflow-hidden relative group/img cursor-pointer">
                       {page.imageUrl ? <img src={page.imageUrl} className="w-full h-full object-cover" /> : <div className="w-full h-full flex items-center justify-center text-slate-400"><ImageIcon className="w-10 h-10" /></div>}
-                      <label className="absolute inset-0 bg-black/60 opacity-0 group-hover/img:opacity-100 transition-opacity flex items-center justify-center cursor-pointer text-white text-[9px] font-black uppercase">
-                        Upload Image
-                        <input type="file" className="hidden" onChange={(e) => e.target.files?.[0] && handleImageUpload(e.target.files[0], (b64) => { 
-                          const n = [...(data.pages || [])]; 
-                          n[i].imageUrl = b64; 
-                          setData({...data, pages: n}); 
-                        })} />
-                      </label>
+                      <button onClick={() => openMediaPicker('image', (url) => {
+                          const n = [...(data.pages || [])];
+                          n[i].imageUrl = url;
+                          setData({...data, pages: n});
+                        })} className="absolute inset-0 bg-black/60 opacity-0 group-hover/img:opacity-100 transition-opacity flex items-center justify-center cursor-pointer text-white text-[9px] font-black uppercase">
+                        Choose Image
+                      </button>
                     </div>
+                    {page.type !== 'grid' && (
+                      <div className="mt-3">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Background Video</label>
+                        <VideoSettingsEditor video={page.backgroundVideo} onPick={(onSelect) => openMediaPicker('video', onSelect)} onChange={(video) => {
+                          const n = [...(data.pages || [])];
+                          n[i] = { ...n[i], backgroundVideo: video };
+                          setData({...data, pages: n});
+                        }} />
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <div className="mt-8 pt-8 border-t border-slate-200 grid grid-cols-[1fr_auto] gap-8 items-start">
+                  <div>
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-3">Daypart Schedule · {describeRule(page.schedule)}</label>
+                    <ScheduleRuleEditor showDateRange rule={page.schedule} onChange={(rule) => {
+                      const n = [...(data.pages || [])];
+                      n[i] = { ...n[i], schedule: rule };
+                      setData({...data, pages: n});
+                    }} />
+                  </div>
+                  <div>
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-3">Duration (sec)</label>
+                    <input type="number" min={5} className="w-28 bg-white px-4 py-2 rounded-xl border border-slate-200 text-sm font-bold" placeholder={String(data.pageDuration || 60)} value={page.duration || ''} onChange={(e) => {
+                      const n = [...(data.pages || [])];
+                      n[i] = { ...n[i], duration: e.target.value ? Number(e.target.value) : undefined };
+                      setData({...data, pages: n});
+                    }} />
                   </div>
                 </div>
               </div>
@@ -540,9 +1067,9 @@ const handleSaveConfig = async (updatedData: AppData) => {
                 <p className="text-slate-500 font-bold mb-8 uppercase text-[10px] tracking-widest">
                   Step {importStep} of 5: {
                     importStep === 1 ? 'Uploading metadata...' :
-                    importStep === 2 ? 'Deconstructing PDF...' :
+                    importStep === 2 ? (importDetail || 'Extracting text...') :
                     importStep === 3 ? 'Refining extracted text...' :
-                    importStep === 4 ? 'Gemini AI reasoning...' :
+                    importStep === 4 ? 'AI reasoning...' :
                     'Formatting results...'
                   }
                 </p>
@@ -559,23 +1086,28 @@ const handleSaveConfig = async (updatedData: AppData) => {
                   <FileUp className="w-10 h-10 text-white" />
                 </div>
                 <h3 className="text-3xl font-black text-slate-900 mb-4">AI Document Import</h3>
-                <p className="text-slate-500 text-lg max-w-xl mb-10 font-medium">Upload a school bulletin (PDF). Our high-performance engine extracts events and notices automatically.</p>
+                <p className="text-slate-500 text-lg max-w-xl mb-10 font-medium">Upload a school bulletin or newsletter: {getImporters().map(i => i.label).join(', ')}. Events and notices are extracted automatically.</p>
                 <div className="relative group">
-                  <input type="file" className="absolute inset-0 opacity-0 cursor-pointer" accept=".pdf" onChange={handlePdfImport} />
+                  <input type="file" className="absolute inset-0 opacity-0 cursor-pointer" accept={getImportAccept()} onChange={handleDocumentImport} />
                   <div className="px-12 py-5 bg-slate-900 text-white rounded-2xl font-black text-sm uppercase tracking-widest flex items-center gap-4 group-hover:bg-slate-800 transition-all shadow-xl shadow-black/20">
-                    <FileUp className="w-5 h-5" /> Select PDF Bulletin
+                    <FileUp className="w-5 h-5" /> Select Document
                   </div>
                 </div>
                 <div className="mt-8 flex gap-8 items-center justify-center opacity-40">
                   <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest"><Info className="w-3.5 h-3.5"/> Max 10MB</div>
-                  <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest"><Info className="w-3.5 h-3.5"/> Max 15 Pages</div>
+                  <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest"><Info className="w-3.5 h-3.5"/> Scans read with OCR (needs internet)</div>
                 </div>
               </>
             )}
             {previewData && (
               <div className="absolute inset-0 bg-white z-[60] flex flex-col p-12 overflow-hidden animate-in fade-in slide-in-from-bottom-8 duration-500">
                 <div className="flex justify-between items-center mb-10 shrink-0">
-                  <div><h3 className="text-3xl font-black tracking-tight">Import Verification</h3><p className="text-xs text-slate-400 font-bold uppercase tracking-widest">Verify and refine AI extraction results</p></div>
+                  <div>
+                    <h3 className="text-3xl font-black tracking-tight">Import Verification</h3><p className="text-xs text-slate-400 font-bold uppercase tracking-widest">Verify and refine AI extraction results</p>
+                    {importWarnings.map((warning, i) => (
+                      <p key={i} className="mt-2 text-xs font-bold text-amber-600 flex items-center gap-2"><AlertTriangle className="w-3.5 h-3.5 shrink-0" /> {warning}</p>
+                    ))}
+                  </div>
                   <div className="flex gap-4">
                     <button onClick={() => setPreviewData(null)} className="px-6 py-3 bg-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all">Discard</button>
                     <button onClick={commitImport} className="px-8 py-3 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest shadow-xl shadow-blue-600/20 hover:brightness-110 transition-all">Commit to Signage</button>
@@ -626,136 +1158,340 @@ const handleSaveConfig = async (updatedData: AppData) => {
             )}
           </div>
         );
-      case 'appearance':
+      case 'appearance': {
+        const themeTokens = resolveThemeTokens(data.theme);
+        const updateTheme = (changes: Partial<Theme>) => setData({...data, theme: {...data.theme, ...changes}});
+        const tokenSliders: { key: 'uiScale' | 'baseFont' | 'overlayOpacity' | 'spacingScale'; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+          { key: 'uiScale', label: 'UI Scale', min: 0.85, max: 1.2, step: 0.01, format: v => `${v.toFixed(2)}×` },
+          { key: 'baseFont', label: 'Base Font Size', min: 12, max: 24, step: 1, format: v => `${v}px` },
+          { key: 'overlayOpacity', label: 'Overlay Opacity', min: 0, max: 0.8, step: 0.01, format: v => `${Math.round(v * 100)}%` },
+          { key: 'spacingScale', label: 'Spacing Scale', min: 0.85, max: 1.2, step: 0.01, format: v => `${v.toFixed(2)}×` },
+        ];
         return (
-          <div className="grid grid-cols-2 gap-12">
-            <div className="space-y-8">
-              <div>
-                <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-3">School Identity</label>
-                <input 
-                  className="w-full bg-slate-50 p-4 rounded-xl border border-slate-200 font-black text-lg focus:ring-2" 
-                  style={{'--tw-ring-color': 'var(--accent-color)'} as any} 
-                  value={data.schoolName} 
-                  onChange={(e) => setData({...data, schoolName: e.target.value})} 
-                />
-              </div>
-
-              {/* RESTORED SOCIAL IDENTITY FIELDS */}
-              <div className="space-y-6">
-                <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-3">Contact & Social Presence</label>
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Phone</label>
-                    <input 
-                      className="w-full bg-slate-50 p-3 rounded-xl border border-slate-200 text-sm font-bold focus:ring-2" 
-                      value={data.socials?.phone || ''} 
-                      onChange={(e) => setData({...data, socials: {...data.socials, phone: e.target.value}})} 
-                    />
-                  </div>
-                  <div>
-                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Website</label>
-                    <input 
-                      className="w-full bg-slate-50 p-3 rounded-xl border border-slate-200 text-sm font-bold focus:ring-2" 
-                      value={data.socials?.website || ''} 
-                      onChange={(e) => setData({...data, socials: {...data.socials, website: e.target.value}})} 
-                    />
-                  </div>
-                  <div>
-                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Instagram</label>
-                    <input 
-                      className="w-full bg-slate-50 p-3 rounded-xl border border-slate-200 text-sm font-bold focus:ring-2" 
-                      value={data.socials?.instagram || ''} 
-                      onChange={(e) => setData({...data, socials: {...data.socials, instagram: e.target.value}})} 
-                    />
-                  </div>
-                  <div>
-                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Twitter</label>
-                    <input 
-                      className="w-full bg-slate-50 p-3 rounded-xl border border-slate-200 text-sm font-bold focus:ring-2" 
-                      value={data.socials?.twitter || ''} 
-                      onChange={(e) => setData({...data, socials: {...data.socials, twitter: e.target.value}})} 
-                    />
+          <div className="space-y-12">
+            <div className="grid grid-cols-2 gap-12">
+              <div className="space-y-8">
+                <div>
+                  <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-3">School Identity</label>
+                  <input 
+                    className="w-full bg-slate-50 p-4 rounded-xl border border-slate-200 font-black text-lg focus:ring-2" 
+                    style={{'--tw-ring-color': 'var(--accent-color)'} as any} 
+                    value={data.schoolName} 
+                    onChange={(e) => setData({...data, schoolName: e.target.value})} 
+                  />
+                </div>
+
+                {/* RESTORED SOCIAL IDENTITY FIELDS */}
+                <div className="space-y-6">
+                  <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-3">Contact & Social Presence</label>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Phone</label>
+                      <input 
+                        className="w-full bg-slate-50 p-3 rounded-xl border border-slate-200 text-sm font-bold focus:ring-2" 
+                        value={data.socials?.phone || ''} 
+                        onChange={(e) => setData({...data, socials: {...data.socials, phone: e.target.value}})} 
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Website</label>
+                      <input 
+                        className="w-full bg-slate-50 p-3 rounded-xl border border-slate-200 text-sm font-bold focus:ring-2" 
+                        value={data.socials?.website || ''} 
+                        onChange={(e) => setData({...data, socials: {...data.socials, website: e.target.value}})} 
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Instagram</label>
+                      <input 
+                        className="w-full bg-slate-50 p-3 rounded-xl border border-slate-200 text-sm font-bold focus:ring-2" 
+                        value={data.socials?.instagram || ''} 
+                        onChange={(e) => setData({...data, socials: {...data.socials, instagram: e.target.value}})} 
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Twitter</label>
+                      <input 
+                        className="w-full bg-slate-50 p-3 rounded-xl border border-slate-200 text-sm font-bold focus:ring-2" 
+                        value={data.socials?.twitter || ''} 
+                        onChange={(e) => setData({...data, socials: {...data.socials, twitter: e.target.value}})} 
+                      />
+                    </div>
                   </div>
                 </div>
-              </div>
 
-              <div className="p-8 rounded-[2rem] bg-gradient-to-br from-indigo-500 to-purple-600 text-white shadow-xl">
-                <h3 className="font-black text-xl mb-2 flex items-center gap-2"><Wand2 className="w-5 h-5" /> AI Theme Engine</h3>
-                <p className="text-sm opacity-80 mb-6">Describe your brand colors and mood...</p>
-                <div className="flex gap-3">
-                  <input id="themePrompt" className="flex-1 bg-white/20 border-white/20 placeholder-white/50 text-white rounded-xl text-sm px-4 py-3" placeholder="e.g. Electric Blue and Slate..." />
-                  <button onClick={async () => { 
-                    const promptEl = document.getElementById('themePrompt') as HTMLInputElement;
-                    if(!promptEl?.value) return; 
-                    const theme = await generateTheme(promptEl.value); 
-                    setData({...data, theme: { ...(data.theme || {}), ...theme }}); 
-                  }} className="px-6 py-3 bg-white text-indigo-600 rounded-xl font-black text-xs uppercase shadow-lg hover:scale-105 active:scale-95 transition-all">Generate</button>
+                <div className="p-8 rounded-[2rem] bg-gradient-to-br from-indigo-500 to-purple-600 text-white shadow-xl">
+                  <h3 className="font-black text-xl mb-2 flex items-center gap-2"><Wand2 className="w-5 h-5" /> AI Theme Engine</h3>
+                  <p className="text-sm opacity-80 mb-6">Describe your brand colors and mood...</p>
+                  <div className="flex gap-3">
+                    <input id="themePrompt" className="flex-1 bg-white/20 border-white/20 placeholder-white/50 text-white rounded-xl text-sm px-4 py-3" placeholder="e.g. Electric Blue and Slate..." />
+                    <button onClick={async () => { 
+                      const promptEl = document.getElementById('themePrompt') as HTMLInputElement;
+                      if(!promptEl?.value) return; 
+                      const theme = await generateTheme(promptEl.value, data.theme); 
+                      setData({...data, theme: { ...(data.theme || {}), ...theme }}); 
+                    }} className="px-6 py-3 bg-white text-indigo-600 rounded-xl font-black text-xs uppercase shadow-lg hover:scale-105 active:scale-95 transition-all">Generate</button>
+                  </div>
                 </div>
               </div>
-            </div>
-            <div className="space-y-8">
-              <div className="grid grid-cols-2 gap-6">
-                <div><label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Gradient Start</label><input type="color" className="h-14 w-full rounded-2xl cursor-pointer border-4 border-white shadow-lg" value={data.theme?.gradientStart || '#000000'} onChange={(e) => setData({...data, theme: {...data.theme, gradientStart: e.target.value}})} /></div>
-                <div><label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Gradient End</label><input type="color" className="h-14 w-full rounded-2xl cursor-pointer border-4 border-white shadow-lg" value={data.theme?.gradientEnd || '#1e1b4b'} onChange={(e) => setData({...data, theme: {...data.theme, gradientEnd: e.target.value}})} /></div>
-              </div>
-              <div>
-                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Primary Accent</label>
-                <div className="flex gap-4">
-                  <input type="color" className="h-14 w-14 rounded-2xl cursor-pointer border-4 border-white shadow-lg shrink-0" value={data.theme?.accentColor || '#3b82f6'} onChange={(e) => setData({...data, theme: {...data.theme, accentColor: e.target.value}})} />
-                  <input className="flex-1 bg-slate-50 border border-slate-200 rounded-2xl px-6 font-mono font-black text-slate-500 uppercase" value={data.theme?.accentColor} readOnly />
+              <div className="space-y-8">
+                <div>
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Theme Name</label>
+                  <input className="w-full bg-slate-50 p-3 rounded-xl border border-slate-200 text-sm font-bold" value={data.theme?.name || ''} onChange={(e) => updateTheme({ name: e.target.value })} />
                 </div>
-              </div>
-              <div className="p-6 bg-slate-100 rounded-[2rem] border border-slate-200">
-                <h4 className="text-[10px] font-black uppercase text-slate-400 mb-4 tracking-widest">Logo Branding</h4>
-                <div className="flex items-center gap-6">
-                  <div className="w-20 h-20 rounded-2xl bg-white border border-slate-300 flex items-center justify-center p-2 relative overflow-hidden shadow-inner">
-                    {data.theme?.logoUrl ? <img src={data.theme.logoUrl} className="w-full h-full object-contain" /> : <ImageIcon className="text-slate-200 w-8 h-8" />}
+                <div className="grid grid-cols-2 gap-6">
+                  <div><label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Gradient Start</label><input type="color" className="h-14 w-full rounded-2xl cursor-pointer border-4 border-white shadow-lg" value={data.theme?.gradientStart || '#000000'} onChange={(e) => setData({...data, theme: {...data.theme, gradientStart: e.target.value}})} /></div>
+                  <div><label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Gradient End</label><input type="color" className="h-14 w-full rounded-2xl cursor-pointer border-4 border-white shadow-lg" value={data.theme?.gradientEnd || '#1e1b4b'} onChange={(e) => setData({...data, theme: {...data.theme, gradientEnd: e.target.value}})} /></div>
+                </div>
+                <div>
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Primary Accent</label>
+                  <div className="flex gap-4">
+                    <input type="color" className="h-14 w-14 rounded-2xl cursor-pointer border-4 border-white shadow-lg shrink-0" value={data.theme?.accentColor || '#3b82f6'} onChange={(e) => setData({...data, theme: {...data.theme, accentColor: e.target.value}})} />
+                    <input className="flex-1 bg-slate-50 border border-slate-200 rounded-2xl px-6 font-mono font-black text-slate-500 uppercase" value={data.theme?.accentColor} readOnly />
+                  </div>
+                </div>
+                <div>
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Text Color</label>
+                  <div className="flex gap-4">
+                    <input type="color" className="h-14 w-14 rounded-2xl cursor-pointer border-4 border-white shadow-lg shrink-0" value={data.theme?.textColor || '#ffffff'} onChange={(e) => updateTheme({ textColor: e.target.value })} />
+                    <input className="flex-1 bg-slate-50 border border-slate-200 rounded-2xl px-6 font-mono font-black text-slate-500 uppercase" value={data.theme?.textColor} readOnly />
                   </div>
-                  <label className="px-6 py-3 bg-white border border-slate-200 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-sm hover:bg-slate-50 cursor-pointer transition-colors">
-                    Upload Logo
-                    <input type="file" className="hidden" onChange={(e) => e.target.files?.[0] && handleImageUpload(e.target.files[0], (b64) => setData({...data, theme: {...data.theme, logoUrl: b64}}))} />
+                </div>
+                <div className="p-6 bg-slate-100 rounded-[2rem] border border-slate-200">
+                  <h4 className="text-[10px] font-black uppercase text-slate-400 mb-4 tracking-widest">Logo Branding</h4>
+                  <div className="flex items-center gap-6">
+                    <div className="w-20 h-20 rounded-2xl bg-white border border-slate-300 flex items-center justify-center p-2 relative overflow-hidden shadow-inner">
+                      {data.theme?.logoUrl ? <img src={data.theme.logoUrl} className="w-full h-full object-contain" /> : <ImageIcon className="text-slate-200 w-8 h-8" />}
+                    </div>
+                    <button onClick={() => openMediaPicker('image', (url) => setData({...data, theme: {...data.theme, logoUrl: url}}))} className="px-6 py-3 bg-white border border-slate-200 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-sm hover:bg-slate-50 cursor-pointer transition-colors">
+                      Choose Logo
+                    </button>
+                  </div>
+                </div>
+                <div className="p-6 bg-slate-100 rounded-[2rem] border border-slate-200 space-y-5">
+                  <h4 className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Typography & Scale</h4>
+                  <label className="block">
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Font</span>
+                    <select className="w-full bg-white p-3 rounded-xl border border-slate-200 text-sm font-bold" style={{ fontFamily: themeTokens.fontFamily }} value={themeTokens.fontFamily} onChange={(e) => updateTheme({ fontFamily: e.target.value })}>
+                      {THEME_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                    </select>
                   </label>
+                  {tokenSliders.map(slider => (
+                    <label key={slider.key} className="block">
+                      <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex justify-between mb-2">{slider.label}<span className="text-slate-600">{slider.format(themeTokens[slider.key])}</span></span>
+                      <input type="range" className="w-full" min={slider.min} max={slider.max} step={slider.step} value={themeTokens[slider.key]} onChange={(e) => updateTheme({ [slider.key]: Number(e.target.value) })} />
+                    </label>
+                  ))}
                 </div>
               </div>
             </div>
+            <ThemeContrastPanel theme={data.theme} schoolName={data.schoolName} onApply={updateTheme} />
+            <ThemeLibraryEditor
+              theme={data.theme}
+              library={data.themeLibrary || []}
+              schedule={data.themeSchedule || []}
+              activeEntryId={getActiveThemeEntry(data, new Date())?.id}
+              onApply={(theme) => setData({...data, theme})}
+              onLibraryChange={(themeLibrary) => setData({...data, themeLibrary})}
+              onScheduleChange={(themeSchedule) => setData({...data, themeSchedule})}
+            />
           </div>
         );
+      }
       case 'ticker':
         return (
-          <div className="space-y-10">
-            <div className="p-8 bg-slate-50 rounded-[2.5rem] border border-slate-100">
-              <h3 className="text-sm font-black text-slate-800 uppercase tracking-widest mb-6">Ticker Content</h3>
-              <div className="flex gap-3 mb-8">
-                <input className="flex-1 bg-white p-4 rounded-2xl border border-slate-200 font-bold" placeholder="Add scrolling message..." value={tickerInput} onChange={(e) => setTickerInput(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && (setData({...data, tickerItems: [...(data.tickerItems || []), tickerInput]}), setTickerInput(''))} />
-                <button onClick={() => { if(tickerInput) { setData({...data, tickerItems: [...(data.tickerItems || []), tickerInput]}); setTickerInput(''); }}} style={{backgroundColor: 'var(--accent-color)'}} className="px-8 bg-slate-900 text-white rounded-2xl font-black text-xs uppercase shadow-lg shadow-black/10"><Plus className="w-5 h-5" /></button>
-              </div>
-              <div className="space-y-3">
-                {(data.tickerItems || []).map((item, idx) => (
-                  <div key={idx} className="flex items-center gap-4 p-4 bg-white rounded-2xl border border-slate-200 group">
-                    <div className="flex-1 text-sm font-bold text-slate-700">{item}</div>
-                    <button onClick={() => { const n = [...(data.tickerItems || [])]; n.splice(idx, 1); setData({...data, tickerItems: n}); }} className="p-2 text-slate-200 hover:text-red-500 transition-colors"><Trash2 className="w-4 h-4" /></button>
+          <TickerEditor
+            items={normalizeTickerItems(data.tickerItems)}
+            speed={data.tickerSpeed || DEFAULT_TICKER_SPEED}
+            customWidgets={data.customWidgets || []}
+            readOnly={!canEditTab(role, 'ticker')}
+            onChange={(tickerItems) => setData({...data, tickerItems})}
+            onSpeedChange={(tickerSpeed) => setData({...data, tickerSpeed})}
+          />
+        );
+      case 'weather': {
+        const weatherConfig = data.weatherConfig;
+        const updateWeather = (changes: Partial<WeatherConfig>) => setData({ ...data, weatherConfig: { ...weatherConfig, ...changes } });
+        const alertConfig = data.weatherAlerts || DEFAULT_WEATHER_ALERT_CONFIG;
+        const updateAlerts = (changes: Partial<WeatherAlertConfig>) => setData({ ...data, weatherAlerts: { ...alertConfig, ...changes } });
+        const optionClass = (selected: boolean) => `px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-colors ${selected ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`;
+        return (
+          <div className="space-y-8">
+            <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100">
+              <h4 className="font-black text-slate-800 uppercase text-xs tracking-widest">Location</h4>
+              <p className="text-xs text-slate-400 font-bold mb-4">Currently showing {weatherConfig.city} ({weatherConfig.lat.toFixed(3)}, {weatherConfig.lon.toFixed(3)})</p>
+              <form className="flex gap-2" onSubmit={async (e) => {
+                e.preventDefault();
+                setIsSearchingCities(true);
+                setCityResults(await searchCities(cityQuery));
+                setIsSearchingCities(false);
+              }}>
+                <input className="flex-1 bg-white px-4 py-3 rounded-xl border border-slate-200 text-sm font-bold" placeholder="Search for a city..." value={cityQuery} onChange={(e) => setCityQuery(e.target.value)} />
+                <button type="submit" disabled={isSearchingCities || cityQuery.trim().length < 2} className="px-6 py-3 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2 disabled:opacity-50">
+                  {isSearchingCities ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Globe className="w-3.5 h-3.5" />} Search
+                </button>
+              </form>
+              {cityResults.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  {cityResults.map((result, i) => (
+                    <button key={i} onClick={() => { updateWeather({ city: result.name, lat: result.lat, lon: result.lon }); setCityResults([]); setCityQuery(''); }} className="w-full text-left px-4 py-3 bg-white rounded-xl border border-slate-200 hover:border-slate-400 transition-colors flex items-center justify-between">
+                      <span className="text-sm font-bold text-slate-700">{result.name}<span className="text-slate-400 font-medium"> · {result.region}</span></span>
+                      <span className="text-[10px] font-mono text-slate-400">{result.lat.toFixed(2)}, {result.lon.toFixed(2)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="mt-4">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Display Name</label>
+                <input className="w-full bg-white px-4 py-3 rounded-xl border border-slate-200 text-sm font-bold" value={weatherConfig.city} onChange={(e) => updateWeather({ city: e.target.value })} />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-6">
+              <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-3">Temperature</label>
+                <div className="flex gap-2">
+                  {(Object.keys(TEMPERATURE_UNIT_LABELS) as TemperatureUnit[]).map(unit => (
+                    <button key={unit} onClick={() => updateWeather({ temperatureUnit: unit })} className={optionClass((weatherConfig.temperatureUnit || 'fahrenheit') === unit)}>{TEMPERATURE_UNIT_LABELS[unit]}</button>
+                  ))}
+                </div>
+              </div>
+              <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-3">Wind Speed</label>
+                <div className="flex gap-2">
+                  {(Object.keys(WIND_UNIT_LABELS) as WindUnit[]).map(unit => (
+                    <button key={unit} onClick={() => updateWeather({ windUnit: unit })} className={optionClass((weatherConfig.windUnit || 'mph') === unit)}>{WIND_UNIT_LABELS[unit]}</button>
+                  ))}
+                </div>
+              </div>
+              <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-3">Forecast</label>
+                <div className="flex gap-2">
+                  <button onClick={() => updateWeather({ forecastMode: 'daily' })} className={optionClass((weatherConfig.forecastMode || 'daily') === 'daily')}>Next 3 Days</button>
+                  <button onClick={() => updateWeather({ forecastMode: 'hourly' })} className={optionClass(weatherConfig.forecastMode === 'hourly')}>Next 3 Hours</button>
+                </div>
+              </div>
+              <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-3">Locale</label>
+                <input className="w-full bg-white px-4 py-2 rounded-xl border border-slate-200 text-sm font-bold" placeholder="en-US" value={weatherConfig.locale || ''} onChange={(e) => updateWeather({ locale: e.target.value.trim() || undefined })} />
+                <p className="text-[10px] text-slate-400 font-bold mt-2">Controls day and hour labels, e.g. es-US or fr-CA</p>
+              </div>
+            </div>
+            <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 space-y-6">
+              <div className="flex items-center justify-between">
+                <div><h4 className="font-black text-slate-800 uppercase text-xs tracking-widest flex items-center gap-2"><ShieldAlert className="w-3.5 h-3.5 text-red-500" /> Severe Weather Alerts</h4><p className="text-xs text-slate-400 font-bold">Active National Weather Service warnings for this location (US only)</p></div>
+                <button onClick={() => updateAlerts({ enabled: !alertConfig.enabled })} className={`w-12 h-7 rounded-full p-1 transition-colors ${alertConfig.enabled ? 'bg-red-500' : 'bg-slate-300'}`}><div className={`w-5 h-5 bg-white rounded-full transition-transform ${alertConfig.enabled ? 'translate-x-5' : 'translate-x-0'}`} /></button>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  Show banner from
+                  <select className="mt-2 w-full bg-white p-3 rounded-xl border border-slate-200 text-xs font-bold text-slate-700 normal-case tracking-normal" value={alertConfig.bannerSeverity} onChange={(e) => updateAlerts({ bannerSeverity: e.target.value as AlertSeverity })}>
+                    {ALERT_SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+                  </select>
+                </label>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  Emergency takeover from
+                  <select className="mt-2 w-full bg-white p-3 rounded-xl border border-slate-200 text-xs font-bold text-slate-700 normal-case tracking-normal" value={alertConfig.takeoverSeverity} onChange={(e) => updateAlerts({ takeoverSeverity: e.target.value as AlertSeverity | 'never' })}>
+                    {ALERT_SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+                    <option value="never">Never</option>
+                  </select>
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="p-4 bg-white rounded-2xl flex items-center justify-between border border-slate-200">
+                  <div><h5 className="font-black text-slate-800 uppercase text-[10px] tracking-widest">Require Confirmation</h5><p className="text-[10px] text-slate-400 font-bold">An admin raises the takeover from this tab</p></div>
+                  <button onClick={() => updateAlerts({ requireConfirmation: !alertConfig.requireConfirmation })} className={`w-12 h-7 rounded-full p-1 transition-colors shrink-0 ${alertConfig.requireConfirmation ? 'bg-green-500' : 'bg-slate-300'}`}><div className={`w-5 h-5 bg-white rounded-full transition-transform ${alertConfig.requireConfirmation ? 'translate-x-5' : 'translate-x-0'}`} /></button>
+                </div>
+                <div className="p-4 bg-white rounded-2xl flex items-center justify-between border border-slate-200">
+                  <div><h5 className="font-black text-slate-800 uppercase text-[10px] tracking-widest">Siren on Auto Takeover</h5><p className="text-[10px] text-slate-400 font-bold">Uses the emergency audio settings</p></div>
+                  <button onClick={() => updateAlerts({ includeSiren: !alertConfig.includeSiren })} className={`w-12 h-7 rounded-full p-1 transition-colors shrink-0 ${alertConfig.includeSiren ? 'bg-red-500' : 'bg-slate-300'}`}><div className={`w-5 h-5 bg-white rounded-full transition-transform ${alertConfig.includeSiren ? 'translate-x-5' : 'translate-x-0'}`} /></button>
+                </div>
+              </div>
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Alert Messages</label>
+                <p className="text-[10px] text-slate-400 font-bold mb-3">Replace the NWS headline for an alert type, e.g. "Tornado Warning"</p>
+                <div className="space-y-2">
+                  {alertConfig.messages.map((mapping, i) => (
+                    <div key={i} className="flex gap-2 items-center">
+                      <input className="w-56 bg-white px-4 py-2 rounded-xl border border-slate-200 text-xs font-bold" placeholder="Alert type" value={mapping.event} onChange={(e) => { const n = [...alertConfig.messages]; n[i] = { ...mapping, event: e.target.value }; updateAlerts({ messages: n }); }} />
+                      <input className="flex-1 bg-white px-4 py-2 rounded-xl border border-slate-200 text-xs font-bold" placeholder="Message shown on screens" value={mapping.message} onChange={(e) => { const n = [...alertConfig.messages]; n[i] = { ...mapping, message: e.target.value }; updateAlerts({ messages: n }); }} />
+                      <button onClick={() => updateAlerts({ messages: alertConfig.messages.filter((_, idx) => idx !== i) })} className="p-2 text-slate-300 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+                    </div>
+                  ))}
+                  <button onClick={() => updateAlerts({ messages: [...alertConfig.messages, { event: '', message: '' }] })} className="w-full py-3 border-2 border-dashed border-slate-200 rounded-xl text-slate-400 font-black text-[10px] uppercase tracking-widest hover:bg-white transition-colors">+ Map Alert Type</button>
+                </div>
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Active Alerts</label>
+                  <button onClick={refreshWeatherAlerts} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-700 flex items-center gap-1"><RefreshCw className="w-3 h-3" /> Refresh</button>
+                </div>
+                {activeWeatherAlerts === null ? (
+                  <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">Checking…</p>
+                ) : activeWeatherAlerts.length === 0 ? (
+                  <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">No active alerts for this location</p>
+                ) : (
+                  <div className="space-y-2">
+                    {activeWeatherAlerts.map(weatherAlert => {
+                      const escalates = meetsSeverity(weatherAlert, alertConfig.takeoverSeverity);
+                      const dismissed = alertConfig.dismissedAlertIds.includes(weatherAlert.id);
+                      return (
+                        <div key={weatherAlert.id} className="p-4 bg-white rounded-2xl border border-slate-200 flex items-center gap-4">
+                          <span className={`px-2 py-1 rounded text-[9px] font-black uppercase shrink-0 ${meetsSeverity(weatherAlert, 'Severe') ? 'bg-red-100 text-red-600' : 'bg-amber-100 text-amber-600'}`}>{weatherAlert.severity}</span>
+                          <div className="flex-1 min-w-0">
+                            <h5 className="font-black text-slate-800 text-sm">{weatherAlert.event}</h5>
+                            <p className="text-xs text-slate-500 font-medium truncate">{getAlertMessage(weatherAlert, alertConfig)}</p>
+                            {weatherAlert.expires && <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Expires {new Date(weatherAlert.expires).toLocaleString()}</p>}
+                          </div>
+                          {escalates && !alertConfig.requireConfirmation && (
+                            <button onClick={() => updateAlerts({ dismissedAlertIds: dismissed ? alertConfig.dismissedAlertIds.filter(id => id !== weatherAlert.id) : [...alertConfig.dismissedAlertIds, weatherAlert.id] })} className="px-3 py-2 bg-white border border-slate-200 rounded-xl font-black text-[10px] uppercase tracking-widest text-slate-500 hover:bg-slate-50 shrink-0">
+                              {dismissed ? 'Allow Takeover' : 'Suppress Takeover'}
+                            </button>
+                          )}
+                          {canEditTab(role, 'emergency') && (
+                            <button onClick={() => handleEmergencyBroadcast(true, getAlertMessage(weatherAlert, alertConfig))} disabled={isSaving || data.emergency.active} className="px-3 py-2 bg-red-600 text-white rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-red-700 disabled:opacity-50 shrink-0">
+                              Raise Emergency
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })}
                   </div>
-                ))}
+                )}
               </div>
             </div>
+            <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Weather widgets use these settings unless a widget overrides them.</p>
           </div>
         );
+      }
       case 'livecam':
         return (
           <div className="space-y-8">
             <div className="p-6 bg-slate-50 rounded-3xl flex items-center justify-between border border-slate-100">
               <div><h4 className="font-black text-slate-800 uppercase text-xs tracking-widest">Active Surveillance Streams</h4><p className="text-xs text-slate-400 font-bold">Display live feeds on rotation</p></div>
-              <button onClick={() => setData({...data, enableLiveCam: !data.enableLiveCam})} className={`w-12 h-7 rounded-full p-1 transition-colors ${data.enableLiveCam ? 'bg-green-500' : 'bg-slate-300'}`}><div className={`w-5 h-5 bg-white rounded-full transition-transform ${data.enableLiveCam ? 'translate-x-5' : 'translate-x-0'}`} /></button>
+              <div className="flex items-center gap-6">
+                <label className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-400 tracking-widest">
+                  Snapshot refresh (sec)
+                  <input type="number" min={2} className="w-20 bg-white px-3 py-2 rounded-xl border border-slate-200 text-sm font-bold text-slate-700" value={data.liveCamRefreshSeconds || DEFAULT_SNAPSHOT_REFRESH_SECONDS} onChange={(e) => setData({...data, liveCamRefreshSeconds: Math.max(2, Number(e.target.value) || DEFAULT_SNAPSHOT_REFRESH_SECONDS)})} />
+                </label>
+                <button onClick={() => setData({...data, enableLiveCam: !data.enableLiveCam})} className={`w-12 h-7 rounded-full p-1 transition-colors ${data.enableLiveCam ? 'bg-green-500' : 'bg-slate-300'}`}><div className={`w-5 h-5 bg-white rounded-full transition-transform ${data.enableLiveCam ? 'translate-x-5' : 'translate-x-0'}`} /></button>
+              </div>
             </div>
             <div className="grid grid-cols-1 gap-4">
               {(data.liveCamUrls || []).map((url, i) => (
-                <div key={i} className="flex gap-4">
+                <div key={i} className="flex gap-4 items-center">
                   <input className="flex-1 bg-slate-50 p-4 rounded-2xl border border-slate-200 font-mono text-xs font-bold text-slate-400" value={url} onChange={(e) => { const n = [...(data.liveCamUrls || [])]; n[i] = e.target.value; setData({...data, liveCamUrls: n}); }} />
+                  {url.trim() && <span className="px-2 py-1 rounded bg-slate-100 text-[9px] font-black uppercase tracking-widest text-slate-500 shrink-0">{FEED_TYPE_LABELS[getFeedType(url)]}</span>}
                   <button onClick={() => { const n = [...(data.liveCamUrls || [])]; n.splice(i, 1); setData({...data, liveCamUrls: n}); }} className="p-4 text-slate-200 hover:text-red-500"><Trash2 className="w-5 h-5" /></button>
                 </div>
               ))}
               <button onClick={() => setData({...data, liveCamUrls: [...(data.liveCamUrls || []), '']})} className="w-full py-4 border-2 border-dashed border-slate-200 rounded-2xl text-slate-400 font-black text-xs uppercase tracking-widest hover:bg-slate-50 transition-colors">+ Link New Camera Feed</button>
             </div>
+            <div>
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-3">Preview</label>
+              <div className="h-80 rounded-[2rem] overflow-hidden bg-slate-900 text-white">
+                <LiveCamView urls={data.liveCamUrls || []} refreshSeconds={data.liveCamRefreshSeconds} />
+              </div>
+            </div>
           </div>
         );
       case 'widgets':
@@ -781,44 +1517,131 @@ const handleSaveConfig = async (updatedData: AppData) => {
       case 'security':
         return (
           <div className="flex flex-col h-full">
-            <div className="flex justify-between items-center mb-10">
-              <div><h3 className="text-xl font-black">Authentication Audit</h3><p className="text-xs text-slate-400 font-bold uppercase tracking-widest">Recent Administrative Sessions</p></div>
-              <button onClick={() => { if(confirm('Clear history?')) { clearLoginLogs(); setLoginLogs([]); }}} className="px-4 py-2 bg-red-50 text-red-600 rounded-xl text-[10px] font-black uppercase">Wipe Logs</button>
+            <div className="p-6 bg-slate-50 rounded-[2rem] border border-slate-100 mb-10">
+              <h3 className="text-xl font-black">Allowed Email Domains</h3>
+              <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mb-4">Only accounts on these domains can sign in · Leave empty to allow any domain</p>
+              <div className="flex flex-wrap gap-2 mb-4">
+                {(data.adminEmailDomains || []).map(domain => (
+                  <span key={domain} className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-700 flex items-center gap-2">
+                    @{domain}
+                    <button onClick={() => setData({ ...data, adminEmailDomains: data.adminEmailDomains.filter(d => d !== domain) })} className="text-slate-300 hover:text-red-500"><XCircle className="w-3.5 h-3.5" /></button>
+                  </span>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <input className="flex-1 bg-white px-4 py-2 rounded-xl border border-slate-200 text-sm font-bold" placeholder="e.g. schools.nyc.gov" value={domainInput} onChange={(e) => setDomainInput(e.target.value)} />
+                <button onClick={() => {
+                  const domain = domainInput.trim().toLowerCase().replace(/^@/, '');
+                  if (!domain || (data.adminEmailDomains || []).includes(domain)) return;
+                  setData({ ...data, adminEmailDomains: [...(data.adminEmailDomains || []), domain] });
+                  setDomainInput('');
+                }} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2"><Plus className="w-3.5 h-3.5" /> Add</button>
+              </div>
+            </div>
+            <AiSettingsPanel />
+            <div className="flex justify-between items-center mb-6">
+              <div><h3 className="text-xl font-black">Admin Audit Trail</h3><p className="text-xs text-slate-400 font-bold uppercase tracking-widest">{auditEntries.length} Entries · {editTarget.tenantId}</p></div>
+              <button onClick={handleExportAudit} disabled={auditEntries.length === 0} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2 disabled:opacity-40"><Download className="w-3.5 h-3.5" /> Export CSV</button>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 mb-8">
+              <input className="flex-1 min-w-[200px] bg-slate-50 px-4 py-2 rounded-xl border border-slate-200 text-xs font-bold" placeholder="Filter by user email" value={auditFilter.email || ''} onChange={(e) => setAuditFilter({ ...auditFilter, email: e.target.value })} />
+              <select className="bg-slate-50 px-4 py-2 rounded-xl border border-slate-200 text-xs font-bold" value={auditFilter.action || ''} onChange={(e) => setAuditFilter({ ...auditFilter, action: (e.target.value || undefined) as AuditAction | undefined })}>
+                <option value="">All actions</option>
+                {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>)}
+              </select>
+              <input type="date" className="bg-slate-50 px-3 py-2 rounded-xl border border-slate-200 text-xs font-bold" value={auditFilter.fromDate || ''} onChange={(e) => setAuditFilter({ ...auditFilter, fromDate: e.target.value || undefined })} />
+              <span className="text-xs text-slate-400">to</span>
+              <input type="date" className="bg-slate-50 px-3 py-2 rounded-xl border border-slate-200 text-xs font-bold" value={auditFilter.toDate || ''} onChange={(e) => setAuditFilter({ ...auditFilter, toDate: e.target.value || undefined })} />
             </div>
             <div className="flex-1 overflow-y-auto no-scrollbar">
               <table className="w-full text-left">
                 <thead className="text-[10px] font-black uppercase text-slate-400 tracking-widest border-b border-slate-100">
-                  <tr><th className="pb-4">Timestamp</th><th className="pb-4">Account</th><th className="pb-4">Status</th><th className="pb-4">Device</th></tr>
+                  <tr><th className="pb-4">Timestamp</th><th className="pb-4">Account</th><th className="pb-4">Action</th><th className="pb-4">Summary</th><th className="pb-4">Group</th></tr>
                 </thead>
                 <tbody className="divide-y divide-slate-50">
-                  {(loginLogs || []).map(log => (
-                    <tr key={log.id} className="text-sm">
-                      <td className="py-4 text-slate-400 font-mono text-xs">{new Date(log.timestamp).toLocaleString()}</td>
-                      <td className="py-4 font-bold text-slate-700">{log.email}</td>
-                      <td className="py-4"><span className={`px-2 py-0.5 rounded text-[9px] font-black uppercase ${log.success ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>{log.success ? 'Success' : 'Failed'}</span></td>
-                      <td className="py-4 text-xs text-slate-400 truncate max-w-[200px]">{log.userAgent}</td>
+                  {auditEntries.map(entry => (
+                    <tr key={entry.id} className="text-sm">
+                      <td className="py-4 text-slate-400 font-mono text-xs">{new Date(entry.createdAt).toLocaleString()}</td>
+                      <td className="py-4 font-bold text-slate-700">{entry.actorEmail}</td>
+                      <td className="py-4"><span className={`px-2 py-0.5 rounded text-[9px] font-black uppercase ${entry.action.startsWith('emergency') || entry.action === 'factory_reset' || entry.details?.success === false ? 'bg-red-100 text-red-600' : 'bg-slate-100 text-slate-600'}`}>{AUDIT_ACTION_LABELS[entry.action] || entry.action}</span></td>
+                      <td className="py-4 text-xs text-slate-500 max-w-[320px]" title={Array.isArray(entry.details?.changes) ? (entry.details?.changes as string[]).join('\n') : undefined}>{entry.summary}</td>
+                      <td className="py-4 text-xs text-slate-400">{entry.groupId || '—'}</td>
                     </tr>
                   ))}
+                  {auditEntries.length === 0 && (
+                    <tr><td colSpan={5} className="py-10 text-center text-xs font-bold text-slate-400 uppercase tracking-widest">No matching entries</td></tr>
+                  )}
                 </tbody>
               </table>
             </div>
           </div>
         );
+      case 'media':
+        return <MediaLibrary tenantId={editTarget.tenantId} readOnly={!canEditTab(role, 'media')} />;
       case 'health':
         return (
           <div className="flex flex-col h-full gap-8">
             <div className="grid grid-cols-2 gap-8">
-              <div className="p-8 bg-green-50 border border-green-100 rounded-[2rem] flex flex-col items-center text-center">
-                <HeartPulse className="w-12 h-12 text-green-500 mb-4" />
-                <h3 className="text-xl font-black text-green-900">System Core Stable</h3>
-                <p className="text-sm text-green-700 mt-2">All signage subsystems report optimal status.</p>
+              <div className={`p-8 border rounded-[2rem] flex flex-col items-center text-center ${onlineDeviceCount === devices.length ? 'bg-green-50 border-green-100' : 'bg-amber-50 border-amber-100'}`}>
+                <HeartPulse className={`w-12 h-12 mb-4 ${onlineDeviceCount === devices.length ? 'text-green-500' : 'text-amber-500'}`} />
+                <h3 className="text-xl font-black text-slate-900">{onlineDeviceCount} of {devices.length} Screens Online</h3>
+                <p className="text-sm text-slate-500 mt-2">{staleDeviceCount + unsyncedDeviceCount > 0
+                  ? [staleDeviceCount > 0 && `${staleDeviceCount} screen(s) showing an outdated config.`, unsyncedDeviceCount > 0 && `${unsyncedDeviceCount} screen(s) never synced from the cloud.`].filter(Boolean).join(' ')
+                  : 'Every online screen is on the latest config.'}</p>
               </div>
               <div className="p-8 bg-red-50 border border-red-100 rounded-[2rem] flex flex-col items-center text-center">
                 <AlertTriangle className="w-12 h-12 text-red-500 mb-4" />
                 <h3 className="text-xl font-black text-red-900">Emergency Protocol</h3>
-                <button onClick={handleFactoryReset} className="mt-4 px-6 py-3 bg-red-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest">Factory Reset</button>
+                <button onClick={handleFactoryReset} disabled={!isSuperAdmin(role)} className="mt-4 disabled:opacity-40 px-6 py-3 bg-red-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest">Factory Reset</button>
               </div>
             </div>
+            <div className="bg-slate-50 rounded-[2.5rem] p-8 border border-slate-100">
+              <div className="flex justify-between items-center mb-6">
+                <div><h3 className="text-xl font-black">Registered Screens</h3><p className="text-xs text-slate-400 font-bold uppercase tracking-widest">Heartbeat every minute</p></div>
+                <button onClick={refreshDevices} className="p-2 text-slate-400 hover:text-slate-700 transition-colors"><RefreshCw className="w-4 h-4" /></button>
+              </div>
+              <table className="w-full text-left">
+                <thead className="text-[10px] font-black uppercase text-slate-400 tracking-widest border-b border-slate-200">
+                  <tr><th className="pb-4">Screen</th><th className="pb-4">Group</th><th className="pb-4">Status</th><th className="pb-4">Last Seen</th><th className="pb-4">Details</th></tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {devices.map(device => {
+                    const online = isDeviceOnline(device);
+                    const syncState = getDeviceSyncState(device, latestConfigHashes[formatTarget(device)]);
+                    return (
+                      <tr key={device.deviceId} className="text-sm align-top">
+                        <td className="py-4">
+                          <p className="font-bold text-slate-700">{device.name}</p>
+                          <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{device.location || device.deviceId}</p>
+                        </td>
+                        <td className="py-4 text-xs font-bold text-slate-500">{formatTarget(device)}</td>
+                        <td className="py-4">
+                          <div className="flex flex-col gap-1 items-start">
+                            <span className={`px-2 py-0.5 rounded text-[9px] font-black uppercase flex items-center gap-1 ${online ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>
+                              {online ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />} {online ? 'Online' : 'Offline'}
+                            </span>
+                            {syncState === 'stale' && <span className="px-2 py-0.5 rounded text-[9px] font-black uppercase bg-amber-100 text-amber-700">Stale Config</span>}
+                            {syncState === 'unsynced' && <span className="px-2 py-0.5 rounded text-[9px] font-black uppercase bg-slate-200 text-slate-600" title="Showing local or cached data; has not loaded its group's config from the cloud since starting">Never Synced</span>}
+                          </div>
+                        </td>
+                        <td className="py-4 text-slate-400 font-mono text-xs">{device.lastSeenAt ? new Date(device.lastSeenAt).toLocaleString() : 'Never'}</td>
+                        <td className="py-4 text-xs text-slate-400">
+                          <p>{device.appVersion} • {device.screen.width}×{device.screen.height} • View {device.viewIndex + 1}</p>
+                          {device.recentErrors.length > 0 && (
+                            <p className="text-red-500 font-bold truncate max-w-[220px]" title={device.recentErrors.map(e => `[${e.source}] ${e.message}`).join('\n')}>
+                              {device.recentErrors.length} recent error(s): {device.recentErrors[0].message}
+                            </p>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {devices.length === 0 && (
+                    <tr><td colSpan={5} className="py-10 text-center text-xs font-bold text-slate-400 uppercase tracking-widest">No screens have registered yet</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
             <div className="flex-1 bg-slate-950 rounded-[2.5rem] p-6 flex flex-col overflow-hidden border border-white/5">
               <div className="flex justify-between items-center mb-4 pb-4 border-b border-white/5">
                 <span className="text-[10px] font-black uppercase tracking-[0.4em] text-slate-500 flex items-center gap-2"><Terminal className="w-3 h-3" /> Event Console Output</span>
@@ -835,6 +1658,114 @@ const handleSaveConfig = async (updatedData: AppData) => {
             </div>
           </div>
         );
+      case 'emergency':
+        return (
+          <div className="space-y-8">
+            <div className={`p-8 rounded-[2rem] border flex items-center justify-between ${data.emergency.active ? 'bg-red-600 border-red-700 text-white' : 'bg-slate-50 border-slate-100'}`}>
+              <div className="flex items-center gap-6">
+                <div className={`w-16 h-16 rounded-2xl flex items-center justify-center ${data.emergency.active ? 'bg-white/20 animate-pulse' : 'bg-red-50 text-red-500'}`}>
+                  <Siren className="w-8 h-8" />
+                </div>
+                <div>
+                  <h3 className="text-xl font-black">{data.emergency.active ? 'Emergency Broadcast Live' : 'No Active Emergency'}</h3>
+                  <p className={`text-xs font-bold uppercase tracking-widest ${data.emergency.active ? 'text-white/70' : 'text-slate-400'}`}>
+                    {data.emergency.active ? `Issued ${new Date(data.emergency.timestamp).toLocaleString()}` : 'All screens running normal rotation'}
+                  </p>
+                </div>
+              </div>
+              {data.emergency.active ? (
+                <button onClick={() => handleEmergencyBroadcast(false)} disabled={isSaving} className="px-8 py-4 bg-white text-red-600 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl hover:brightness-95 transition-all disabled:opacity-50">
+                  Clear Emergency
+                </button>
+              ) : (
+                <button onClick={() => handleEmergencyBroadcast(true)} disabled={isSaving || !data.emergency.message.trim()} className="px-8 py-4 bg-red-600 text-white rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-red-600/20 hover:bg-red-700 transition-all disabled:opacity-50">
+                  Trigger Emergency
+                </button>
+              )}
+            </div>
+            <div>
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Alert Message</label>
+              <textarea className="w-full bg-slate-50 p-6 rounded-2xl border border-slate-200 text-lg font-black text-slate-800 resize-none focus:ring-2 focus:ring-red-500/10 focus:border-red-500 transition-all" rows={3} value={data.emergency.message} onChange={(e) => setData({...data, emergency: {...data.emergency, message: e.target.value}})} />
+            </div>
+            <div className="grid grid-cols-2 gap-6">
+              <div className="p-6 bg-slate-50 rounded-3xl flex items-center justify-between border border-slate-100">
+                <div><h4 className="font-black text-slate-800 uppercase text-xs tracking-widest">Audible Siren</h4><p className="text-xs text-slate-400 font-bold">Loop audio while the alert is active</p></div>
+                <button onClick={() => setData({...data, emergency: {...data.emergency, includeSiren: !data.emergency.includeSiren}})} className={`w-12 h-7 rounded-full p-1 transition-colors ${data.emergency.includeSiren ? 'bg-red-500' : 'bg-slate-300'}`}><div className={`w-5 h-5 bg-white rounded-full transition-transform ${data.emergency.includeSiren ? 'translate-x-5' : 'translate-x-0'}`} /></button>
+              </div>
+              <div className="p-6 bg-slate-50 rounded-3xl flex items-center justify-between border border-slate-100">
+                <div className="min-w-0">
+                  <h4 className="font-black text-slate-800 uppercase text-xs tracking-widest flex items-center gap-2"><Volume2 className="w-3.5 h-3.5" /> Custom Audio</h4>
+                  <p className="text-xs text-slate-400 font-bold truncate">{data.emergency.audioData ? 'Uploaded clip replaces the built-in siren' : 'Using built-in siren tone'}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {data.emergency.audioData && (
+                    <button onClick={() => setData({...data, emergency: {...data.emergency, audioData: undefined}})} className="p-2 text-slate-300 hover:text-red-500 transition-colors"><Trash2 className="w-4 h-4" /></button>
+                  )}
+                  <button onClick={() => openMediaPicker('audio', (url) => setData({...data, emergency: {...data.emergency, audioData: url}}))} className="px-4 py-2 bg-white border border-slate-200 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-sm hover:bg-slate-50 cursor-pointer transition-colors">
+                    Choose
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      case 'history':
+        return (
+          <div className="space-y-8">
+            <div className="p-8 bg-slate-50 rounded-[2.5rem] border border-slate-100">
+              <div className="flex items-center gap-4 mb-6">
+                <h3 className="text-sm font-black text-slate-800 uppercase tracking-widest">Compare</h3>
+                <select className="flex-1 bg-white p-3 rounded-xl border border-slate-200 text-xs font-bold" value={compareIds.from} onChange={(e) => setCompareIds({...compareIds, from: e.target.value})}>
+                  <option value="">Select revision…</option>
+                  {revisions.map(r => <option key={r.id} value={r.id}>#{r.id} · {new Date(r.createdAt).toLocaleString()}</option>)}
+                </select>
+                <ChevronRight className="w-4 h-4 text-slate-400 shrink-0" />
+                <select className="flex-1 bg-white p-3 rounded-xl border border-slate-200 text-xs font-bold" value={compareIds.to} onChange={(e) => setCompareIds({...compareIds, to: e.target.value})}>
+                  <option value="">Select revision…</option>
+                  {revisions.map(r => <option key={r.id} value={r.id}>#{r.id} · {new Date(r.createdAt).toLocaleString()}</option>)}
+                </select>
+              </div>
+              {revisionDiff === null ? (
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{compareIds.from && compareIds.to ? 'Loading revisions…' : 'Pick two revisions to compare'}</p>
+              ) : revisionDiff.length === 0 ? (
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">No differences</p>
+              ) : (
+                <div className="space-y-2">
+                  {revisionDiff.map((entry, i) => (
+                    <div key={i} className="flex items-center gap-4 p-3 bg-white rounded-xl border border-slate-200 text-sm">
+                      <span className={`w-20 text-center px-2 py-0.5 rounded text-[9px] font-black uppercase ${entry.kind === 'added' ? 'bg-green-100 text-green-600' : entry.kind === 'removed' ? 'bg-red-100 text-red-600' : 'bg-blue-100 text-blue-600'}`}>{entry.kind}</span>
+                      <span className="w-32 text-[10px] font-black uppercase text-slate-400 tracking-widest">{entry.section}</span>
+                      <span className="flex-1 font-bold text-slate-700 truncate">{entry.label}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <table className="w-full text-left">
+              <thead className="text-[10px] font-black uppercase text-slate-400 tracking-widest border-b border-slate-100">
+                <tr><th className="pb-4">Revision</th><th className="pb-4">Saved</th><th className="pb-4">Author</th><th className="pb-4">Note</th><th className="pb-4"></th></tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {revisions.map((revision, i) => (
+                  <tr key={revision.id} className="text-sm">
+                    <td className="py-4 font-mono text-xs text-slate-400">#{revision.id}{i === 0 && <span className="ml-2 px-2 py-0.5 rounded bg-green-100 text-green-600 text-[9px] font-black uppercase">Current</span>}</td>
+                    <td className="py-4 text-slate-400 font-mono text-xs">{new Date(revision.createdAt).toLocaleString()}</td>
+                    <td className="py-4 font-bold text-slate-700">{revision.authorEmail}</td>
+                    <td className="py-4 text-xs text-slate-500 truncate max-w-[240px]">{revision.note || '—'}</td>
+                    <td className="py-4 text-right">
+                      {i > 0 && (
+                        <button onClick={() => handleRestoreRevision(revision)} disabled={isSaving || !canEditTab(role, 'history')} className="px-3 py-1.5 bg-slate-900 text-white rounded-lg text-[9px] font-black uppercase tracking-widest inline-flex items-center gap-1.5 hover:bg-slate-800 disabled:opacity-50"><RotateCcw className="w-3 h-3" /> Restore</button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {revisions.length === 0 && (
+                  <tr><td colSpan={5} className="py-10 text-center text-xs font-bold text-slate-400 uppercase tracking-widest">No saved revisions for {formatTarget(editTarget)}</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        );
       case 'config':
   return <AdminConfigEditor appData={data} onSave={handleSaveConfig} />;
       default:
@@ -859,10 +1790,12 @@ const handleSaveConfig = async (updatedData: AppData) => {
               {[
                 { id: 'announcements', icon: Megaphone, label: 'Announcements' },
                 { id: 'events', icon: Calendar, label: 'Events' },
+                { id: 'bells', icon: Bell, label: 'Bell Schedule' },
                 { id: 'pages', icon: FileText, label: 'Secondary Pages' },
                 { id: 'import', icon: Sparkles, label: 'AI Import' },
-              ].map((item) => (
-                <button key={item.id} onClick={() => setActiveTab(item.id as any)} 
+                { id: 'media', icon: ImageIcon, label: 'Media Library' },
+              ].filter(item => canViewTab(role, item.id as AdminTab)).map((item) => (
+                <button key={item.id} onClick={() => setActiveTab(item.id as AdminTab)} 
                   style={activeTab === item.id ? { backgroundColor: 'var(--accent-color)' } : {}}
                   className={`w-full flex items-center gap-4 px-4 py-3 rounded-2xl transition-all text-sm font-bold ${activeTab === item.id ? 'text-white shadow-lg shadow-black/20' : 'hover:bg-white/5 text-slate-500'}`}
                 >
@@ -877,10 +1810,11 @@ const handleSaveConfig = async (updatedData: AppData) => {
               {[
                 { id: 'appearance', icon: Palette, label: 'Visual Theme' },
                 { id: 'ticker', icon: LayoutGrid, label: 'Ticker Bar' },
+                { id: 'weather', icon: CloudSun, label: 'Weather' },
                 { id: 'livecam', icon: Camera, label: 'Live Cameras' },
                 { id: 'widgets', icon: Database, label: 'External Data' },
-              ].map((item) => (
-                <button key={item.id} onClick={() => setActiveTab(item.id as any)} 
+              ].filter(item => canViewTab(role, item.id as AdminTab)).map((item) => (
+                <button key={item.id} onClick={() => setActiveTab(item.id as AdminTab)} 
                   style={activeTab === item.id ? { backgroundColor: 'var(--accent-color)' } : {}}
                   className={`w-full flex items-center gap-4 px-4 py-3 rounded-2xl transition-all text-sm font-bold ${activeTab === item.id ? 'text-white shadow-lg shadow-black/20' : 'hover:bg-white/5 text-slate-500'}`}
                 >
@@ -893,11 +1827,13 @@ const handleSaveConfig = async (updatedData: AppData) => {
             <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest px-4 mb-4">System</h3>
             <div className="space-y-1">
               {[
+                { id: 'emergency', icon: Siren, label: 'Emergency Alert' },
                 { id: 'security', icon: Shield, label: 'Audit Logs' },
                 { id: 'health', icon: HeartPulse, label: 'System Health' },
+                { id: 'history', icon: History, label: 'Version History' },
                 { id: 'config', icon: Settings2, label: 'Raw Config' },
-              ].map((item) => (
-                <button key={item.id} onClick={() => setActiveTab(item.id as any)} 
+              ].filter(item => canViewTab(role, item.id as AdminTab)).map((item) => (
+                <button key={item.id} onClick={() => setActiveTab(item.id as AdminTab)} 
                   style={activeTab === item.id ? { backgroundColor: 'var(--accent-color)' } : {}}
                   className={`w-full flex items-center gap-4 px-4 py-3 rounded-2xl transition-all text-sm font-bold ${activeTab === item.id ? 'text-white shadow-lg shadow-black/20' : 'hover:bg-white/5 text-slate-500'}`}
                 >
@@ -921,6 +1857,17 @@ const handleSaveConfig = async (updatedData: AppData) => {
                     <div className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></div>
                     <span className="text-[9px] font-black uppercase text-slate-500 tracking-widest">OS Active {APP_VERSION}</span>
                 </div>
+                <div className="px-3 py-1 rounded-full bg-white border border-slate-200 flex items-center gap-2">
+                    <Building2 className="w-3.5 h-3.5 text-slate-400" />
+                    <select
+                      className="bg-transparent border-none p-0 pr-6 text-[10px] font-black uppercase text-slate-600 tracking-widest focus:ring-0 cursor-pointer"
+                      value={formatTarget(editTarget)}
+                      onChange={(e) => handleTargetChange(e.target.value)}
+                    >
+                      {availableTargets.map(t => <option key={formatTarget(t)} value={formatTarget(t)}>{formatTarget(t)}</option>)}
+                      {isSuperAdmin(role) && <option value="__new__">+ New display group</option>}
+                    </select>
+                </div>
             </div>
 
             {/* RESTORED BRAND CONTACT BAR */}
@@ -945,7 +1892,7 @@ const handleSaveConfig = async (updatedData: AppData) => {
 
             <div className="flex items-center gap-4">
                 <div className="text-right">
-                    <p className="text-[9px] font-black uppercase text-slate-400">Authenticated Staff</p>
+                    <p className="text-[9px] font-black uppercase text-slate-400">{ROLE_LABELS[role]}</p>
                     <p className="text-xs font-black text-slate-700">{session?.email}</p>
                 </div>
                 <button onClick={logout} className="p-2 text-slate-400 hover:text-red-500 transition-colors"><LogOut className="w-5 h-5" /></button>
@@ -955,20 +1902,25 @@ const handleSaveConfig = async (updatedData: AppData) => {
         <div className="flex-1 p-12 max-w-6xl mx-auto w-full pb-24">
             <div className="flex justify-between items-start mb-12">
               <h2 className="text-4xl font-black text-slate-900 tracking-tight">{_.startCase(activeTab)}</h2>
-              {['config', 'health', 'security', 'import'].indexOf(activeTab) === -1 && (
-                <button onClick={handleSave} style={{ backgroundColor: 'var(--accent-color)' }} className="text-white px-8 py-3 rounded-2xl font-black text-sm flex items-center gap-2 shadow-xl shadow-blue-900/10 hover:brightness-110 transition-all">
-                    {isSaving ? <Loader2 className="w-4 h-4 animate-spin"/> : <Save className="w-4 h-4"/>} SAVE CHANGES
-                </button>
+              {canEditTab(role, activeTab) && ['config', 'health', 'import', 'history', 'media'].indexOf(activeTab) === -1 && (
+                <div className="flex items-center gap-3">
+                  <input className="w-64 bg-white px-4 py-3 rounded-2xl border border-slate-200 text-xs font-bold" placeholder="Change note (optional)" value={saveNote} onChange={(e) => setSaveNote(e.target.value)} />
+                  <button onClick={handleSave} style={{ backgroundColor: 'var(--accent-color)' }} className="text-white px-8 py-3 rounded-2xl font-black text-sm flex items-center gap-2 shadow-xl shadow-blue-900/10 hover:brightness-110 transition-all">
+                      {isSaving ? <Loader2 className="w-4 h-4 animate-spin"/> : <Save className="w-4 h-4"/>} SAVE CHANGES
+                  </button>
+                </div>
               )}
             </div>
 
             <div className="bg-white rounded-[2.5rem] shadow-xl border border-slate-100 min-h-[600px] p-8 overflow-hidden relative">
                 <ErrorBoundary key={activeTab} componentName={`Admin Tab: ${activeTab}`}>
-                  {renderActiveTab()}
+                  {canViewTab(role, activeTab) ? renderActiveTab() : <div>Your role does not have access to this tab.</div>}
                 </ErrorBoundary>
             </div>
         </div>
       </main>
+
+      {mediaPickerModal}
     </div>
   );
 };
@@ -1,22 +1,41 @@
-
 import React from 'react';
 import { useSimpleAuth } from '../context/SimpleAuthContext';
 import SimpleLogin from '../pages/SimpleLogin';
-import { Loader2 } from 'lucide-react';
+import { ShieldAlert, LogOut } from 'lucide-react';
+import { AdminRole } from '../types';
+import { ADMIN_ROLES, ROLE_LABELS } from '../services/roleService';
 
 interface AdminGuardProps {
   children: React.ReactNode;
+  allowedRoles?: AdminRole[];
 }
 
-const AdminGuard: React.FC<AdminGuardProps> = ({ children }) => {
-  const { isAuthenticated, session } = useSimpleAuth();
+const AdminGuard: React.FC<AdminGuardProps> = ({ children, allowedRoles = ADMIN_ROLES }) => {
+  const { isAuthenticated, session, logout } = useSimpleAuth();
 
   // If we are checking session (could be slight delay on mount if using complex storage)
   // For localStorage it's instant, but we guard against mount flickers
-  if (!isAuthenticated) {
+  if (!isAuthenticated || !session) {
     return <SimpleLogin />;
   }
 
+  if (!allowedRoles.includes(session.role)) {
+    return (
+      <div className="fixed inset-0 bg-slate-950 flex items-center justify-center p-6 text-center text-white font-sans">
+        <div className="max-w-md w-full glass-panel rounded-[2.5rem] p-10 border border-red-500/20 bg-red-500/5 flex flex-col items-center">
+          <ShieldAlert className="w-12 h-12 text-red-500 mb-6 opacity-80" />
+          <h1 className="text-2xl font-black mb-3 tracking-tight">Insufficient Permissions</h1>
+          <p className="text-slate-400 text-sm font-medium leading-relaxed mb-8">
+            {session.email} is signed in as {ROLE_LABELS[session.role]}, which cannot open this area.
+          </p>
+          <button onClick={logout} className="px-6 py-3 bg-white/5 hover:bg-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2 border border-white/10">
+            <LogOut className="w-3.5 h-3.5" /> Switch Account
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { AiProviderKind, AiSettings } from '../types';
+import { AI_PROVIDERS } from '../services/aiProvider';
+import { clearAiUsage, getAiSettings, getAiUsage, resetAiSettings, saveAiSettings } from '../services/aiService';
+import { Bot, RotateCcw, Save } from 'lucide-react';
+
+const field = 'w-full bg-white px-4 py-2 rounded-xl border border-slate-200 text-sm font-bold';
+const fieldLabel = 'text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1';
+
+const BASE_URL_PLACEHOLDERS: Partial<Record<AiProviderKind, string>> = {
+  openai: 'https://api.openai.com/v1',
+  ollama: 'http://localhost:11434'
+};
+
+/**
+ * Security tab: which AI backend the rewrite, theme, import and news features use, and what they have used.
+ * Settings live in this browser, like the API key, and never go into the synced config.
+ */
+const AiSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<AiSettings>(getAiSettings);
+  const [usage, setUsage] = useState(getAiUsage);
+  const provider = AI_PROVIDERS[settings.provider];
+  const update = (patch: Partial<AiSettings>) => setSettings({ ...settings, ...patch });
+
+  const save = () => {
+    saveAiSettings(settings);
+    alert('AI settings saved for this browser.');
+  };
+
+  const reset = () => {
+    if (!window.confirm('Go back to the build defaults for the AI provider?')) return;
+    resetAiSettings();
+    setSettings(getAiSettings());
+  };
+
+  return (
+    <div className="p-6 bg-slate-50 rounded-[2rem] border border-slate-100 mb-10 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-xl font-black flex items-center gap-2"><Bot className="w-5 h-5" /> AI Provider</h3>
+          <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">Stored in this browser only · Used by rewrite, theme generation, import and live news</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={reset} className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 flex items-center gap-2 hover:bg-slate-50"><RotateCcw className="w-3.5 h-3.5" /> Defaults</button>
+          <button onClick={save} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2"><Save className="w-3.5 h-3.5" /> Save</button>
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        <label>
+          <span className={fieldLabel}>Provider</span>
+          <select className={field} value={settings.provider} onChange={(e) => update({ provider: e.target.value as AiProviderKind, model: undefined, baseUrl: undefined })}>
+            {Object.values(AI_PROVIDERS).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className={fieldLabel}>Model</span>
+          <input className={field} placeholder={provider.defaultModel} value={settings.model || ''} onChange={(e) => update({ model: e.target.value.trim() || undefined })} />
+        </label>
+        <label>
+          <span className={fieldLabel}>API Key</span>
+          <input type="password" disabled={settings.provider === 'mock' || settings.provider === 'ollama'} className={`${field} disabled:opacity-40`} placeholder={settings.provider === 'gemini' ? 'Build-time key' : 'Not needed for keyless endpoints'} value={settings.apiKey || ''} onChange={(e) => update({ apiKey: e.target.value.trim() || undefined })} />
+        </label>
+        {BASE_URL_PLACEHOLDERS[settings.provider] && (
+          <label className="col-span-3">
+            <span className={fieldLabel}>Endpoint</span>
+            <input className={`${field} font-mono`} placeholder={BASE_URL_PLACEHOLDERS[settings.provider]} value={settings.baseUrl || ''} onChange={(e) => update({ baseUrl: e.target.value.trim() || undefined })} />
+          </label>
+        )}
+        <label>
+          <span className={fieldLabel}>Timeout (seconds)</span>
+          <input type="number" min={5} max={300} className={field} value={Math.round(settings.timeoutMs / 1000)} onChange={(e) => update({ timeoutMs: Math.max(5, Number(e.target.value) || 0) * 1000 })} />
+        </label>
+        <label>
+          <span className={fieldLabel}>Retries</span>
+          <input type="number" min={0} max={5} className={field} value={settings.maxRetries} onChange={(e) => update({ maxRetries: Math.min(5, Math.max(0, Number(e.target.value) || 0)) })} />
+        </label>
+      </div>
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className={fieldLabel}>Usage in this browser</span>
+          <button onClick={() => { clearAiUsage(); setUsage([]); }} disabled={usage.length === 0} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-700 disabled:opacity-40">Clear</button>
+        </div>
+        <table className="w-full text-left text-xs">
+          <thead className="text-[10px] font-black uppercase text-slate-400 tracking-widest border-b border-slate-200">
+            <tr><th className="pb-2">Provider</th><th className="pb-2">Model</th><th className="pb-2">Requests</th><th className="pb-2">Failures</th><th className="pb-2">Tokens In / Out</th><th className="pb-2">Last Used</th></tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {usage.map(u => (
+              <tr key={`${u.provider}/${u.model}`} className="font-bold text-slate-600">
+                <td className="py-2">{AI_PROVIDERS[u.provider]?.label || u.provider}</td>
+                <td className="py-2 font-mono">{u.model}</td>
+                <td className="py-2">{u.requests}</td>
+                <td className={`py-2 ${u.failures ? 'text-red-500' : ''}`}>{u.failures}</td>
+                <td className="py-2 font-mono">{u.inputTokens.toLocaleString()} / {u.outputTokens.toLocaleString()}</td>
+                <td className="py-2 text-slate-400 font-mono">{new Date(u.lastUsedAt).toLocaleString()}</td>
+              </tr>
+            ))}
+            {usage.length === 0 && (
+              <tr><td colSpan={6} className="py-6 text-center text-xs font-bold text-slate-400 uppercase tracking-widest">No AI requests yet</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AiSettingsPanel;
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { BellPeriod, BellSchedule, BellScheduleConfig, BellScheduleOverride } from '../types';
+import { getBellStatus, formatCountdown, getScheduleForDate, BELL_STATE_LABELS } from '../services/bellScheduleService';
+import { WEEKDAY_LABELS, toMinutes } from '../services/scheduleService';
+import { Bell, CalendarDays, Plus, Trash2 } from 'lucide-react';
+
+interface BellScheduleEditorProps {
+  config: BellScheduleConfig;
+  readOnly?: boolean;
+  onChange: (config: BellScheduleConfig) => void;
+}
+
+/**
+ * Named bell schedules, the school days they run on, and date overrides for half days, testing and closures.
+ */
+const BellScheduleEditor: React.FC<BellScheduleEditorProps> = ({ config, readOnly, onChange }) => {
+  const [now, setNow] = useState(new Date());
+  useEffect(() => {
+    const t = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(t);
+  }, []);
+
+  const status = getBellStatus(config, now);
+  const update = (patch: Partial<BellScheduleConfig>) => onChange({ ...config, ...patch });
+
+  const updateSchedule = (id: string, patch: Partial<BellSchedule>) =>
+    update({ schedules: config.schedules.map(s => s.id === id ? { ...s, ...patch } : s) });
+
+  const updatePeriod = (schedule: BellSchedule, periodId: string, patch: Partial<BellPeriod>) =>
+    updateSchedule(schedule.id, { periods: schedule.periods.map(p => p.id === periodId ? { ...p, ...patch } : p) });
+
+  const updateOverride = (id: string, patch: Partial<BellScheduleOverride>) =>
+    update({ overrides: config.overrides.map(o => o.id === id ? { ...o, ...patch } : o) });
+
+  const addSchedule = () => {
+    const schedule: BellSchedule = { id: `bell-${Date.now()}`, name: 'New Schedule', periods: [] };
+    update({ schedules: [...config.schedules, schedule], defaultScheduleId: config.defaultScheduleId || schedule.id });
+  };
+
+  const removeSchedule = (schedule: BellSchedule) => {
+    if (!window.confirm(`Delete the "${schedule.name}" schedule?`)) return;
+    update({
+      schedules: config.schedules.filter(s => s.id !== schedule.id),
+      defaultScheduleId: config.defaultScheduleId === schedule.id ? null : config.defaultScheduleId,
+      // Overrides that pointed at it fall back to the default rather than silently meaning "No School"
+      overrides: config.overrides.filter(o => o.scheduleId !== schedule.id)
+    });
+  };
+
+  const addPeriod = (schedule: BellSchedule) => {
+    const last = [...schedule.periods].sort((a, b) => toMinutes(a.start) - toMinutes(b.start)).pop();
+    const start = last?.end || '08:00';
+    const endMinutes = Math.min(toMinutes(start) + 50, 23 * 60 + 59);
+    const end = `${String(Math.floor(endMinutes / 60)).padStart(2, '0')}:${String(endMinutes % 60).padStart(2, '0')}`;
+    updateSchedule(schedule.id, { periods: [...schedule.periods, { id: `period-${Date.now()}`, name: `Period ${schedule.periods.length + 1}`, start, end }] });
+  };
+
+  const sortPeriods = (schedule: BellSchedule) =>
+    updateSchedule(schedule.id, { periods: [...schedule.periods].sort((a, b) => toMinutes(a.start) - toMinutes(b.start)) });
+
+  const toggleDay = (day: number) =>
+    update({ schoolDays: config.schoolDays.includes(day) ? config.schoolDays.filter(d => d !== day) : [...config.schoolDays, day].sort() });
+
+  const todaySchedule = getScheduleForDate(config, now);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-6 bg-slate-900 text-white rounded-3xl flex items-center gap-6">
+        <Bell className="w-8 h-8 opacity-60" />
+        <div className="flex-1">
+          <p className="text-[10px] font-black uppercase tracking-widest opacity-50">Today · {todaySchedule?.name || 'No School'}</p>
+          <p className="text-2xl font-black">{BELL_STATE_LABELS[status.state]}{status.current ? `: ${status.current.name}` : status.next ? ` · Next: ${status.next.name}` : ''}</p>
+        </div>
+        {status.countdownTo && <span className="text-4xl font-black tabular-nums">{formatCountdown(status.countdownTo, now)}</span>}
+      </div>
+
+      <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 flex items-center gap-8 flex-wrap">
+        <label className="flex items-center gap-3 text-[10px] font-black uppercase text-slate-400 tracking-widest">
+          <button disabled={readOnly} onClick={() => update({ showInHeader: !config.showInHeader })} className={`w-12 h-7 rounded-full p-1 transition-colors ${config.showInHeader ? 'bg-green-500' : 'bg-slate-300'}`}><div className={`w-5 h-5 bg-white rounded-full transition-transform ${config.showInHeader ? 'translate-x-5' : 'translate-x-0'}`} /></button>
+          Show in kiosk header
+        </label>
+        <label className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-400 tracking-widest">
+          Default schedule
+          <select disabled={readOnly} className="bg-white px-3 py-2 rounded-xl border border-slate-200 text-sm font-bold text-slate-700 normal-case tracking-normal" value={config.defaultScheduleId || ''} onChange={(e) => update({ defaultScheduleId: e.target.value || null })}>
+            <option value="">None</option>
+            {config.schedules.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        </label>
+        <div className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-400 tracking-widest">
+          School days
+          <div className="flex gap-1">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                disabled={readOnly}
+                onClick={() => toggleDay(day)}
+                className={`w-10 py-1.5 rounded-lg text-[10px] font-black uppercase transition-colors ${config.schoolDays.includes(day) ? 'bg-slate-900 text-white' : 'bg-white text-slate-400 border border-slate-200'}`}
+              >{label}</button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <h4 className="font-black text-slate-800 uppercase text-xs tracking-widest">Schedules</h4>
+        {!readOnly && <button onClick={addSchedule} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2"><Plus className="w-3.5 h-3.5" /> Add Schedule</button>}
+      </div>
+      {config.schedules.length === 0 && <p className="text-sm font-bold text-slate-400">No schedules yet. Add one such as "Regular", "Half Day" or "Testing".</p>}
+      {config.schedules.map(schedule => (
+        <div key={schedule.id} className="p-6 bg-white rounded-3xl border border-slate-200 space-y-3">
+          <div className="flex items-center gap-3">
+            <input disabled={readOnly} className="flex-1 bg-transparent text-lg font-black text-slate-800 border-none p-0 focus:ring-0" value={schedule.name} onChange={(e) => updateSchedule(schedule.id, { name: e.target.value })} />
+            {config.defaultScheduleId === schedule.id && <span className="px-2 py-1 bg-blue-50 text-blue-600 rounded-lg text-[9px] font-black uppercase tracking-widest">Default</span>}
+            {!readOnly && <button onClick={() => removeSchedule(schedule)} className="p-2 text-slate-300 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>}
+          </div>
+          {schedule.periods.map(period => (
+            <div key={period.id} className="flex items-center gap-3">
+              <input disabled={readOnly} className="flex-1 bg-slate-50 px-4 py-2 rounded-xl border border-slate-200 text-sm font-bold text-slate-700" value={period.name} onChange={(e) => updatePeriod(schedule, period.id, { name: e.target.value })} />
+              <input disabled={readOnly} type="time" className="bg-slate-50 px-3 py-2 rounded-xl border border-slate-200 text-sm font-bold text-slate-700" value={period.start} onChange={(e) => updatePeriod(schedule, period.id, { start: e.target.value })} onBlur={() => sortPeriods(schedule)} />
+              <span className="text-slate-300 font-black">–</span>
+              <input disabled={readOnly} type="time" className={`bg-slate-50 px-3 py-2 rounded-xl border text-sm font-bold text-slate-700 ${toMinutes(period.end) <= toMinutes(period.start) ? 'border-red-300' : 'border-slate-200'}`} value={period.end} onChange={(e) => updatePeriod(schedule, period.id, { end: e.target.value })} />
+              {!readOnly && <button onClick={() => updateSchedule(schedule.id, { periods: schedule.periods.filter(p => p.id !== period.id) })} className="p-2 text-slate-300 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>}
+            </div>
+          ))}
+          {!readOnly && <button onClick={() => addPeriod(schedule)} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-700">+ Period</button>}
+        </div>
+      ))}
+
+      <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 space-y-3">
+        <div className="flex justify-between items-center">
+          <div><h4 className="font-black text-slate-800 uppercase text-xs tracking-widest flex items-center gap-2"><CalendarDays className="w-3.5 h-3.5" /> Calendar</h4><p className="text-xs text-slate-400 font-bold">Dates that run a different schedule, or no school at all. Later entries win.</p></div>
+          {!readOnly && (
+            <button onClick={() => update({ overrides: [...config.overrides, { id: `override-${Date.now()}`, fromDate: new Date().toISOString().slice(0, 10), scheduleId: config.schedules[0]?.id || null }] })} className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 flex items-center gap-2 hover:bg-slate-50"><Plus className="w-3.5 h-3.5" /> Add Date</button>
+          )}
+        </div>
+        {config.overrides.map(override => (
+          <div key={override.id} className="flex items-center gap-3 p-3 bg-white rounded-2xl border border-slate-200">
+            <input disabled={readOnly} type="date" className="bg-slate-50 px-3 py-2 rounded-xl border border-slate-200 text-sm font-bold text-slate-700" value={override.fromDate} onChange={(e) => updateOverride(override.id, { fromDate: e.target.value })} />
+            <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest">to</span>
+            <input disabled={readOnly} type="date" min={override.fromDate} className="bg-slate-50 px-3 py-2 rounded-xl border border-slate-200 text-sm font-bold text-slate-700" value={override.toDate || ''} onChange={(e) => updateOverride(override.id, { toDate: e.target.value || undefined })} />
+            <select disabled={readOnly} className="bg-slate-50 px-3 py-2 rounded-xl border border-slate-200 text-sm font-bold text-slate-700" value={override.scheduleId || ''} onChange={(e) => updateOverride(override.id, { scheduleId: e.target.value || null })}>
+              <option value="">No School</option>
+              {config.schedules.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+            <input disabled={readOnly} className="flex-1 bg-slate-50 px-3 py-2 rounded-xl border border-slate-200 text-sm font-bold text-slate-700" placeholder="Note, e.g. Finals week" value={override.note || ''} onChange={(e) => updateOverride(override.id, { note: e.target.value || undefined })} />
+            {!readOnly && <button onClick={() => update({ overrides: config.overrides.filter(o => o.id !== override.id) })} className="p-2 text-slate-300 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BellScheduleEditor;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { CalendarSource, CalendarSourceKind, EventCategory } from '../types';
+import { CALENDAR_KIND_LABELS, DEFAULT_CALENDAR_REFRESH_MINUTES, getNextSyncAt } from '../services/calendarService';
+import { uploadMedia } from '../services/mediaService';
+import { CalendarSync, FileUp, Loader2, Plus, RefreshCw, Trash2, XCircle } from 'lucide-react';
+
+interface CalendarSourcesEditorProps {
+  sources: CalendarSource[];
+  categories: EventCategory[];
+  tenantId: string;
+  isSyncing: boolean;
+  readOnly?: boolean;
+  onChange: (sources: CalendarSource[]) => void;
+  onSyncNow: () => void;
+}
+
+const URL_PLACEHOLDERS: Record<CalendarSourceKind, string> = {
+  ics_url: 'https://example.org/athletics.ics',
+  ics_file: 'Upload an .ics file',
+  google: 'Calendar ID, e.g. abc123@group.calendar.google.com'
+};
+
+/**
+ * Subscribed calendars (ICS feeds, uploaded .ics files, public Google Calendars) and
+ * the keyword rules that map their events onto signage categories.
+ */
+const CalendarSourcesEditor: React.FC<CalendarSourcesEditorProps> = ({ sources, categories, tenantId, isSyncing, readOnly, onChange, onSyncNow }) => {
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+
+  const update = (id: string, patch: Partial<CalendarSource>) =>
+    onChange(sources.map(source => source.id === id ? { ...source, ...patch } : source));
+
+  const addSource = () => onChange([...sources, {
+    id: `cal-${Date.now()}`,
+    name: 'New Calendar',
+    kind: 'ics_url',
+    url: '',
+    enabled: true,
+    defaultCategory: categories[0] || 'General',
+    categoryRules: [],
+    refreshMinutes: DEFAULT_CALENDAR_REFRESH_MINUTES
+  }]);
+
+  const handleUpload = async (source: CalendarSource, file?: File) => {
+    if (!file) return;
+    setUploadingId(source.id);
+    try {
+      const asset = await uploadMedia(file, tenantId, ['calendar']);
+      update(source.id, { url: asset.url, name: source.name === 'New Calendar' ? file.name.replace(/\.ics$/i, '') : source.name });
+    } catch (error) {
+      console.error('Calendar upload failed:', error);
+      alert(`Could not upload ${file.name}. Check console.`);
+    } finally {
+      setUploadingId(null);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 space-y-4">
+      <div className="flex items-center justify-between">
+        <div><h4 className="font-black text-slate-800 uppercase text-xs tracking-widest flex items-center gap-2"><CalendarSync className="w-3.5 h-3.5" /> Subscribed Calendars</h4><p className="text-xs text-slate-400 font-bold">Synced into the saved config by the scheduled calendar job; synced events are read-only, edit them in their source calendar</p></div>
+        <div className="flex gap-2">
+          <button onClick={onSyncNow} disabled={isSyncing || sources.length === 0} className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 flex items-center gap-2 hover:bg-slate-50 disabled:opacity-50">
+            <RefreshCw className={`w-3.5 h-3.5 ${isSyncing ? 'animate-spin' : ''}`} /> Sync Now
+          </button>
+          {!readOnly && (
+            <button onClick={addSource} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2"><Plus className="w-3.5 h-3.5" /> Add Calendar</button>
+          )}
+        </div>
+      </div>
+
+      {sources.map(source => (
+        <div key={source.id} className="p-4 bg-white rounded-2xl border border-slate-200 space-y-3">
+          <div className="flex items-center gap-3">
+            <input disabled={readOnly} className="flex-1 bg-transparent font-black text-slate-800 border-none p-0 focus:ring-0" value={source.name} onChange={(e) => update(source.id, { name: e.target.value })} />
+            <select disabled={readOnly} className="bg-slate-50 px-3 py-1.5 rounded-lg border border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-500" value={source.kind} onChange={(e) => update(source.id, { kind: e.target.value as CalendarSourceKind, url: '' })}>
+              {(Object.keys(CALENDAR_KIND_LABELS) as CalendarSourceKind[]).map(kind => <option key={kind} value={kind}>{CALENDAR_KIND_LABELS[kind]}</option>)}
+            </select>
+            <button disabled={readOnly} onClick={() => update(source.id, { enabled: !source.enabled })} className={`w-12 h-7 rounded-full p-1 transition-colors shrink-0 ${source.enabled ? 'bg-green-500' : 'bg-slate-300'}`}><div className={`w-5 h-5 bg-white rounded-full transition-transform ${source.enabled ? 'translate-x-5' : 'translate-x-0'}`} /></button>
+            {!readOnly && (
+              <button onClick={() => { if (window.confirm(`Remove "${source.name}" and its synced events?`)) onChange(sources.filter(s => s.id !== source.id)); }} className="p-2 text-slate-300 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <input disabled={readOnly || source.kind === 'ics_file'} className="flex-1 bg-slate-50 px-4 py-2 rounded-xl border border-slate-200 font-mono text-xs font-bold text-slate-500" placeholder={URL_PLACEHOLDERS[source.kind]} value={source.url} onChange={(e) => update(source.id, { url: e.target.value })} />
+            {source.kind === 'ics_file' && !readOnly && (
+              <label className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 flex items-center gap-2 cursor-pointer hover:bg-slate-50">
+                {uploadingId === source.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileUp className="w-3.5 h-3.5" />} Upload
+                <input type="file" accept=".ics,text/calendar" className="hidden" onChange={(e) => handleUpload(source, e.target.files?.[0])} />
+              </label>
+            )}
+            {source.kind === 'google' && (
+              <input disabled={readOnly} className="w-56 bg-slate-50 px-4 py-2 rounded-xl border border-slate-200 font-mono text-xs font-bold text-slate-500" placeholder="Google API key" value={source.apiKey || ''} onChange={(e) => update(source.id, { apiKey: e.target.value })} />
+            )}
+          </div>
+
+          <div className="flex items-center gap-4 flex-wrap text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <label className="flex items-center gap-2">
+              Default category
+              <select disabled={readOnly} className="bg-slate-50 px-2 py-1 rounded-lg border border-slate-200 text-slate-600" value={source.defaultCategory} onChange={(e) => update(source.id, { defaultCategory: e.target.value })}>
+                {categories.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Refresh every
+              <input disabled={readOnly} type="number" min={5} className="w-16 bg-slate-50 px-2 py-1 rounded-lg border border-slate-200 text-slate-600" value={source.refreshMinutes} onChange={(e) => update(source.id, { refreshMinutes: Math.max(5, Number(e.target.value) || DEFAULT_CALENDAR_REFRESH_MINUTES) })} />
+              min
+            </label>
+            <span className="ml-auto normal-case tracking-normal font-bold">
+              {source.lastError
+                ? <span className="text-red-500 flex items-center gap-1"><XCircle className="w-3 h-3" /> {source.lastError} · retrying {new Date(getNextSyncAt(source)).toLocaleString()}</span>
+                : source.lastSyncedAt ? `Updated ${new Date(source.lastSyncedAt).toLocaleString()}` : 'Not synced yet'}
+            </span>
+          </div>
+
+          <div className="space-y-2">
+            {source.categoryRules.map((rule, i) => (
+              <div key={i} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                If title contains
+                <input disabled={readOnly} className="flex-1 bg-slate-50 px-3 py-1.5 rounded-lg border border-slate-200 text-xs font-bold text-slate-600 normal-case tracking-normal" placeholder="e.g. soccer" value={rule.match} onChange={(e) => { const n = [...source.categoryRules]; n[i] = { ...rule, match: e.target.value }; update(source.id, { categoryRules: n }); }} />
+                use
+                <select disabled={readOnly} className="bg-slate-50 px-2 py-1.5 rounded-lg border border-slate-200 text-slate-600" value={rule.category} onChange={(e) => { const n = [...source.categoryRules]; n[i] = { ...rule, category: e.target.value }; update(source.id, { categoryRules: n }); }}>
+                  {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                {!readOnly && <button onClick={() => update(source.id, { categoryRules: source.categoryRules.filter((_, idx) => idx !== i) })} className="p-1 text-slate-300 hover:text-red-500"><Trash2 className="w-3.5 h-3.5" /></button>}
+              </div>
+            ))}
+            {!readOnly && (
+              <button onClick={() => update(source.id, { categoryRules: [...source.categoryRules, { match: '', category: source.defaultCategory }] })} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-700">+ Category Rule</button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CalendarSourcesEditor;
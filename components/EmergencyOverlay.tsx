@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { EmergencyAlert } from '../types';
+import { ShieldAlert, VolumeX } from 'lucide-react';
+
+interface EmergencyOverlayProps {
+  alert: EmergencyAlert;
+}
+
+const SIREN_LOW_HZ = 650;
+const SIREN_HIGH_HZ = 1250;
+const SIREN_SWEEP_SECONDS = 1.2;
+
+/**
+ * Starts a synthesized two-tone siren via WebAudio.
+ * Used when the alert requests a siren but no custom audio clip was uploaded, or the clip can't be played.
+ */
+const startSynthSiren = (): (() => void) => {
+  const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
+  if (!AudioCtx) return () => {};
+
+  const ctx: AudioContext = new AudioCtx();
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.type = 'sawtooth';
+  gain.gain.value = 0.15;
+  oscillator.connect(gain);
+  gain.connect(ctx.destination);
+
+  const sweep = () => {
+    const now = ctx.currentTime;
+    oscillator.frequency.setValueAtTime(SIREN_LOW_HZ, now);
+    oscillator.frequency.linearRampToValueAtTime(SIREN_HIGH_HZ, now + SIREN_SWEEP_SECONDS / 2);
+    oscillator.frequency.linearRampToValueAtTime(SIREN_LOW_HZ, now + SIREN_SWEEP_SECONDS);
+  };
+
+  sweep();
+  oscillator.start();
+  const sweepTimer = setInterval(sweep, SIREN_SWEEP_SECONDS * 1000);
+
+  return () => {
+    clearInterval(sweepTimer);
+    try { oscillator.stop(); } catch (e) {}
+    ctx.close().catch(() => {});
+  };
+};
+
+/**
+ * Full-screen emergency takeover for the kiosk.
+ * Sits above every other layer and loops the uploaded clip (or a synthesized siren) until the alert is cleared.
+ */
+const EmergencyOverlay: React.FC<EmergencyOverlayProps> = ({ alert }) => {
+  const [audioBlocked, setAudioBlocked] = useState(false);
+
+  useEffect(() => {
+    if (!alert.includeSiren) return;
+
+    if (alert.audioData) {
+      const audio = new Audio(alert.audioData);
+      audio.loop = true;
+      let stopped = false;
+      let stopSiren: (() => void) | null = null;
+      // A clip that won't load or decode (e.g. offline and never cached) still sounds the alarm
+      const fallBackToSiren = () => {
+        if (stopped || stopSiren) return;
+        console.warn('Emergency audio clip failed, playing the synthesized siren', audio.error);
+        stopSiren = startSynthSiren();
+      };
+      audio.addEventListener('error', fallBackToSiren);
+      audio.play().catch((e) => {
+        // The synthesized siren would be blocked by the same autoplay policy
+        if (e?.name === 'NotAllowedError') {
+          console.warn('Emergency audio autoplay blocked', e);
+          setAudioBlocked(true);
+          return;
+        }
+        fallBackToSiren();
+      });
+      return () => {
+        stopped = true;
+        audio.removeEventListener('error', fallBackToSiren);
+        audio.pause();
+        audio.src = '';
+        stopSiren?.();
+      };
+    }
+
+    const stopSiren = startSynthSiren();
+    return stopSiren;
+  }, [alert.includeSiren, alert.audioData, alert.timestamp]);
+
+  return (
+    <div className="fixed inset-0 z-[200] flex flex-col items-center justify-center p-16 text-center text-white bg-red-700 select-none">
+      <div className="absolute inset-0 bg-gradient-to-b from-red-600 via-red-800 to-black animate-pulse opacity-80 pointer-events-none"></div>
+
+      <div className="relative z-10 flex flex-col items-center max-w-6xl">
+        <div className="w-40 h-40 rounded-[2.5rem] bg-white/10 border-4 border-white/40 flex items-center justify-center mb-12 shadow-2xl animate-bounce">
+          <ShieldAlert className="w-24 h-24" />
+        </div>
+        <span className="px-6 py-2 rounded-full bg-white text-red-700 text-lg font-black uppercase tracking-[0.4em] mb-10 shadow-xl">Emergency Alert</span>
+        <h1 className="text-[clamp(3rem,6vw,6.5rem)] font-black leading-[1.05] tracking-tight drop-shadow-2xl">
+          {alert.message}
+        </h1>
+        {alert.timestamp > 0 && (
+          <p className="mt-12 text-xl font-bold uppercase tracking-[0.3em] opacity-70">
+            Issued {new Date(alert.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </p>
+        )}
+      </div>
+
+      {audioBlocked && (
+        <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 px-4 py-2 rounded-full bg-black/40 text-[10px] font-black uppercase tracking-widest opacity-70">
+          <VolumeX className="w-3 h-3" /> Audio blocked by browser
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmergencyOverlay;
@@ -1,10 +1,23 @@
 
 import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
-import { AppData, WeatherData, Page } from '../types';
-import { Clock, Calendar, CloudSun, AlertCircle, Settings, Sun, Cloud, CloudSun as CloudSunIcon, CloudRain, CloudSnow, Phone, Globe, Instagram, Twitter, ChevronLeft, ChevronRight, LayoutTemplate, ShieldAlert } from 'lucide-react';
+import { AppData, WeatherData, WeatherAlert, Page } from '../types';
+import { Clock, Calendar, CloudSun, Settings, Sun, Cloud, CloudSun as CloudSunIcon, CloudRain, CloudSnow, Phone, Globe, Instagram, Twitter, ChevronLeft, ChevronRight, LayoutTemplate, ShieldAlert, Bell } from 'lucide-react';
 import { getStoredData, saveStoredData } from '../services/storageService';
-import { loadCloudData } from '../services/cloudStorageService';
+import { startCloudSync } from '../services/cloudStorageService';
+import { registerDevice, sendHeartbeat, hashConfig, HEARTBEAT_INTERVAL_MS } from '../services/deviceService';
+import { precacheAssets } from '../services/offlineService';
+import { normalizeTickerItems, DEFAULT_TICKER_SPEED } from '../services/tickerService';
+import { getActiveTheme, resolveThemeTokens } from '../services/themeService';
+import { getBellStatus, formatCountdown, BELL_STATE_LABELS } from '../services/bellScheduleService';
+import { selectEventRows, formatEventTime, getEventDay } from '../services/eventService';
+import { fetchWeatherAlerts, meetsSeverity, getEscalatingAlerts, getAlertMessage, toEmergencyAlert, DEFAULT_WEATHER_ALERT_CONFIG, WEATHER_ALERT_REFRESH_MS } from '../services/weatherAlertService';
+import { subscribeWeather, getForecastSlots, TEMPERATURE_UNIT_LABELS, WIND_UNIT_LABELS } from '../services/weatherService';
 import { GridRenderer } from './WidgetSystem';
+import EmergencyOverlay from './EmergencyOverlay';
+import TickerBar from './TickerBar';
+import VideoPlayer from './VideoPlayer';
+import LiveCamView from './LiveCamView';
+import { isAnnouncementLive, getScheduledPages } from '../services/scheduleService';
 
 interface KioskViewProps {
   onExit: () => void;
@@ -15,6 +28,26 @@ const APP_VERSION = "v1.6.0";
 // Helper to check if we are on the "Home" index
 const IS_HOME = 0;
 const EVENTS_PER_SET = 4;
+const ANNOUNCEMENT_INTERVAL_MS = 8000;
+// Upper bound for a held video so a stalled stream can't freeze the screen
+const MAX_VIDEO_HOLD_SECONDS = 600;
+
+/**
+ * Keys of the videos on a page that hold rotation until they finish
+ * (grid widget IDs, or 'background' for a standard page's background video).
+ */
+const getHeldVideoKeys = (page?: Page): string[] => {
+  if (!page) return [];
+  if (page.type === 'grid' && page.layout) {
+    return page.layout
+      .map(item => item.i)
+      .filter(id => {
+        const widget = page.widgets?.[id];
+        return widget?.type === 'video' && !!widget.settings?.url && !!widget.settings?.holdRotation;
+      });
+  }
+  return page.backgroundVideo?.url && page.backgroundVideo.holdRotation ? ['background'] : [];
+};
 
 const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
   const [data, setData] = useState<AppData>(getStoredData());
@@ -24,8 +57,11 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
   
   // Internal state for components
   const [announcementIndex, setAnnouncementIndex] = useState(0);
+  // Bumped when a held announcement video finishes so a lone video restarts
+  const [announcementCycle, setAnnouncementCycle] = useState(0);
   const [eventSetIndex, setEventSetIndex] = useState(0);
   const [weather, setWeather] = useState<WeatherData | null>(null);
+  const [weatherAlerts, setWeatherAlerts] = useState<WeatherAlert[]>([]);
   
   // Page Rotation State
   const [currentViewIndex, setCurrentViewIndex] = useState(0); // 0 is Home, 1+ are Pages
@@ -33,13 +69,55 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
   const announcementTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const eventTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
+  // Heartbeat reporting reads these without restarting its interval
+  const viewIndexRef = useRef(0);
+  const configHashRef = useRef<string | null>(null);
+
   // Derived Data
-  const enabledPages = useMemo(() => (data.pages || []).filter(p => p.enabled !== false), [data.pages]);
-  const totalViews = 1 + enabledPages.length;
-  const activeAnnouncements = useMemo(() => data.announcements.filter(a => a.active), [data.announcements]);
+  // Schedules are re-evaluated once per minute of kiosk clock time
+  const currentMinute = Math.floor(currentTime.getTime() / 60000);
+  // Keyed by page IDs so the rotation timer only resets when the daypart actually changes
+  const scheduledPageKey = getScheduledPages(data.pages || [], new Date(currentMinute * 60000)).map(p => p.id).join('|');
+  const enabledPages = useMemo(() => {
+      const ids = scheduledPageKey.split('|');
+      return (data.pages || []).filter(p => ids.includes(p.id));
+  }, [data.pages, scheduledPageKey]);
+  const showLiveCam = !!data.enableLiveCam && (data.liveCamUrls || []).some(url => url.trim());
+  // Home, then scheduled pages, then the live camera view when enabled
+  const liveCamViewIndex = showLiveCam ? 1 + enabledPages.length : -1;
+  const totalViews = 1 + enabledPages.length + (showLiveCam ? 1 : 0);
+  const activeAnnouncements = useMemo(
+    () => data.announcements.filter(a => isAnnouncementLive(a, new Date(currentMinute * 60000))),
+    [data.announcements, currentMinute]
+  );
+  const alertConfig = data.weatherAlerts || DEFAULT_WEATHER_ALERT_CONFIG;
+  const bannerAlerts = weatherAlerts.filter(alert => meetsSeverity(alert, alertConfig.bannerSeverity));
+  // A manually triggered emergency always wins; otherwise severe weather can take over on its own unless admins must confirm
+  const weatherTakeover = !data.emergency?.active && !alertConfig.requireConfirmation
+    ? getEscalatingAlerts(weatherAlerts, alertConfig)[0]
+    : undefined;
+  const isEmergencyActive = !!data.emergency?.active || !!weatherTakeover;
+  const currentAnnouncement = activeAnnouncements[announcementIndex];
+  const isHoldingAnnouncement = currentAnnouncement?.type === 'video' && !!currentAnnouncement.video?.holdRotation;
+  const currentPage = currentViewIndex > IS_HOME ? enabledPages[currentViewIndex - 1] : undefined;
+  const heldVideoKeys = useMemo(() => getHeldVideoKeys(currentPage), [currentPage]);
+  const endedVideoKeysRef = useRef<Set<string>>(new Set());
   
+  const events = data.events;
+  const eventTimeZone = data.eventSettings?.timeZone;
+  const eventRows = useMemo(
+    () => selectEventRows(events, new Date(currentMinute * 60000), eventTimeZone),
+    [events, currentMinute, eventTimeZone]
+  );
+
+  // Cloud configs skip the local migrations, so older string entries can still arrive here
+  const tickerItems = useMemo(() => normalizeTickerItems(data.tickerItems), [data.tickerItems]);
+
+  // Recomputed on every clock tick so the header countdown stays live
+  const bellStatus = data.bellSchedule?.showInHeader ? getBellStatus(data.bellSchedule, currentTime) : null;
+
   // Total sets of events based on EVENTS_PER_SET (e.g. 4 events per 5 seconds)
-  const totalEventSets = Math.ceil(data.events.length / EVENTS_PER_SET);
+  const totalEventSets = Math.ceil(eventRows.length / EVENTS_PER_SET);
 
   // Load Data & Listen for Updates
   useEffect(() => {
@@ -58,25 +136,31 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
   }, []);
 
   useEffect(() => {
-    const pollCloudConfig = async () => {
-      try {
-        const cloudData = await loadCloudData();
-        if (!cloudData) return;
-
-        const incomingHash = JSON.stringify(cloudData);
-        if (incomingHash === dataHashRef.current) return;
-
-        dataHashRef.current = incomingHash;
-        saveStoredData(cloudData);
-        setData(cloudData);
-      } catch (error) {
-        console.error('Kiosk poll failed', error);
-      }
+    const applyCloudConfig = (cloudData: AppData) => {
+      configHashRef.current = hashConfig(cloudData);
+      const incomingHash = JSON.stringify(cloudData);
+      if (incomingHash === dataHashRef.current) return;
+
+      dataHashRef.current = incomingHash;
+      saveStoredData(cloudData);
+      setData(cloudData);
+      precacheAssets(cloudData);
     };
 
-    pollCloudConfig();
-    const pollInterval = setInterval(pollCloudConfig, 15000);
-    return () => clearInterval(pollInterval);
+    return startCloudSync(applyCloudConfig);
+  }, []);
+
+  // Device Registry & Heartbeat
+  useEffect(() => {
+    viewIndexRef.current = currentViewIndex;
+  }, [currentViewIndex]);
+
+  useEffect(() => {
+    registerDevice(APP_VERSION);
+    const heartbeat = setInterval(() => {
+      sendHeartbeat(viewIndexRef.current, configHashRef.current);
+    }, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(heartbeat);
   }, []);
 
   // Clock
@@ -94,43 +178,56 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
     return () => { if (eventTimerRef.current) clearInterval(eventTimerRef.current); };
   }, [totalEventSets]);
 
-  // Weather Fetching
+  // Weather comes from the shared feed so widgets on the same location don't poll separately
+  const { lat, lon, temperatureUnit, windUnit } = data.weatherConfig;
+  useEffect(() => {
+    setWeather(null);
+    return subscribeWeather(data.weatherConfig, setWeather);
+  }, [lat, lon, temperatureUnit, windUnit]);
+
+  // Severe weather alerts for the same location
   useEffect(() => {
-    const fetchWeather = async () => {
-        try {
-            const { lat, lon } = data.weatherConfig;
-            const res = await fetch(`https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&daily=temperature_2m_max,temperature_2m_min,weathercode&current_weather=true&temperature_unit=fahrenheit&timezone=auto`);
-            const json = await res.json();
-            if (json.current_weather && json.daily) {
-                setWeather({
-                    current: { temp: Math.round(json.current_weather.temperature), code: json.current_weather.weathercode },
-                    daily: json.daily.time.slice(0, 3).map((date: string, i: number) => ({
-                        date, max: Math.round(json.daily.temperature_2m_max[i]), min: Math.round(json.daily.temperature_2m_min[i]), code: json.daily.weathercode[i]
-                    }))
-                });
-            }
-        } catch (e) { console.error("Weather error", e); }
+    if (!alertConfig.enabled) {
+      setWeatherAlerts([]);
+      return;
+    }
+    const fetchAlerts = async () => {
+      const alerts = await fetchWeatherAlerts(lat, lon);
+      if (alerts) setWeatherAlerts(alerts);
     };
-    fetchWeather();
-    const weatherInterval = setInterval(fetchWeather, 600000); 
-    return () => clearInterval(weatherInterval);
-  }, [data.weatherConfig]);
+    fetchAlerts();
+    const alertInterval = setInterval(fetchAlerts, WEATHER_ALERT_REFRESH_MS);
+    return () => clearInterval(alertInterval);
+  }, [lat, lon, alertConfig.enabled]);
 
   // View Rotation
+  // Dayparting can shrink the rotation; fall back to Home if the current page dropped out
+  useEffect(() => {
+      if (currentViewIndex >= totalViews) setCurrentViewIndex(IS_HOME);
+  }, [currentViewIndex, totalViews]);
+
   const rotateView = useCallback(() => {
       setCurrentViewIndex(prev => (prev + 1) % totalViews);
   }, [totalViews]);
 
   useEffect(() => {
+      // Rotation is frozen while an emergency takeover is on screen
+      if (isEmergencyActive) return;
+      endedVideoKeysRef.current = new Set();
       let duration = data.pageDuration || 60;
-      if (currentViewIndex > 0) {
-          const page = enabledPages[currentViewIndex - 1];
-          if (page && page.duration) duration = page.duration;
-      }
+      if (currentPage && currentPage.duration) duration = currentPage.duration;
+      // Pages holding on a video advance from handlePageVideoEnded; the timer is only a safety net
+      if (heldVideoKeys.length > 0) duration = MAX_VIDEO_HOLD_SECONDS;
       if (viewTimerRef.current) clearInterval(viewTimerRef.current);
       viewTimerRef.current = setInterval(rotateView, duration * 1000);
       return () => { if (viewTimerRef.current) clearInterval(viewTimerRef.current); };
-  }, [currentViewIndex, data.pageDuration, rotateView, enabledPages]);
+  }, [currentViewIndex, data.pageDuration, rotateView, currentPage, heldVideoKeys, isEmergencyActive]);
+
+  const handlePageVideoEnded = useCallback((pageId: string, key: string) => {
+      if (isEmergencyActive || currentPage?.id !== pageId || !heldVideoKeys.includes(key)) return;
+      endedVideoKeysRef.current.add(key);
+      if (heldVideoKeys.every(k => endedVideoKeysRef.current.has(k))) rotateView();
+  }, [isEmergencyActive, currentPage, heldVideoKeys, rotateView]);
 
   // Announcement Slider
   const nextAnnouncement = useCallback(() => {
@@ -145,8 +242,20 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
 
   const resetAnnouncementTimer = useCallback(() => {
       if (announcementTimerRef.current) clearInterval(announcementTimerRef.current);
-      announcementTimerRef.current = setInterval(nextAnnouncement, 8000);
-  }, [nextAnnouncement]);
+      // Held videos advance from handleAnnouncementVideoEnded; the timer is only a safety net
+      const interval = isHoldingAnnouncement ? MAX_VIDEO_HOLD_SECONDS * 1000 : ANNOUNCEMENT_INTERVAL_MS;
+      announcementTimerRef.current = setInterval(nextAnnouncement, interval);
+  }, [nextAnnouncement, isHoldingAnnouncement]);
+
+  const handleAnnouncementVideoEnded = () => {
+      nextAnnouncement();
+      setAnnouncementCycle(prev => prev + 1);
+      resetAnnouncementTimer();
+  };
+
+  useEffect(() => {
+      if (announcementIndex >= activeAnnouncements.length) setAnnouncementIndex(0);
+  }, [announcementIndex, activeAnnouncements.length]);
 
   useEffect(() => {
       resetAnnouncementTimer();
@@ -163,7 +272,11 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
       setCurrentViewIndex(prev => (direction === 'next' ? (prev + 1) % totalViews : (prev - 1 + totalViews) % totalViews));
   };
 
-  const theme = data.theme;
+  const theme = useMemo(() => getActiveTheme(data, new Date(currentMinute * 60000)), [data, currentMinute]);
+  const themeTokens = resolveThemeTokens(theme);
+  // Tailwind's px-10 / py-6 / pb-8 in rem, stretched by the theme's spacing scale
+  const rootFontPx = themeTokens.baseFont * themeTokens.uiScale;
+  const spacing = (rem: number) => rem * rootFontPx * themeTokens.spacingScale;
 
   const getWeatherIcon = (code: number, className: string) => {
     if (code <= 1) return <Sun className={className} />;
@@ -175,23 +288,9 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
   }
 
   const visibleEvents = useMemo(() => {
-    const start = eventSetIndex * EVENTS_PER_SET;
-    return data.events.slice(start, start + EVENTS_PER_SET);
-  }, [data.events, eventSetIndex]);
-
-  const TickerContent = () => (
-    <div className="flex gap-16 items-center px-6">
-        {data.tickerItems.map((item, idx) => (
-            <React.Fragment key={idx}>
-                <span className="flex items-center gap-4 whitespace-nowrap">
-                    {idx === 0 && <AlertCircle className="w-5 h-5 fill-current shrink-0" style={{color: 'var(--accent-color)'}} />}
-                    <span className="font-bold text-[clamp(1rem,1.4vw,1.3rem)]">{item}</span>
-                </span>
-                <span className="w-2 h-2 rounded-full opacity-30 shrink-0" style={{backgroundColor: 'var(--accent-color)'}}></span>
-            </React.Fragment>
-        ))}
-    </div>
-  );
+    const start = (eventSetIndex % Math.max(totalEventSets, 1)) * EVENTS_PER_SET;
+    return eventRows.slice(start, start + EVENTS_PER_SET);
+  }, [eventRows, eventSetIndex, totalEventSets]);
 
   return (
     <div 
@@ -202,6 +301,9 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
       }}
     >
       
+      {data.emergency?.active && <EmergencyOverlay alert={data.emergency} />}
+      {weatherTakeover && <EmergencyOverlay alert={toEmergencyAlert(weatherTakeover, alertConfig)} />}
+
       <div className="absolute top-[-20%] right-[-10%] w-[60vw] h-[60vw] rounded-full blur-[120px] animate-pulse opacity-10 -z-10" style={{backgroundColor: 'var(--accent-color)'}}></div>
 
       <button onClick={onExit} className="fixed top-4 right-4 z-50 p-3 rounded-full bg-white/5 text-white/30 border border-white/10 hover:bg-white/10 transition-colors group">
@@ -228,7 +330,7 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
         </div>
       )}
 
-      <header className="flex justify-between items-center px-10 py-6 shrink-0 z-20 h-auto">
+      <header className="flex justify-between items-center shrink-0 z-20 h-auto" style={{ padding: `${spacing(1.5)}px ${spacing(2.5)}px` }}>
         <div className="flex items-center gap-6">
           {theme.logoUrl ? (
               <img src={theme.logoUrl} className="h-16 w-auto object-contain" alt="Logo" />
@@ -239,6 +341,21 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
               <h1 className="text-[clamp(1.5rem,3vw,2.5rem)] font-black tracking-tight leading-none drop-shadow-lg">{data.schoolName}</h1>
           </div>
         </div>
+        {bellStatus && bellStatus.state !== 'no_school' && (
+            <div className="glass-panel px-8 py-3 rounded-3xl border flex items-center gap-6 shadow-2xl" style={{ borderColor: 'var(--glass-border)' }}>
+                <Bell className="w-6 h-6 opacity-70" />
+                <div className="flex flex-col">
+                    <span className="text-[10px] font-black uppercase tracking-[0.2em] opacity-60">{BELL_STATE_LABELS[bellStatus.state]}</span>
+                    <span className="text-xl font-black tracking-tight leading-none">{bellStatus.current?.name || (bellStatus.next ? `Next: ${bellStatus.next.name}` : bellStatus.schedule?.name)}</span>
+                </div>
+                {bellStatus.countdownTo && (
+                    <span className="text-3xl font-black tabular-nums tracking-tighter" style={{color: 'var(--accent-color)'}}>{formatCountdown(bellStatus.countdownTo, currentTime)}</span>
+                )}
+                {bellStatus.current && bellStatus.next && (
+                    <span className="text-xs font-bold uppercase tracking-widest opacity-60">Then {bellStatus.next.name}</span>
+                )}
+            </div>
+        )}
         <div className="text-right flex flex-col justify-center">
             <div className="text-[clamp(2.5rem,5.5vw,4.5rem)] font-black tracking-tighter tabular-nums leading-none drop-shadow-lg">
                 {currentTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
@@ -275,7 +392,7 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
          </div>
       </div>
 
-      <main className="flex-1 min-0 relative w-full px-10 pb-8 overflow-hidden flex flex-col">
+      <main className="flex-1 min-0 relative w-full overflow-hidden flex flex-col" style={{ padding: `0 ${spacing(2.5)}px ${spacing(2)}px` }}>
         <div className="h-full flex transition-transform duration-[800ms] cubic-bezier(0.25, 1, 0.5, 1) min-h-0 will-change-transform" 
              style={{ width: `${totalViews * 100}%`, transform: `translate3d(-${(currentViewIndex / totalViews) * 100}%, 0, 0)` }}>
             
@@ -287,7 +404,17 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
                     <div className="absolute inset-0 transition-opacity duration-500 ease-in-out">
                          {activeAnnouncements[announcementIndex] ? (
                              <>
-                                {activeAnnouncements[announcementIndex].imageUrl ? (
+                                {currentAnnouncement.type === 'video' && currentAnnouncement.video?.url ? (
+                                    <>
+                                        <VideoPlayer
+                                          key={`${currentAnnouncement.id}-${announcementCycle}`}
+                                          video={currentAnnouncement.video}
+                                          active={currentViewIndex === IS_HOME}
+                                          onEnded={isHoldingAnnouncement ? handleAnnouncementVideoEnded : undefined}
+                                        />
+                                        <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/40 to-transparent" />
+                                    </>
+                                ) : activeAnnouncements[announcementIndex].imageUrl ? (
                                     <>
                                         <img src={activeAnnouncements[announcementIndex].imageUrl} className="w-full h-full object-cover" alt="Hero" />
                                         <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/40 to-transparent" />
@@ -354,23 +481,28 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
                         </div>
                         <div className="flex-1 overflow-hidden min-h-0 relative">
                              <div className="flex flex-col gap-2 transition-all duration-700 ease-in-out animate-in fade-in slide-in-from-bottom-4" key={eventSetIndex}>
-                                {visibleEvents.map(evt => (
-                                    <div key={evt.id} className="flex gap-8 items-center py-5 px-3 border-b border-white/5 last:border-0 group hover:bg-white/5 rounded-3xl transition-colors">
-                                        <div className="w-24 h-24 rounded-3xl bg-white/5 flex flex-col items-center justify-center shrink-0 border border-white/5 group-hover:bg-white/10 transition-colors shadow-inner">
-                                            <span className="text-sm font-black uppercase tracking-widest leading-none mb-1" style={{color: 'var(--accent-color)'}}>{new Date(evt.date).toLocaleDateString('en-US', {weekday:'short'}).toUpperCase()}</span>
-                                            <span className="text-5xl font-black leading-none tracking-tighter">{new Date(evt.date).getDate()}</span>
-                                        </div>
-                                        <div className="min-w-0 flex-1">
-                                            <h4 className="text-3xl font-black truncate leading-none mb-2 group-hover:text-blue-300 transition-colors tracking-tight">{evt.title}</h4>
-                                            <div className="flex items-center gap-4 opacity-50 text-sm font-bold uppercase tracking-wider">
-                                                <div className="flex items-center gap-1.5"><Clock className="w-4 h-4"/> {evt.time}</div>
-                                                <span className="w-1.5 h-1.5 rounded-full bg-white/40"></span>
-                                                <span className="truncate" style={{color: 'var(--accent-color)'}}>{evt.category}</span>
+                                {visibleEvents.map(({ event: evt, group }, i) => (
+                                    <React.Fragment key={evt.id}>
+                                        {(i === 0 || visibleEvents[i - 1].group !== group) && (
+                                            <span className="text-[10px] font-black uppercase tracking-[0.3em] opacity-40 px-3 pt-2">{group}</span>
+                                        )}
+                                        <div className="flex gap-8 items-center py-5 px-3 border-b border-white/5 last:border-0 group hover:bg-white/5 rounded-3xl transition-colors">
+                                            <div className="w-24 h-24 rounded-3xl bg-white/5 flex flex-col items-center justify-center shrink-0 border border-white/5 group-hover:bg-white/10 transition-colors shadow-inner">
+                                                <span className="text-sm font-black uppercase tracking-widest leading-none mb-1" style={{color: 'var(--accent-color)'}}>{getEventDay(evt, eventTimeZone).weekday}</span>
+                                                <span className="text-5xl font-black leading-none tracking-tighter">{getEventDay(evt, eventTimeZone).day}</span>
+                                            </div>
+                                            <div className="min-w-0 flex-1">
+                                                <h4 className="text-3xl font-black truncate leading-none mb-2 group-hover:text-blue-300 transition-colors tracking-tight">{evt.title}</h4>
+                                                <div className="flex items-center gap-4 opacity-50 text-sm font-bold uppercase tracking-wider">
+                                                    <div className="flex items-center gap-1.5"><Clock className="w-4 h-4"/> {formatEventTime(evt, eventTimeZone)}</div>
+                                                    <span className="w-1.5 h-1.5 rounded-full bg-white/40"></span>
+                                                    <span className="truncate" style={{color: 'var(--accent-color)'}}>{evt.category}</span>
+                                                </div>
                                             </div>
                                         </div>
-                                    </div>
+                                    </React.Fragment>
                                 ))}
-                                {data.events.length === 0 && <div className="text-white/20 text-center py-10 font-bold text-xl">No Events Scheduled</div>}
+                                {eventRows.length === 0 && <div className="text-white/20 text-center py-10 font-bold text-xl">No Events Scheduled</div>}
                             </div>
                         </div>
                     </div>
@@ -382,7 +514,8 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
                         <div className="flex justify-between items-start shrink-0 z-10">
                              <div className="flex flex-col">
                                 <span className="text-[10px] font-black opacity-40 uppercase tracking-[0.3em] mb-1">{data.weatherConfig.city.toUpperCase()}</span>
-                                <span className="text-[clamp(3.5rem,6vw,5.5rem)] font-black tracking-tighter leading-none">{weather?.current.temp || '--'}°</span>
+                                <span className="text-[clamp(3.5rem,6vw,5.5rem)] font-black tracking-tighter leading-none">{weather ? weather.current.temp : '--'}{TEMPERATURE_UNIT_LABELS[temperatureUnit || 'fahrenheit']}</span>
+                                {weather && <span className="text-[10px] font-black opacity-40 uppercase tracking-[0.3em] mt-2">Wind {weather.current.windSpeed} {WIND_UNIT_LABELS[windUnit || 'mph']}</span>}
                              </div>
                              <div className="p-4 bg-white/5 rounded-2xl border border-white/5 shadow-lg backdrop-blur-sm">
                                 {weather ? getWeatherIcon(weather.current.code, "w-10 h-10 text-yellow-400") : <Sun className="w-10 h-10 opacity-10 animate-pulse" />}
@@ -390,11 +523,11 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
                         </div>
                         
                         <div className="grid grid-cols-3 gap-4 mt-6 flex-1 min-h-0 z-10">
-                            {weather?.daily.map((day, i) => (
+                            {weather && getForecastSlots(weather, data.weatherConfig).map((slot, i) => (
                                 <div key={i} className="flex flex-col items-center justify-center p-4 rounded-3xl bg-white/5 border border-white/5 shadow-sm h-full">
-                                    <span className="text-[11px] font-black opacity-50 uppercase mb-2 tracking-widest">{new Date(day.date).toLocaleDateString('en-US', {weekday:'short'}).toUpperCase()}</span>
-                                    {getWeatherIcon(day.code, "w-10 h-10 mb-2 opacity-90 text-white")}
-                                    <span className="text-xl font-black">{day.max}°</span>
+                                    <span className="text-[11px] font-black opacity-50 uppercase mb-2 tracking-widest">{slot.label.toUpperCase()}</span>
+                                    {getWeatherIcon(slot.code, "w-10 h-10 mb-2 opacity-90 text-white")}
+                                    <span className="text-xl font-black">{slot.temp}°</span>
                                 </div>
                             ))}
                         </div>
@@ -406,14 +539,33 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
                 </div>
             </div>
 
-            {enabledPages.map(page => (
+            {enabledPages.map((page, pageIndex) => (
                 <div key={page.id} className="w-full h-full shrink-0 flex min-h-0 min-w-0 px-2" style={{ width: `${100 / totalViews}%` }}>
                     {page.type === 'grid' && page.layout ? (
-                        <GridRenderer key={page.id} layout={page.layout} widgets={page.widgets || {}} appData={data} width={windowWidth - 80} />
+                        <GridRenderer
+                          key={page.id}
+                          layout={page.layout}
+                          widgets={page.widgets || {}}
+                          appData={data}
+                          width={windowWidth - 2 * spacing(2.5)}
+                          gap={Math.round(20 * themeTokens.spacingScale)}
+                          isActive={currentViewIndex === pageIndex + 1}
+                          onVideoEnded={(widgetId) => handlePageVideoEnded(page.id, widgetId)}
+                        />
                     ) : (
-                        <div className="w-full flex gap-8">
+                        <div className="w-full flex gap-8 relative">
+                            {page.backgroundVideo?.url && (
+                                <div className="absolute inset-0 rounded-[2.5rem] overflow-hidden">
+                                    <VideoPlayer
+                                      video={page.backgroundVideo}
+                                      active={currentViewIndex === pageIndex + 1}
+                                      onEnded={() => handlePageVideoEnded(page.id, 'background')}
+                                    />
+                                    <div className="absolute inset-0 bg-black" style={{ opacity: 'var(--overlay-opacity)' }} />
+                                </div>
+                            )}
                             <div 
-                              className="flex-[1.6] glass-panel rounded-[2.5rem] p-16 flex flex-col justify-center border shadow-3xl min-w-0"
+                              className="relative flex-[1.6] glass-panel rounded-[2.5rem] p-16 flex flex-col justify-center border shadow-3xl min-w-0"
                               style={{ borderColor: 'var(--glass-border)' }}
                             >
                                 <h2 className="text-[clamp(3.5rem,6vw,5.5rem)] font-black leading-tight mb-10 tracking-tight">{page.title}</h2>
@@ -422,7 +574,7 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
                                 </div>
                             </div>
                             <div 
-                              className="flex-1 glass-panel rounded-[2.5rem] overflow-hidden border shadow-3xl shrink-0"
+                              className="relative flex-1 glass-panel rounded-[2.5rem] overflow-hidden border shadow-3xl shrink-0"
                               style={{ borderColor: 'var(--glass-border)' }}
                             >
                                 {page.imageUrl && <img src={page.imageUrl} className="w-full h-full object-cover" alt="Page" />}
@@ -431,16 +583,29 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
                     )}
                 </div>
             ))}
+
+            {showLiveCam && (
+                <div className="w-full h-full shrink-0 flex min-h-0 min-w-0 px-2" style={{ width: `${100 / totalViews}%` }}>
+                    <div className="w-full glass-panel rounded-[2.5rem] overflow-hidden border shadow-3xl" style={{ borderColor: 'var(--glass-border)' }}>
+                        <LiveCamView urls={data.liveCamUrls} refreshSeconds={data.liveCamRefreshSeconds} active={currentViewIndex === liveCamViewIndex} />
+                    </div>
+                </div>
+            )}
         </div>
       </main>
 
       <footer className="flex flex-col shrink-0 z-40 bg-black/80 backdrop-blur-xl border-t border-white/10 mt-auto">
-         <div className="h-16 w-full relative overflow-hidden flex items-center">
-            <div className="flex w-max animate-marquee items-center">
-                <TickerContent />
-                <TickerContent />
-                <TickerContent />
+         {bannerAlerts.length > 0 && (
+            <div className="w-full bg-red-600 text-white flex items-center gap-4 px-6 py-3 border-b border-red-800">
+                <ShieldAlert className="w-6 h-6 shrink-0 animate-pulse" />
+                <span className="px-3 py-1 rounded-full bg-white text-red-700 text-[10px] font-black uppercase tracking-[0.3em] shrink-0">{bannerAlerts[0].event}</span>
+                <span className="font-black text-[clamp(1rem,1.4vw,1.3rem)] truncate flex-1">{getAlertMessage(bannerAlerts[0], alertConfig)}</span>
+                {bannerAlerts[0].expires && <span className="text-[10px] font-black uppercase tracking-widest opacity-70 shrink-0">Until {new Date(bannerAlerts[0].expires).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}</span>}
+                {bannerAlerts.length > 1 && <span className="text-[10px] font-black uppercase tracking-widest opacity-70 shrink-0">+{bannerAlerts.length - 1} more</span>}
             </div>
+         )}
+         <div className="h-16 w-full">
+            <TickerBar items={tickerItems} customWidgets={data.customWidgets} speed={data.tickerSpeed || DEFAULT_TICKER_SPEED} />
         </div>
         <div className="h-6 w-full bg-black/40 flex items-center justify-between px-6 text-[10px] font-bold text-white/30 uppercase tracking-widest border-t border-white/5">
              <div className="flex items-center gap-3">
@@ -455,8 +620,6 @@ const KioskView: React.FC<KioskViewProps> = ({ onExit }) => {
       </footer>
       
       <style>{`
-        .animate-marquee { animation: marquee 60s linear infinite; }
-        @keyframes marquee { 0% { transform: translateX(0); } 100% { transform: translateX(-50%); } }
         html, body { overflow-x: hidden !important; background-color: #000; }
       `}</style>
     </div>
@@ -0,0 +1,120 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { VideoOff } from 'lucide-react';
+import type Hls from 'hls.js';
+import { getFeedType, withCacheBuster, FEED_RETRY_MS } from '../services/liveCamService';
+
+interface LiveCamFeedProps {
+  url: string;
+  refreshSeconds: number;
+  active?: boolean;
+  label?: string;
+}
+
+const FeedOffline: React.FC<{ label?: string }> = ({ label }) => (
+  <div className="w-full h-full flex flex-col items-center justify-center bg-black/60 text-white/40 text-center p-6">
+    <VideoOff className="w-12 h-12 mb-4 opacity-60" />
+    <span className="text-sm font-black uppercase tracking-[0.3em]">Feed Offline</span>
+    {label && <span className="text-[10px] font-bold uppercase tracking-widest mt-2 opacity-60">{label}</span>}
+  </div>
+);
+
+/**
+ * Refreshing snapshot camera. The next frame is preloaded off-screen so the image never flashes blank.
+ */
+const SnapshotFeed: React.FC<LiveCamFeedProps & { onFail: () => void }> = ({ url, refreshSeconds, active, onFail }) => {
+  const [src, setSrc] = useState(() => withCacheBuster(url, Date.now()));
+
+  useEffect(() => {
+    if (!active) return;
+    const load = () => {
+      const next = withCacheBuster(url, Date.now());
+      const img = new Image();
+      img.onload = () => setSrc(next);
+      img.onerror = onFail;
+      img.src = next;
+    };
+    load();
+    const timer = setInterval(load, refreshSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [url, refreshSeconds, active, onFail]);
+
+  return <img src={src} className="w-full h-full object-cover" alt="Live camera" onError={onFail} />;
+};
+
+const HlsFeed: React.FC<{ url: string; active?: boolean; onFail: () => void }> = ({ url, active, onFail }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !active) return;
+    video.muted = true;
+
+    // Safari and most TV browsers play HLS natively
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = url;
+      video.play().catch(() => {});
+      return () => { video.removeAttribute('src'); video.load(); };
+    }
+
+    let hls: Hls | null = null;
+    let cancelled = false;
+    import('hls.js').then(({ default: Hls }) => {
+      if (cancelled) return;
+      if (!Hls.isSupported()) {
+        onFail();
+        return;
+      }
+      hls = new Hls({ liveDurationInfinity: true });
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (data.fatal) onFail();
+      });
+      hls.loadSource(url);
+      hls.attachMedia(video);
+      video.play().catch(() => {});
+    }).catch(onFail);
+
+    return () => {
+      cancelled = true;
+      hls?.destroy();
+    };
+  }, [url, active, onFail]);
+
+  return <video ref={videoRef} muted playsInline autoPlay className="w-full h-full object-cover" onError={onFail} />;
+};
+
+/**
+ * Renders a single camera as a refreshing snapshot, MJPEG stream or HLS stream,
+ * falling back to a "feed offline" placeholder and retrying periodically.
+ */
+const LiveCamFeed: React.FC<LiveCamFeedProps> = ({ url, refreshSeconds, active = true, label }) => {
+  const [offline, setOffline] = useState(false);
+  // Remounting the feed is the retry
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    setOffline(false);
+  }, [url]);
+
+  useEffect(() => {
+    if (!offline || !active) return;
+    const retry = setTimeout(() => {
+      setOffline(false);
+      setAttempt(prev => prev + 1);
+    }, FEED_RETRY_MS);
+    return () => clearTimeout(retry);
+  }, [offline, active]);
+
+  const handleFail = useCallback(() => setOffline(true), []);
+
+  if (!url || offline) return <FeedOffline label={label} />;
+
+  const feedType = getFeedType(url);
+  const key = `${url}-${attempt}`;
+  if (feedType === 'hls') return <HlsFeed key={key} url={url} active={active} onFail={handleFail} />;
+  // MJPEG streams are multipart responses the browser renders natively; only mount them while visible.
+  // The cache buster keeps the service worker from trying to cache an endless response.
+  if (feedType === 'mjpeg') return active ? <img key={key} src={withCacheBuster(url, attempt)} className="w-full h-full object-cover" alt="Live camera" onError={handleFail} /> : <div className="w-full h-full bg-black" />;
+  return <SnapshotFeed key={key} url={url} refreshSeconds={refreshSeconds} active={active} onFail={handleFail} />;
+};
+
+export default LiveCamFeed;
@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { Camera } from 'lucide-react';
+import LiveCamFeed from './LiveCamFeed';
+import { CAMERA_CYCLE_SECONDS, DEFAULT_SNAPSHOT_REFRESH_SECONDS } from '../services/liveCamService';
+
+interface LiveCamViewProps {
+  urls: string[];
+  refreshSeconds?: number;
+  active?: boolean;
+  compact?: boolean;
+}
+
+/**
+ * Shows one camera at a time, cycling through the configured feeds.
+ */
+const LiveCamView: React.FC<LiveCamViewProps> = ({ urls, refreshSeconds = DEFAULT_SNAPSHOT_REFRESH_SECONDS, active = true, compact }) => {
+  const feeds = urls.filter(url => url.trim());
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    if (index >= feeds.length) setIndex(0);
+  }, [index, feeds.length]);
+
+  useEffect(() => {
+    if (!active || feeds.length <= 1) return;
+    const timer = setInterval(() => setIndex(prev => (prev + 1) % feeds.length), CAMERA_CYCLE_SECONDS * 1000);
+    return () => clearInterval(timer);
+  }, [active, feeds.length]);
+
+  if (feeds.length === 0) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center text-white/30 text-center">
+        <Camera className="w-8 h-8 mb-2 opacity-50" />
+        <span className="text-[10px] font-bold uppercase tracking-widest">No Cameras Configured</span>
+      </div>
+    );
+  }
+
+  const label = `Camera ${Math.min(index, feeds.length - 1) + 1} of ${feeds.length}`;
+
+  return (
+    <div className="w-full h-full relative bg-black">
+      <LiveCamFeed url={feeds[Math.min(index, feeds.length - 1)]} refreshSeconds={refreshSeconds} active={active} label={label} />
+      <div className={`absolute flex items-center gap-2 rounded-full bg-black/60 backdrop-blur-md border border-white/10 font-black uppercase ${compact ? 'top-3 left-3 px-3 py-1 text-[9px] tracking-widest' : 'top-6 left-6 px-5 py-2 text-xs tracking-[0.25em]'}`}>
+        <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+        Live · {label}
+      </div>
+    </div>
+  );
+};
+
+export default LiveCamView;
@@ -0,0 +1,195 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { MediaAsset, MediaKind } from '../types';
+import { listMedia, uploadMedia, updateMediaTags, deleteMedia, getMaxUploadMb } from '../services/mediaService';
+import { FileUp, Loader2, Trash2, Music, Film, File as FileIcon, Search, X, Plus, CheckCircle } from 'lucide-react';
+
+interface MediaLibraryProps {
+  tenantId: string;
+  kind?: MediaKind;
+  readOnly?: boolean;
+  onSelect?: (asset: MediaAsset) => void;
+}
+
+const ACCEPT_BY_KIND: Record<MediaKind, string> = {
+  image: 'image/*',
+  audio: 'audio/*',
+  video: 'video/*',
+  other: '*/*'
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/**
+ * Browse, upload, tag and delete a tenant's media. When `onSelect` is given it doubles as a picker.
+ */
+const MediaLibrary: React.FC<MediaLibraryProps> = ({ tenantId, kind, readOnly, onSelect }) => {
+  const [assets, setAssets] = useState<MediaAsset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [uploadCount, setUploadCount] = useState(0);
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setAssets(await listMedia(tenantId));
+    setIsLoading(false);
+  }, [tenantId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const allTags = useMemo(() => Array.from(new Set(assets.flatMap(a => a.tags))).sort(), [assets]);
+
+  const visibleAssets = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return assets.filter(a =>
+      (!kind || a.kind === kind) &&
+      (!activeTag || a.tags.includes(activeTag)) &&
+      (!q || a.name.toLowerCase().includes(q) || a.tags.some(t => t.toLowerCase().includes(q)))
+    );
+  }, [assets, kind, activeTag, query]);
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const accepted = Array.from(files).filter(file => {
+      const maxMb = getMaxUploadMb(file.type);
+      if (file.size > maxMb * 1024 * 1024) {
+        alert(`${file.name} is too large. Maximum size is ${maxMb}MB.`);
+        return false;
+      }
+      return true;
+    });
+
+    setUploadCount(accepted.length);
+    for (const file of accepted) {
+      try {
+        const asset = await uploadMedia(file, tenantId, activeTag ? [activeTag] : []);
+        setAssets(prev => [asset, ...prev]);
+      } catch (error) {
+        console.error('Media upload failed:', error);
+        alert(`Could not upload ${file.name}. Check console.`);
+      } finally {
+        setUploadCount(count => count - 1);
+      }
+    }
+  };
+
+  const setTags = async (asset: MediaAsset, tags: string[]) => {
+    const previous = asset.tags;
+    setAssets(prev => prev.map(a => a.id === asset.id ? { ...a, tags } : a));
+    try {
+      await updateMediaTags(asset.id, tags);
+    } catch (error) {
+      setAssets(prev => prev.map(a => a.id === asset.id ? { ...a, tags: previous } : a));
+      alert('Could not update tags. Check console.');
+    }
+  };
+
+  const addTag = (asset: MediaAsset) => {
+    const tag = window.prompt('Add tag:')?.trim().toLowerCase();
+    if (!tag || asset.tags.includes(tag)) return;
+    setTags(asset, [...asset.tags, tag]);
+  };
+
+  const handleDelete = async (asset: MediaAsset) => {
+    if (!window.confirm(`Delete ${asset.name}? Screens still using it will show a broken image.`)) return;
+    try {
+      await deleteMedia(asset);
+      setAssets(prev => prev.filter(a => a.id !== asset.id));
+    } catch (error) {
+      console.error('Media delete failed:', error);
+      alert('Could not delete asset. Check console.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 flex items-center gap-2 bg-slate-50 px-4 py-2 rounded-xl border border-slate-200">
+          <Search className="w-4 h-4 text-slate-400" />
+          <input className="flex-1 bg-transparent border-none p-0 text-sm font-bold focus:ring-0" placeholder="Search by name or tag" value={query} onChange={(e) => setQuery(e.target.value)} />
+        </div>
+        {!readOnly && (
+          <label className={`px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2 cursor-pointer hover:bg-slate-800 ${uploadCount > 0 ? 'opacity-60 pointer-events-none' : ''}`}>
+            {uploadCount > 0 ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />}
+            {uploadCount > 0 ? `Uploading ${uploadCount}` : 'Upload'}
+            <input type="file" multiple className="hidden" accept={kind ? ACCEPT_BY_KIND[kind] : undefined} onChange={(e) => { handleUpload(e.target.files); e.target.value = ''; }} />
+          </label>
+        )}
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {allTags.map(tag => (
+            <button key={tag} onClick={() => setActiveTag(activeTag === tag ? null : tag)} className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${activeTag === tag ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16"><Loader2 className="w-6 h-6 animate-spin text-slate-400" /></div>
+      ) : (
+        <div className="grid grid-cols-4 gap-4">
+          {visibleAssets.map(asset => (
+            <div key={asset.id} className="rounded-2xl bg-slate-50 border border-slate-100 overflow-hidden group">
+              <button
+                type="button"
+                disabled={!onSelect}
+                onClick={() => onSelect?.(asset)}
+                className="w-full h-32 bg-slate-200 flex items-center justify-center relative disabled:cursor-default"
+              >
+                {asset.kind === 'image' ? (
+                  <img src={asset.thumbnailUrl || asset.url} className="w-full h-full object-cover" alt={asset.name} />
+                ) : asset.kind === 'audio' ? (
+                  <Music className="w-10 h-10 text-slate-400" />
+                ) : asset.kind === 'video' ? (
+                  <Film className="w-10 h-10 text-slate-400" />
+                ) : (
+                  <FileIcon className="w-10 h-10 text-slate-400" />
+                )}
+                {onSelect && (
+                  <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 flex items-center justify-center gap-2 text-white text-[9px] font-black uppercase transition-opacity">
+                    <CheckCircle className="w-4 h-4" /> Use
+                  </div>
+                )}
+              </button>
+              <div className="p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-xs font-bold text-slate-700 truncate" title={asset.name}>{asset.name}</p>
+                    <p className="text-[9px] font-black uppercase text-slate-400 tracking-widest">
+                      {formatSize(asset.size)}{asset.width && asset.height ? ` · ${asset.width}×${asset.height}` : ''}
+                    </p>
+                  </div>
+                  {!readOnly && (
+                    <button onClick={() => handleDelete(asset)} className="p-1 text-slate-300 hover:text-red-500 transition-colors shrink-0"><Trash2 className="w-3.5 h-3.5" /></button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {asset.tags.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 bg-white border border-slate-200 rounded text-[9px] font-bold text-slate-500 flex items-center gap-1">
+                      {tag}
+                      {!readOnly && <button onClick={() => setTags(asset, asset.tags.filter(t => t !== tag))} className="hover:text-red-500"><X className="w-2.5 h-2.5" /></button>}
+                    </span>
+                  ))}
+                  {!readOnly && (
+                    <button onClick={() => addTag(asset)} className="px-2 py-0.5 rounded text-[9px] font-black uppercase text-slate-400 hover:bg-slate-100 flex items-center gap-1"><Plus className="w-2.5 h-2.5" /> Tag</button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+          {visibleAssets.length === 0 && (
+            <p className="col-span-4 text-xs font-bold text-slate-400 uppercase tracking-widest text-center py-16">No media yet</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaLibrary;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { ScheduleRule } from '../types';
+import { WEEKDAY_LABELS } from '../services/scheduleService';
+
+interface ScheduleRuleEditorProps {
+  rule?: ScheduleRule;
+  onChange: (rule: ScheduleRule | undefined) => void;
+  showDateRange?: boolean;
+}
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const WEEKEND = [0, 6];
+
+/**
+ * Compact editor for a recurring schedule: days of week, a daily time window and
+ * an optional date range. An empty rule is reported as `undefined` (always on).
+ */
+const ScheduleRuleEditor: React.FC<ScheduleRuleEditorProps> = ({ rule, onChange, showDateRange }) => {
+  const update = (patch: Partial<ScheduleRule>) => {
+    const next: ScheduleRule = { ...(rule || {}), ...patch };
+    (Object.keys(next) as Array<keyof ScheduleRule>).forEach(key => {
+      const value = next[key];
+      if (value === '' || value === undefined || (Array.isArray(value) && value.length === 0)) delete next[key];
+    });
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const days = rule?.days || [];
+  const toggleDay = (day: number) =>
+    update({ days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest w-20">Repeat</span>
+        {WEEKDAY_LABELS.map((label, day) => (
+          <button
+            key={label}
+            type="button"
+            onClick={() => toggleDay(day)}
+            className={`w-10 py-1.5 rounded-lg text-[10px] font-black uppercase transition-colors ${days.includes(day) ? 'bg-slate-900 text-white' : 'bg-white text-slate-400 border border-slate-200'}`}
+          >
+            {label}
+          </button>
+        ))}
+        <button type="button" onClick={() => update({ days: WEEKDAYS })} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase text-slate-500 hover:bg-slate-100">Weekdays</button>
+        <button type="button" onClick={() => update({ days: WEEKEND })} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase text-slate-500 hover:bg-slate-100">Weekends</button>
+        <button type="button" onClick={() => update({ days: [] })} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase text-slate-500 hover:bg-slate-100">Every Day</button>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest w-20">Hours</span>
+        <input type="time" className="bg-white px-3 py-1.5 rounded-lg border border-slate-200 text-xs font-bold" value={rule?.startTime || ''} onChange={(e) => update({ startTime: e.target.value })} />
+        <span className="text-xs text-slate-400">to</span>
+        <input type="time" className="bg-white px-3 py-1.5 rounded-lg border border-slate-200 text-xs font-bold" value={rule?.endTime || ''} onChange={(e) => update({ endTime: e.target.value })} />
+      </div>
+      {showDateRange && (
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest w-20">Dates</span>
+          <input type="date" className="bg-white px-3 py-1.5 rounded-lg border border-slate-200 text-xs font-bold" value={rule?.fromDate || ''} onChange={(e) => update({ fromDate: e.target.value })} />
+          <span className="text-xs text-slate-400">to</span>
+          <input type="date" className="bg-white px-3 py-1.5 rounded-lg border border-slate-200 text-xs font-bold" value={rule?.toDate || ''} onChange={(e) => update({ toDate: e.target.value })} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScheduleRuleEditor;
@@ -0,0 +1,74 @@
+import React, { useMemo } from 'react';
+import { getLiveWindows, WEEKDAY_LABELS } from '../services/scheduleService';
+
+export interface TimelineRow {
+  id: string;
+  label: string;
+  isLive: (at: Date) => boolean;
+}
+
+interface ScheduleTimelineProps {
+  rows: TimelineRow[];
+  days?: number;
+}
+
+/**
+ * Admin preview of when scheduled items will be on screen over the coming days.
+ */
+const ScheduleTimeline: React.FC<ScheduleTimelineProps> = ({ rows, days = 7 }) => {
+  const rangeStart = useMemo(() => {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    return start;
+  }, []);
+  const rangeMs = days * 24 * 60 * 60 * 1000;
+
+  const timeline = useMemo(
+    () => rows.map(row => ({ ...row, windows: getLiveWindows(row.isLive, rangeStart, days) })),
+    [rows, rangeStart, days]
+  );
+
+  const nowOffset = ((Date.now() - rangeStart.getTime()) / rangeMs) * 100;
+
+  return (
+    <div className="p-6 bg-slate-50 rounded-[2rem] border border-slate-100">
+      <div className="flex mb-3 pl-40">
+        {Array.from({ length: days }).map((_, i) => {
+          const day = new Date(rangeStart.getTime() + i * 24 * 60 * 60 * 1000);
+          return (
+            <div key={i} className="flex-1 text-[9px] font-black uppercase tracking-widest text-slate-400 border-l border-slate-200 pl-1">
+              {WEEKDAY_LABELS[day.getDay()]} {day.getDate()}
+            </div>
+          );
+        })}
+      </div>
+      <div className="space-y-2">
+        {timeline.map(row => (
+          <div key={row.id} className="flex items-center">
+            <div className="w-40 pr-4 text-xs font-bold text-slate-600 truncate shrink-0">{row.label}</div>
+            <div className="flex-1 h-5 bg-white rounded-md border border-slate-200 relative overflow-hidden">
+              {row.windows.map((w, i) => (
+                <div
+                  key={i}
+                  className="absolute top-0 bottom-0 rounded-sm"
+                  title={`${w.start.toLocaleString()} – ${w.end.toLocaleString()}`}
+                  style={{
+                    left: `${((w.start.getTime() - rangeStart.getTime()) / rangeMs) * 100}%`,
+                    width: `${((w.end.getTime() - w.start.getTime()) / rangeMs) * 100}%`,
+                    backgroundColor: 'var(--accent-color)'
+                  }}
+                />
+              ))}
+              <div className="absolute top-0 bottom-0 w-px bg-red-500" style={{ left: `${nowOffset}%` }} />
+            </div>
+          </div>
+        ))}
+        {timeline.length === 0 && (
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-widest text-center py-4">Nothing scheduled</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleTimeline;
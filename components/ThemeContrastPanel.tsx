@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { ColorVisionDeficiency, ContrastCheck, Theme } from '../types';
+import { checkThemeContrast, CVD_LABELS, CVD_MATRICES, suggestThemeColors } from '../services/themeValidationService';
+import { AlertTriangle, CheckCircle, Eye, Wand2 } from 'lucide-react';
+
+interface ThemeContrastPanelProps {
+  theme: Theme;
+  schoolName: string;
+  onApply: (changes: Partial<Theme>) => void;
+}
+
+const Badge: React.FC<{ level: string; pass: boolean }> = ({ level, pass }) => (
+  <span className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest ${pass ? 'bg-green-50 text-green-600' : 'bg-red-50 text-red-600'}`}>{level} {pass ? 'Pass' : 'Fail'}</span>
+);
+
+const filterMatrix = (m: number[]) =>
+  [0, 1, 2].map(row => `${m[row * 3]} ${m[row * 3 + 1]} ${m[row * 3 + 2]} 0 0`).join(' ') + ' 0 0 0 1 0';
+
+const SuggestionButton: React.FC<{ label: string; changes: Partial<Theme>; onApply: (changes: Partial<Theme>) => void }> = ({ label, changes, onApply }) => (
+  <button onClick={() => onApply(changes)} className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 flex items-center gap-2 hover:bg-slate-50">
+    <Wand2 className="w-3.5 h-3.5" /> {label}
+    {Object.entries(changes).map(([field, color]) => (
+      <span key={field} className="w-4 h-4 rounded-full border border-slate-300" style={{ backgroundColor: color as string }} title={`${field}: ${color}`} />
+    ))}
+  </button>
+);
+
+/**
+ * Visual Theme tab: WCAG contrast of the theme's color pairings, suggested fixes, and a kiosk
+ * mock-up seen through simulated color vision deficiencies.
+ */
+const ThemeContrastPanel: React.FC<ThemeContrastPanelProps> = ({ theme, schoolName, onApply }) => {
+  const [vision, setVision] = useState<ColorVisionDeficiency | ''>('');
+  const checks = checkThemeContrast(theme);
+  const simulated = vision ? checkThemeContrast(theme, vision) : null;
+  const measured = checks.filter(c => c.ratio !== null);
+  const failsAA = measured.some(c => !c.aa);
+  const failsAAA = measured.some(c => !c.aaa);
+  const unmeasured = checks.length - measured.length;
+  const aaFix = failsAA ? suggestThemeColors(theme, 'AA') : {};
+  const aaaFix = failsAAA ? suggestThemeColors(theme, 'AAA') : {};
+
+  const sample = (check: ContrastCheck) => (
+    <span className="w-12 h-8 rounded-lg flex items-center justify-center text-sm font-black border border-slate-200 shrink-0" style={{ backgroundColor: check.background, color: check.foreground }}>Aa</span>
+  );
+
+  return (
+    <div className="p-8 bg-slate-50 rounded-[2.5rem] border border-slate-100 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-black text-slate-800 uppercase tracking-widest flex items-center gap-2"><Eye className="w-4 h-4" /> Contrast & Color Vision</h3>
+          <p className="text-xs text-slate-400 font-bold">Text needs 4.5:1 for AA and 7:1 for AAA. Accent colors are used for large text and icons, so 3:1 and 4.5:1.</p>
+        </div>
+        {failsAA
+          ? <span className="px-3 py-2 bg-red-50 text-red-600 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> Fails AA, saving is blocked</span>
+          : failsAAA
+            ? <span className="px-3 py-2 bg-amber-50 text-amber-600 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> Passes AA, not AAA</span>
+            : <span className="px-3 py-2 bg-green-50 text-green-600 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2"><CheckCircle className="w-4 h-4" /> Passes AAA</span>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-8">
+        <div className="space-y-3">
+          {checks.map((check, idx) => (
+            <div key={check.id} className={`p-3 bg-white rounded-2xl border flex items-center gap-3 ${check.aa || check.ratio === null ? 'border-slate-100' : 'border-red-300'}`}>
+              {sample(check)}
+              <span className="flex-1 text-xs font-black text-slate-700">{check.label}</span>
+              {check.ratio === null ? (
+                <span className="text-[10px] font-bold text-slate-400" title="Named colors, CSS variables and translucent colors can't be measured">Not checked</span>
+              ) : (
+                <>
+                  {simulated && simulated[idx].ratio !== null && <span className="text-[10px] font-bold text-slate-400" title={`As seen with ${CVD_LABELS[vision as ColorVisionDeficiency]}`}>{simulated[idx].ratio.toFixed(2)}:1 simulated</span>}
+                  <span className="w-16 text-right font-mono text-xs font-black text-slate-600">{check.ratio.toFixed(2)}:1</span>
+                  <Badge level="AA" pass={check.aa} />
+                  <Badge level="AAA" pass={check.aaa} />
+                </>
+              )}
+            </div>
+          ))}
+          <div className="flex gap-2 flex-wrap pt-2">
+            {Object.keys(aaFix).length > 0 && <SuggestionButton label="Fix for AA" changes={aaFix} onApply={onApply} />}
+            {Object.keys(aaaFix).length > 0 && <SuggestionButton label="Improve to AAA" changes={aaaFix} onApply={onApply} />}
+            {failsAA && Object.keys(aaFix).length === 0 && <p className="text-xs font-bold text-red-500">No text or accent color works on this gradient. Make the gradient stops darker or lighter.</p>}
+            {unmeasured > 0 && <p className="text-xs font-bold text-slate-400">{unmeasured} pairing{unmeasured === 1 ? '' : 's'} not checked. Use hex, rgb() or hsl() colors to have them checked.</p>}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex gap-1 p-1 bg-white rounded-xl border border-slate-200">
+            {(['', ...Object.keys(CVD_LABELS)] as (ColorVisionDeficiency | '')[]).map(type => (
+              <button key={type || 'normal'} onClick={() => setVision(type)} className={`flex-1 px-2 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest ${vision === type ? 'bg-slate-900 text-white' : 'text-slate-400 hover:text-slate-700'}`}>
+                {type ? CVD_LABELS[type] : 'Normal'}
+              </button>
+            ))}
+          </div>
+          <svg width="0" height="0" className="absolute">
+            {(Object.keys(CVD_MATRICES) as ColorVisionDeficiency[]).map(type => (
+              <filter key={type} id={`cvd-${type}`}><feColorMatrix type="matrix" values={filterMatrix(CVD_MATRICES[type])} /></filter>
+            ))}
+          </svg>
+          <div className="aspect-video rounded-2xl overflow-hidden shadow-lg flex flex-col" style={{ filter: vision ? `url(#cvd-${vision})` : undefined, background: `linear-gradient(160deg, ${theme.gradientStart} 0%, ${theme.gradientEnd} 100%)`, color: theme.textColor, fontFamily: theme.fontFamily }}>
+            <div className="flex items-center justify-between px-5 py-3">
+              <span className="font-black text-sm">{schoolName || 'School Name'}</span>
+              <span className="font-black text-sm" style={{ color: theme.accentColor }}>8:15 AM</span>
+            </div>
+            <div className="flex-1 grid grid-cols-2 gap-3 px-5">
+              <div className="rounded-xl p-3 bg-white/5 border" style={{ borderColor: `${theme.accentColor}33` }}>
+                <p className="text-[9px] font-black uppercase tracking-widest" style={{ color: theme.accentColor }}>Announcement</p>
+                <p className="text-xs font-bold mt-1">Picture day is Thursday. Remember your forms!</p>
+              </div>
+              <div className="rounded-xl p-3 bg-white/5 border" style={{ borderColor: `${theme.accentColor}33` }}>
+                <p className="text-[9px] font-black uppercase tracking-widest opacity-70">Game Day</p>
+                <p className="text-2xl font-black" style={{ color: theme.accentColor }}>3 days</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3 px-5 py-2 bg-black/20 text-xs font-bold">
+              <span className="px-2 py-0.5 rounded-full text-white text-[9px] font-black uppercase tracking-widest" style={{ backgroundColor: theme.accentColor }}>News</span>
+              Welcome back, students!
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThemeContrastPanel;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Theme, ThemeScheduleEntry } from '../types';
+import { isThemeEntryActive } from '../services/themeService';
+import ScheduleRuleEditor from './ScheduleRuleEditor';
+import { CalendarClock, CheckCircle, Copy, Plus, Save, Trash2 } from 'lucide-react';
+
+interface ThemeLibraryEditorProps {
+  theme: Theme;
+  library: Theme[];
+  schedule: ThemeScheduleEntry[];
+  activeEntryId?: string;
+  onApply: (theme: Theme) => void;
+  onLibraryChange: (library: Theme[]) => void;
+  onScheduleChange: (schedule: ThemeScheduleEntry[]) => void;
+}
+
+const Swatch: React.FC<{ theme: Theme }> = ({ theme }) => (
+  <div className="h-16 rounded-2xl relative overflow-hidden" style={{ background: `linear-gradient(160deg, ${theme.gradientStart} 0%, ${theme.gradientEnd} 100%)` }}>
+    <div className="absolute bottom-2 left-2 w-5 h-5 rounded-full border-2 border-white/60" style={{ backgroundColor: theme.accentColor }} />
+    <span className="absolute bottom-2 right-3 text-xs font-black" style={{ color: theme.textColor, fontFamily: theme.fontFamily }}>Aa</span>
+  </div>
+);
+
+/**
+ * Saved themes and the calendar that switches to them automatically (holidays, spirit week, game days).
+ */
+const ThemeLibraryEditor: React.FC<ThemeLibraryEditorProps> = ({ theme, library, schedule, activeEntryId, onApply, onLibraryChange, onScheduleChange }) => {
+  const saved = library.some(t => t.id === theme.id);
+
+  const saveCurrent = () => onLibraryChange(saved ? library.map(t => t.id === theme.id ? theme : t) : [...library, theme]);
+
+  const saveAsNew = () => {
+    const copy: Theme = { ...theme, id: `theme-${Date.now()}`, name: `${theme.name || 'Theme'} Copy` };
+    onLibraryChange([...library, copy]);
+    onApply(copy);
+  };
+
+  const removeTheme = (target: Theme) => {
+    const uses = schedule.filter(e => e.themeId === target.id).length;
+    const warning = uses ? ` It is used by ${uses} scheduled entr${uses === 1 ? 'y' : 'ies'}, which will be removed.` : '';
+    if (!window.confirm(`Delete "${target.name}" from the library?${warning}`)) return;
+    onLibraryChange(library.filter(t => t.id !== target.id));
+    if (uses) onScheduleChange(schedule.filter(e => e.themeId !== target.id));
+  };
+
+  const updateEntry = (id: string, patch: Partial<ThemeScheduleEntry>) =>
+    onScheduleChange(schedule.map(e => e.id === id ? { ...e, ...patch } : e));
+
+  return (
+    <div className="space-y-8">
+      <div className="p-8 bg-slate-50 rounded-[2.5rem] border border-slate-100 space-y-6">
+        <div className="flex items-center justify-between">
+          <div><h3 className="text-sm font-black text-slate-800 uppercase tracking-widest">Theme Library</h3><p className="text-xs text-slate-400 font-bold">Editing "{theme.name}"{saved ? '' : ' (not saved to the library yet)'}</p></div>
+          <div className="flex gap-2">
+            <button onClick={saveCurrent} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2"><Save className="w-3.5 h-3.5" /> {saved ? 'Update in Library' : 'Save to Library'}</button>
+            <button onClick={saveAsNew} className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 flex items-center gap-2 hover:bg-slate-50"><Copy className="w-3.5 h-3.5" /> Save as New</button>
+          </div>
+        </div>
+        <div className="grid grid-cols-4 gap-4">
+          {library.map(t => (
+            <div key={t.id} className={`p-3 bg-white rounded-3xl border-2 space-y-3 ${t.id === theme.id ? 'border-slate-900' : 'border-slate-100'}`}>
+              <Swatch theme={t} />
+              <div className="flex items-center gap-2">
+                <span className="flex-1 text-xs font-black text-slate-700 truncate">{t.name}</span>
+                {t.id === theme.id
+                  ? <CheckCircle className="w-4 h-4 text-green-500" />
+                  : <button onClick={() => onApply(t)} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-800">Apply</button>}
+                <button onClick={() => removeTheme(t)} className="p-1 text-slate-300 hover:text-red-500"><Trash2 className="w-3.5 h-3.5" /></button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-8 bg-slate-50 rounded-[2.5rem] border border-slate-100 space-y-4">
+        <div className="flex items-center justify-between">
+          <div><h3 className="text-sm font-black text-slate-800 uppercase tracking-widest flex items-center gap-2"><CalendarClock className="w-4 h-4" /> Theme Schedule</h3><p className="text-xs text-slate-400 font-bold">While an entry matches, its theme replaces the one above. Later entries win.</p></div>
+          <button disabled={library.length === 0} onClick={() => onScheduleChange([...schedule, { id: `theme-schedule-${Date.now()}`, themeId: library[0].id, rule: { fromDate: new Date().toISOString().slice(0, 10) } }])} className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 flex items-center gap-2 hover:bg-slate-50 disabled:opacity-40"><Plus className="w-3.5 h-3.5" /> Add Entry</button>
+        </div>
+        {schedule.map(entry => (
+          <div key={entry.id} className={`p-5 bg-white rounded-3xl border-2 space-y-4 ${entry.id === activeEntryId ? 'border-green-400' : 'border-slate-100'}`}>
+            <div className="flex items-center gap-3">
+              <input className="flex-1 bg-transparent font-black text-slate-800 border-none p-0 focus:ring-0" placeholder="Label, e.g. Spirit Week" value={entry.label || ''} onChange={(e) => updateEntry(entry.id, { label: e.target.value || undefined })} />
+              {entry.id === activeEntryId && <span className="px-2 py-1 bg-green-50 text-green-600 rounded-lg text-[9px] font-black uppercase tracking-widest">Showing now</span>}
+              {entry.id !== activeEntryId && isThemeEntryActive(entry, new Date()) && <span className="px-2 py-1 bg-slate-100 text-slate-500 rounded-lg text-[9px] font-black uppercase tracking-widest">Overridden</span>}
+              <select className="bg-slate-50 px-3 py-2 rounded-xl border border-slate-200 text-xs font-bold text-slate-700" value={entry.themeId} onChange={(e) => updateEntry(entry.id, { themeId: e.target.value })}>
+                {library.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+              <label className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-400 tracking-widest">
+                <input type="checkbox" checked={!!entry.repeatYearly} onChange={(e) => updateEntry(entry.id, { repeatYearly: e.target.checked || undefined })} />
+                Every year
+              </label>
+              <button onClick={() => onScheduleChange(schedule.filter(e => e.id !== entry.id))} className="p-2 text-slate-300 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+            </div>
+            <ScheduleRuleEditor rule={entry.rule} showDateRange onChange={(rule) => updateEntry(entry.id, { rule })} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ThemeLibraryEditor;
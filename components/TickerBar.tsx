@@ -0,0 +1,112 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { CustomWidgetDefinition, TickerIcon, TickerItem } from '../types';
+import { resolveTickerSources, selectTickerItems, getTickerText, TICKER_SOURCE_REFRESH_MS, URGENT_HOLD_MS, URGENT_REPEAT_MS } from '../services/tickerService';
+import { AlertCircle, Calendar, Info, Megaphone, Star, Trophy, Utensils } from 'lucide-react';
+
+interface TickerBarProps {
+  items: TickerItem[];
+  customWidgets?: CustomWidgetDefinition[];
+  speed: number; // Pixels per second
+}
+
+const ICONS: Record<TickerIcon, React.ElementType> = {
+  alert: AlertCircle,
+  info: Info,
+  megaphone: Megaphone,
+  trophy: Trophy,
+  utensils: Utensils,
+  calendar: Calendar,
+  star: Star
+};
+
+// Copies of the item strip in the scrolling track; it moves by one copy per loop so the seam never shows
+const TRACK_COPIES = 3;
+
+/**
+ * The scrolling footer ticker. Resolves data-driven items, hides items outside their time window,
+ * and lets live urgent items take over the bar periodically.
+ */
+const TickerBar: React.FC<TickerBarProps> = ({ items, customWidgets, speed }) => {
+  const [now, setNow] = useState(new Date());
+  const [values, setValues] = useState<Record<string, string | null>>({});
+  const [stripWidth, setStripWidth] = useState(0);
+  const stripRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const t = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(t);
+  }, []);
+
+  // Only refetch when something about the sources changed, not on every edit of a label
+  const sourceKey = JSON.stringify(items.filter(i => i.source).map(i => [i.id, i.source]));
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => resolveTickerSources(items, customWidgets).then(v => { if (!cancelled) setValues(v); });
+    refresh();
+    const t = setInterval(refresh, TICKER_SOURCE_REFRESH_MS);
+    return () => { cancelled = true; clearInterval(t); };
+  }, [sourceKey, customWidgets]);
+
+  const live = selectTickerItems(items, values, now);
+  const urgent = live.filter(item => item.priority === 'urgent');
+  const urgentKey = urgent.map(item => item.id).join('|');
+  const textKey = live.map(item => `${item.id}:${getTickerText(item, values)}`).join('|');
+
+  // Each newly live urgent item interrupts straight away
+  const urgentSince = useMemo(() => Date.now(), [urgentKey]);
+  const phase = (now.getTime() - urgentSince) % (URGENT_HOLD_MS + URGENT_REPEAT_MS);
+  const interrupting = urgent.length > 0 && phase < URGENT_HOLD_MS
+    ? urgent[Math.floor(phase / (URGENT_HOLD_MS / urgent.length))]
+    : null;
+
+  useLayoutEffect(() => {
+    if (stripRef.current) setStripWidth(stripRef.current.offsetWidth);
+  }, [textKey, interrupting]);
+
+  if (interrupting) {
+    const Icon = ICONS[interrupting.icon || 'alert'];
+    return (
+      <div className="h-full w-full flex items-center justify-center gap-4 px-6 bg-red-600 text-white">
+        <Icon className="w-6 h-6 shrink-0 animate-pulse" />
+        <span className="px-3 py-1 rounded-full bg-white text-red-700 text-[10px] font-black uppercase tracking-[0.3em] shrink-0">Urgent</span>
+        <span className="font-black text-[clamp(1rem,1.4vw,1.3rem)] truncate">{getTickerText(interrupting, values)}</span>
+      </div>
+    );
+  }
+
+  const duration = stripWidth > 0 ? stripWidth / Math.max(speed, 1) : 60;
+
+  const renderStrip = (copy: number) => (
+    <div key={copy} ref={copy === 0 ? stripRef : undefined} className="flex gap-16 items-center px-6 shrink-0">
+      {live.map(item => {
+        const Icon = item.icon ? ICONS[item.icon] : null;
+        const color = item.color || (item.priority === 'high' ? 'var(--accent-color)' : undefined);
+        return (
+          <React.Fragment key={item.id}>
+            <span className="flex items-center gap-4 whitespace-nowrap">
+              {Icon && <Icon className="w-5 h-5 shrink-0" style={{ color: item.color || 'var(--accent-color)' }} />}
+              {item.priority === 'urgent' && <span className="px-2 py-0.5 rounded-full bg-red-600 text-white text-[9px] font-black uppercase tracking-[0.2em]">Urgent</span>}
+              <span className={`text-[clamp(1rem,1.4vw,1.3rem)] ${item.priority === 'normal' ? 'font-bold' : 'font-black'}`} style={{ color }}>{getTickerText(item, values)}</span>
+            </span>
+            <span className="w-2 h-2 rounded-full opacity-30 shrink-0" style={{ backgroundColor: 'var(--accent-color)' }}></span>
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="h-full w-full relative overflow-hidden flex items-center">
+      {live.length > 0 && (
+        <div className="flex w-max items-center" style={{ animation: `ticker-scroll ${duration}s linear infinite` }}>
+          {Array.from({ length: TRACK_COPIES }, (_, copy) => renderStrip(copy))}
+        </div>
+      )}
+      <style>{`
+        @keyframes ticker-scroll { 0% { transform: translateX(0); } 100% { transform: translateX(calc(-100% / ${TRACK_COPIES})); } }
+      `}</style>
+    </div>
+  );
+};
+
+export default TickerBar;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { CustomWidgetDefinition, TickerIcon, TickerItem, TickerPriority, TickerSource, TickerSourceKind } from '../types';
+import { createTickerItem, TICKER_ICONS, TICKER_PRIORITY_LABELS, TICKER_SOURCE_LABELS } from '../services/tickerService';
+import { toLocalInputValue } from '../services/scheduleService';
+import TickerBar from './TickerBar';
+import { ArrowDown, ArrowUp, Gauge, Plus, Trash2 } from 'lucide-react';
+
+interface TickerEditorProps {
+  items: TickerItem[];
+  speed: number;
+  customWidgets: CustomWidgetDefinition[];
+  readOnly?: boolean;
+  onChange: (items: TickerItem[]) => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+const PRIORITY_STYLES: Record<TickerPriority, string> = {
+  normal: 'bg-slate-100 text-slate-500',
+  high: 'bg-amber-100 text-amber-700',
+  urgent: 'bg-red-100 text-red-700'
+};
+
+const smallField = 'bg-slate-50 px-3 py-1.5 rounded-lg border border-slate-200 text-xs font-bold text-slate-600';
+
+/**
+ * Ticker Bar tab: ordered, scheduled and prioritized ticker items, data-driven sources, and scroll speed with a live preview.
+ */
+const TickerEditor: React.FC<TickerEditorProps> = ({ items, speed, customWidgets, readOnly, onChange, onSpeedChange }) => {
+  const [input, setInput] = useState('');
+
+  const add = () => {
+    if (!input.trim()) return;
+    onChange([...items, createTickerItem(input.trim())]);
+    setInput('');
+  };
+
+  const update = (id: string, patch: Partial<TickerItem>) =>
+    onChange(items.map(item => item.id === id ? { ...item, ...patch } : item));
+
+  const move = (idx: number, delta: number) => {
+    const next = [...items];
+    const [item] = next.splice(idx, 1);
+    next.splice(idx + delta, 0, item);
+    onChange(next);
+  };
+
+  const setSourceKind = (item: TickerItem, kind: string) => {
+    const source: TickerSource | undefined = kind ? { kind: kind as TickerSourceKind } : undefined;
+    update(item.id, { source });
+  };
+
+  const renderSourceFields = (item: TickerItem) => {
+    const source = item.source;
+    if (!source) return null;
+    const updateSource = (patch: Partial<TickerSource>) => update(item.id, { source: { ...source, ...patch } });
+
+    switch (source.kind) {
+      case 'custom_widget':
+        return (
+          <select disabled={readOnly} className={smallField} value={source.customWidgetId || ''} onChange={(e) => updateSource({ customWidgetId: e.target.value || undefined })}>
+            <option value="">{customWidgets.length ? 'Choose a data source' : 'Connect one in Widgets'}</option>
+            {customWidgets.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+          </select>
+        );
+      case 'sports_scores':
+        return (
+          <>
+            <input disabled={readOnly} className={`${smallField} w-52 font-mono`} placeholder="football/college-football" value={source.league || ''} onChange={(e) => updateSource({ league: e.target.value.trim() || undefined })} />
+            <input disabled={readOnly} className={`${smallField} w-36`} placeholder="Team (optional)" value={source.team || ''} onChange={(e) => updateSource({ team: e.target.value || undefined })} />
+          </>
+        );
+      case 'lunch_menu':
+        return (
+          <input disabled={readOnly} className={`${smallField} flex-1 font-mono`} placeholder="https://district.api.nutrislice.com/menu/api/weeks/school/slug/menu-type/lunch" value={source.menuUrl || ''} onChange={(e) => updateSource({ menuUrl: e.target.value.trim() || undefined })} />
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-10">
+      <div className="p-8 bg-slate-50 rounded-[2.5rem] border border-slate-100 space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-black text-slate-800 uppercase tracking-widest flex items-center gap-2"><Gauge className="w-4 h-4" /> Preview</h3>
+          <label className="flex items-center gap-3 text-[10px] font-black uppercase text-slate-400 tracking-widest">
+            Speed
+            <input disabled={readOnly} type="range" min={20} max={300} step={10} value={speed} onChange={(e) => onSpeedChange(Number(e.target.value))} />
+            <span className="w-16 text-slate-600">{speed} px/s</span>
+          </label>
+        </div>
+        <div className="h-16 rounded-2xl overflow-hidden bg-slate-950 text-white">
+          <TickerBar items={items} customWidgets={customWidgets} speed={speed} />
+        </div>
+      </div>
+
+      <div className="p-8 bg-slate-50 rounded-[2.5rem] border border-slate-100">
+        <h3 className="text-sm font-black text-slate-800 uppercase tracking-widest mb-6">Ticker Content</h3>
+        {!readOnly && (
+          <div className="flex gap-3 mb-8">
+            <input className="flex-1 bg-white p-4 rounded-2xl border border-slate-200 font-bold" placeholder="Add scrolling message..." value={input} onChange={(e) => setInput(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && add()} />
+            <button onClick={add} style={{backgroundColor: 'var(--accent-color)'}} className="px-8 bg-slate-900 text-white rounded-2xl font-black text-xs uppercase shadow-lg shadow-black/10"><Plus className="w-5 h-5" /></button>
+          </div>
+        )}
+        <div className="space-y-3">
+          {items.map((item, idx) => (
+            <div key={item.id} className="p-4 bg-white rounded-2xl border border-slate-200 space-y-3">
+              <div className="flex items-center gap-3">
+                <div className="flex flex-col">
+                  <button disabled={readOnly || idx === 0} onClick={() => move(idx, -1)} className="p-0.5 text-slate-300 hover:text-slate-700 disabled:opacity-30"><ArrowUp className="w-3.5 h-3.5" /></button>
+                  <button disabled={readOnly || idx === items.length - 1} onClick={() => move(idx, 1)} className="p-0.5 text-slate-300 hover:text-slate-700 disabled:opacity-30"><ArrowDown className="w-3.5 h-3.5" /></button>
+                </div>
+                <input disabled={readOnly} className="flex-1 text-sm font-bold text-slate-700 bg-transparent border-none p-0 focus:ring-0" placeholder={item.source ? 'Label, e.g. Today’s lunch:' : 'Message'} value={item.text} onChange={(e) => update(item.id, { text: e.target.value })} />
+                <select disabled={readOnly} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest border-none ${PRIORITY_STYLES[item.priority]}`} value={item.priority} onChange={(e) => update(item.id, { priority: e.target.value as TickerPriority })}>
+                  {(Object.keys(TICKER_PRIORITY_LABELS) as TickerPriority[]).map(p => <option key={p} value={p}>{TICKER_PRIORITY_LABELS[p]}</option>)}
+                </select>
+                {!readOnly && <button onClick={() => onChange(items.filter(i => i.id !== item.id))} className="p-2 text-slate-200 hover:text-red-500 transition-colors"><Trash2 className="w-4 h-4" /></button>}
+              </div>
+              <div className="flex items-center gap-2 flex-wrap pl-8 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <select disabled={readOnly} className={smallField} value={item.icon || ''} onChange={(e) => update(item.id, { icon: (e.target.value || undefined) as TickerIcon | undefined })}>
+                  <option value="">No icon</option>
+                  {TICKER_ICONS.map(icon => <option key={icon} value={icon}>{icon}</option>)}
+                </select>
+                <input disabled={readOnly} type="color" className="w-8 h-8 rounded-lg border border-slate-200 cursor-pointer" value={item.color || '#ffffff'} onChange={(e) => update(item.id, { color: e.target.value })} />
+                {item.color && !readOnly && <button onClick={() => update(item.id, { color: undefined })} className="text-slate-300 hover:text-slate-600">Reset</button>}
+                <span className="ml-2">From</span>
+                <input disabled={readOnly} type="datetime-local" className={smallField} value={toLocalInputValue(item.startAt)} onChange={(e) => update(item.id, { startAt: e.target.value ? new Date(e.target.value).toISOString() : undefined })} />
+                <span>Until</span>
+                <input disabled={readOnly} type="datetime-local" className={smallField} value={toLocalInputValue(item.endAt)} onChange={(e) => update(item.id, { endAt: e.target.value ? new Date(e.target.value).toISOString() : undefined })} />
+              </div>
+              <div className="flex items-center gap-2 flex-wrap pl-8">
+                <select disabled={readOnly} className={smallField} value={item.source?.kind || ''} onChange={(e) => setSourceKind(item, e.target.value)}>
+                  <option value="">Static text</option>
+                  {(Object.keys(TICKER_SOURCE_LABELS) as TickerSourceKind[]).map(kind => <option key={kind} value={kind}>{TICKER_SOURCE_LABELS[kind]}</option>)}
+                </select>
+                {renderSourceFields(item)}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TickerEditor;
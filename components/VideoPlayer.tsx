@@ -0,0 +1,55 @@
+import React, { useEffect, useRef } from 'react';
+import { VideoSettings } from '../types';
+
+interface VideoPlayerProps {
+  video: VideoSettings;
+  active?: boolean;
+  onEnded?: () => void;
+  className?: string;
+}
+
+/**
+ * Kiosk video surface. Plays from the start whenever it becomes active and pauses otherwise.
+ * Load errors are reported as `onEnded` so a broken clip never stalls rotation.
+ */
+const VideoPlayer: React.FC<VideoPlayerProps> = ({ video, active = true, onEnded, className }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onEndedRef = useRef(onEnded);
+  onEndedRef.current = onEnded;
+
+  const muted = video.muted !== false;
+  const loop = video.loop !== false && !video.holdRotation;
+
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!el) return;
+    // React doesn't reliably reflect `muted` onto the element, and autoplay depends on it
+    el.muted = muted;
+    if (!active) {
+      el.pause();
+      return;
+    }
+    el.currentTime = 0;
+    el.play().catch(() => {
+      // Unmuted autoplay is often blocked; fall back to muted rather than a frozen frame
+      el.muted = true;
+      el.play().catch(e => console.warn('Video autoplay blocked', e));
+    });
+  }, [active, muted, video.url]);
+
+  return (
+    <video
+      ref={videoRef}
+      src={video.url}
+      muted={muted}
+      loop={loop}
+      playsInline
+      preload="auto"
+      onEnded={() => onEndedRef.current?.()}
+      onError={() => onEndedRef.current?.()}
+      className={className || 'w-full h-full object-cover'}
+    />
+  );
+};
+
+export default VideoPlayer;
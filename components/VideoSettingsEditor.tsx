@@ -0,0 +1,40 @@
+import React from 'react';
+import { VideoSettings } from '../types';
+import { Film, Trash2 } from 'lucide-react';
+
+interface VideoSettingsEditorProps {
+  video?: VideoSettings;
+  onChange: (video: VideoSettings | undefined) => void;
+  onPick: (onSelect: (url: string) => void) => void;
+}
+
+const Toggle: React.FC<{ label: string; value: boolean; onToggle: () => void }> = ({ label, value, onToggle }) => (
+  <button type="button" onClick={onToggle} className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-colors ${value ? 'bg-slate-900 text-white' : 'bg-white text-slate-400 border border-slate-200'}`}>
+    {label}
+  </button>
+);
+
+/**
+ * Picks a video from the media library and sets its playback options.
+ */
+const VideoSettingsEditor: React.FC<VideoSettingsEditorProps> = ({ video, onChange, onPick }) => {
+  const update = (patch: Partial<VideoSettings>) => video && onChange({ ...video, ...patch });
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <button type="button" onClick={() => onPick(url => onChange({ ...(video || {}), url }))} className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-[9px] font-black uppercase tracking-widest text-slate-600 flex items-center gap-1.5 hover:bg-slate-50">
+        <Film className="w-3 h-3" /> {video ? 'Change Video' : 'Add Video'}
+      </button>
+      {video && (
+        <>
+          <Toggle label="Muted" value={video.muted !== false} onToggle={() => update({ muted: video.muted === false })} />
+          <Toggle label="Loop" value={video.loop !== false && !video.holdRotation} onToggle={() => update({ loop: video.loop === false, holdRotation: false })} />
+          <Toggle label="Hold until finished" value={!!video.holdRotation} onToggle={() => update({ holdRotation: !video.holdRotation })} />
+          <button type="button" onClick={() => onChange(undefined)} className="p-1.5 text-slate-300 hover:text-red-500 transition-colors"><Trash2 className="w-3.5 h-3.5" /></button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VideoSettingsEditor;
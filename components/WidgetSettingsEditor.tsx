@@ -0,0 +1,105 @@
+import React from 'react';
+import { AppData, MediaKind, WidgetConfig, WidgetSettingField } from '../types';
+import { WIDGET_TYPES, WIDGET_LABELS, WidgetPreview } from './WidgetSystem';
+import { canReplaceCountdown, getVisibleFields, validateWidgetSettings } from '../services/widgetSettingsService';
+import { toLocalInputValue } from '../services/scheduleService';
+import { Film, ImageIcon } from 'lucide-react';
+
+interface WidgetSettingsEditorProps {
+  widget: WidgetConfig;
+  appData: AppData;
+  aspectRatio: number; // Width / height of the widget's grid cell, for the preview
+  onChange: (widget: WidgetConfig) => void;
+  onPickMedia: (kind: MediaKind, onSelect: (url: string) => void) => void;
+}
+
+const fieldClass = 'w-full bg-white/5 px-3 py-2 rounded-xl border text-sm font-bold text-white';
+const labelClass = 'block space-y-1 text-[10px] font-black uppercase tracking-widest text-slate-500';
+
+/**
+ * Side panel in the grid designer: the selected widget's title, a form built from its settings schema, and a live preview.
+ */
+const WidgetSettingsEditor: React.FC<WidgetSettingsEditorProps> = ({ widget, appData, aspectRatio, onChange, onPickMedia }) => {
+  const settings = widget.settings || {};
+  const fields = getVisibleFields(widget.type, settings);
+  const errors = validateWidgetSettings(widget.type, settings);
+
+  const setValue = (key: string, value: unknown) => {
+    const next = { ...settings, [key]: value };
+    // Unset rather than store blanks so widgets fall back to their defaults
+    if (value === undefined || value === '') delete next[key];
+    onChange({ ...widget, settings: next });
+  };
+
+  const renderInput = (field: WidgetSettingField) => {
+    const value = settings[field.key] ?? field.defaultValue;
+    const border = errors[field.key] ? 'border-red-400' : 'border-white/10';
+
+    switch (field.kind) {
+      case 'textarea':
+        return <textarea rows={4} className={`${fieldClass} ${border}`} placeholder={field.placeholder} value={value || ''} onChange={(e) => setValue(field.key, e.target.value)} />;
+      case 'number':
+        return <input type="number" min={field.min} max={field.max} step="any" className={`${fieldClass} ${border}`} placeholder={field.placeholder} value={value ?? ''} onChange={(e) => setValue(field.key, e.target.value === '' ? undefined : Number(e.target.value))} />;
+      case 'datetime':
+        return <input type="datetime-local" className={`${fieldClass} ${border}`} value={toLocalInputValue(value || undefined)} onChange={(e) => setValue(field.key, e.target.value ? new Date(e.target.value).toISOString() : undefined)} />;
+      case 'url_list':
+        return <textarea rows={3} className={`${fieldClass} ${border} font-mono text-xs`} placeholder={field.placeholder} value={(value || []).join('\n')} onChange={(e) => setValue(field.key, e.target.value.split('\n').map(url => url.trim()).filter(Boolean))} />;
+      case 'toggle':
+        return (
+          <button type="button" onClick={() => setValue(field.key, !value)} className={`w-12 h-7 rounded-full p-1 transition-colors ${value ? 'bg-green-500' : 'bg-slate-600'}`}>
+            <div className={`w-5 h-5 bg-white rounded-full transition-transform ${value ? 'translate-x-5' : 'translate-x-0'}`} />
+          </button>
+        );
+      case 'select':
+      case 'widget_type': {
+        const options = field.kind === 'widget_type'
+          ? WIDGET_TYPES.filter(canReplaceCountdown).map(t => ({ value: t, label: WIDGET_LABELS[t] }))
+          : field.options || [];
+        return (
+          <select className={`${fieldClass} ${border}`} value={value || ''} onChange={(e) => setValue(field.key, e.target.value || undefined)}>
+            <option value="" className="text-slate-900">{field.required ? 'Choose one' : 'Default'}</option>
+            {options.map(o => <option key={o.value} value={o.value} className="text-slate-900">{o.label}</option>)}
+          </select>
+        );
+      }
+      case 'image':
+      case 'video': {
+        const Icon = field.kind === 'image' ? ImageIcon : Film;
+        return (
+          <div className="flex items-center gap-2">
+            <button type="button" onClick={() => onPickMedia(field.kind as MediaKind, url => setValue(field.key, url))} className={`px-3 py-2 bg-white/5 border ${border} rounded-xl text-[10px] font-black uppercase tracking-widest text-white flex items-center gap-2 hover:bg-white/10`}>
+              <Icon className="w-3.5 h-3.5" /> {value ? 'Change' : 'Choose'}
+            </button>
+            {value && <span className="flex-1 truncate font-mono normal-case tracking-normal text-slate-400">{value}</span>}
+          </div>
+        );
+      }
+      default:
+        return <input type={field.kind === 'url' ? 'url' : 'text'} className={`${fieldClass} ${border}`} placeholder={field.placeholder} value={value || ''} onChange={(e) => setValue(field.key, e.target.value)} />;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-2xl overflow-hidden border border-white/10 bg-black" style={{ aspectRatio: String(aspectRatio) }}>
+        <WidgetPreview config={widget} appData={appData} />
+      </div>
+      <label className={labelClass}>
+        <span>Title</span>
+        <input className={`${fieldClass} border-white/10`} value={widget.title || ''} onChange={(e) => onChange({ ...widget, title: e.target.value })} />
+      </label>
+      {fields.length === 0 && <p className="text-xs font-bold text-slate-500">This widget has no settings of its own.</p>}
+      {fields.map(field => (
+        <div key={field.key} className={labelClass}>
+          <span>{field.label}{field.required && <span className="text-red-400"> *</span>}</span>
+          {renderInput(field)}
+          {errors[field.key]
+            ? <p className="text-[10px] font-bold normal-case tracking-normal text-red-400">{errors[field.key]}</p>
+            : field.help && <p className="text-[10px] font-bold normal-case tracking-normal text-slate-600">{field.help}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WidgetSettingsEditor;
@@ -1,12 +1,19 @@
 
 import React, { useEffect, useState, useMemo, useRef } from 'react';
 import RGL from 'react-grid-layout';
-import { WidgetConfig, GridItemConfig, AppData } from '../types';
+import { WidgetConfig, WidgetType, GridItemConfig, AppData, WeatherConfig, WeatherData, CountdownSettings, WidgetSettingsOf } from '../types';
 import { safeFetch } from '../services/cacheService';
 import { fetchLiveNews } from '../services/geminiService';
-import { Clock, CloudSun, Newspaper, Quote, Rocket, Calendar, Megaphone, AlertTriangle, Image as ImageIcon, Globe, Database, Sun, Cloud, CloudRain, CloudSnow, Trophy, Palette, BookOpen, Music, FlaskConical, Calculator, Laptop, GraduationCap, Bus, Briefcase, Users, Star, ExternalLink } from 'lucide-react';
+import { Clock, CloudSun, Newspaper, Quote, Rocket, Calendar, Megaphone, AlertTriangle, Image as ImageIcon, Globe, Database, Sun, Cloud, CloudRain, CloudSnow, Trophy, Palette, BookOpen, Music, FlaskConical, Calculator, Laptop, GraduationCap, Bus, Briefcase, Users, Star, ExternalLink, Film, Bell, Hourglass } from 'lucide-react';
 import _ from 'lodash';
 import ErrorBoundary from './ErrorBoundary';
+import { isAnnouncementLive } from '../services/scheduleService';
+import VideoPlayer from './VideoPlayer';
+import LiveCamView from './LiveCamView';
+import { getBellStatus, formatCountdown, BELL_STATE_LABELS } from '../services/bellScheduleService';
+import { selectEventRows, formatEventTime, getEventDay } from '../services/eventService';
+import { canReplaceCountdown } from '../services/widgetSettingsService';
+import { subscribeWeather, getForecastSlots, TEMPERATURE_UNIT_LABELS, WIND_UNIT_LABELS } from '../services/weatherService';
 
 // Use Responsive directly for maximum control over layout stability
 const Responsive = (RGL as any).Responsive;
@@ -16,8 +23,14 @@ interface WidgetProps {
   appData?: AppData;
   className?: string;
   style?: React.CSSProperties;
+  isActive?: boolean;
+  onVideoEnded?: () => void;
 }
 
+// Settings of the widget a component was mounted for; COMPONENT_MAP guarantees the type matches
+const settingsOf = <W extends WidgetType>(config: WidgetConfig, _type: W) =>
+  (config.settings || {}) as WidgetSettingsOf<W>;
+
 const getEventIcon = (categoryName: string, categories: any[]) => {
       const categoryDef = categories?.find(c => c.name === categoryName);
       const iconName = categoryDef ? categoryDef.icon : 'Users';
@@ -66,33 +79,23 @@ const WidgetFrame: React.FC<{ title?: string; icon?: React.ElementType; children
 );
 
 const WeatherWidget: React.FC<WidgetProps> = ({ config, appData }) => {
-  const [data, setData] = useState<any>(null);
-  const city = config.settings?.city || appData?.weatherConfig.city || 'New York';
-  const lat = config.settings?.lat || appData?.weatherConfig.lat || 40.71;
-  const lon = config.settings?.lon || appData?.weatherConfig.lon || -74.00;
+  const [data, setData] = useState<WeatherData | null>(null);
+  // Widget settings override the global weather config field by field
+  const merged = {
+    ...(appData?.weatherConfig || { city: 'New York', lat: 40.71, lon: -74.00 }),
+    ..._.pickBy(settingsOf(config, 'weather'), value => value !== undefined && value !== '')
+  };
+  const weatherConfig: WeatherConfig = { ...merged, lat: Number(merged.lat), lon: Number(merged.lon) };
+  const { city, lat, lon, temperatureUnit, windUnit } = weatherConfig;
 
   useEffect(() => {
-    const fetchWeather = async () => {
-        const res = await safeFetch(
-            `weather_widget_${city}`,
-            `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&daily=temperature_2m_max,temperature_2m_min,weathercode&current_weather=true&temperature_unit=fahrenheit&timezone=auto`,
-            900 
-        );
-        if (res) setData(res);
-    };
-    fetchWeather();
-    const interval = setInterval(fetchWeather, 600000); 
-    return () => clearInterval(interval);
-  }, [city, lat, lon]);
+    setData(null);
+    return subscribeWeather(weatherConfig, setData);
+  }, [lat, lon, temperatureUnit, windUnit]);
 
   if (!data) return <WidgetFrame title="Weather" icon={CloudSun}><div className="flex items-center justify-center h-full animate-pulse opacity-50 text-xs font-bold uppercase">Loading...</div></WidgetFrame>;
 
-  const forecast = data.daily.time.slice(0, 3).map((date: string, i: number) => ({
-        date,
-        max: Math.round(data.daily.temperature_2m_max[i]),
-        min: Math.round(data.daily.temperature_2m_min[i]),
-        code: data.daily.weathercode[i]
-  }));
+  const forecast = getForecastSlots(data, weatherConfig);
 
   return (
     <WidgetFrame title={city} icon={CloudSun} hideHeader>
@@ -102,26 +105,27 @@ const WeatherWidget: React.FC<WidgetProps> = ({ config, appData }) => {
                     <CloudSun className="w-4 h-4 text-yellow-400" />
                     <h3 className="text-xs font-bold uppercase tracking-wider opacity-70">{city}</h3>
                  </div>
+                 <span className="text-[9px] font-bold opacity-50 uppercase tracking-widest">{data.current.windSpeed} {WIND_UNIT_LABELS[windUnit || 'mph']}</span>
             </div>
             
             <div className="flex-1 flex flex-col justify-center">
                 <div className="flex items-center justify-between mb-4">
                     <div className="flex flex-col">
-                         <span className="text-6xl font-black tracking-tighter leading-none">{Math.round(data.current_weather.temperature)}°</span>
+                         <span className="text-6xl font-black tracking-tighter leading-none">{data.current.temp}{TEMPERATURE_UNIT_LABELS[temperatureUnit || 'fahrenheit']}</span>
                          <span className="text-[10px] font-bold opacity-50 mt-1 uppercase tracking-widest pl-1">Current</span>
                     </div>
                     <div className="p-3 bg-white/10 rounded-2xl backdrop-blur-md shadow-lg border border-white/5">
-                        {getWeatherIcon(data.current_weather.weathercode, "w-10 h-10 text-yellow-400")}
+                        {getWeatherIcon(data.current.code, "w-10 h-10 text-yellow-400")}
                     </div>
                 </div>
                 <div className="grid grid-cols-3 gap-2">
-                    {forecast.map((day: any, i: number) => (
+                    {forecast.map((slot, i) => (
                         <div key={i} className="flex flex-col items-center p-2 rounded-xl bg-white/5 border border-white/5">
-                            <span className="text-[9px] font-bold opacity-70 mb-1 uppercase tracking-wider">{new Date(day.date).toLocaleDateString('en-US', {weekday: 'short'})}</span>
-                            {getWeatherIcon(day.code, "w-6 h-6 opacity-90 mb-1")}
+                            <span className="text-[9px] font-bold opacity-70 mb-1 uppercase tracking-wider">{slot.label}</span>
+                            {getWeatherIcon(slot.code, "w-6 h-6 opacity-90 mb-1")}
                             <div className="flex gap-1 text-xs font-bold">
-                                <span>{day.max}°</span>
-                                <span className="opacity-40">{day.min}°</span>
+                                <span>{slot.temp}°</span>
+                                {slot.low !== undefined && <span className="opacity-40">{slot.low}°</span>}
                             </div>
                         </div>
                     ))}
@@ -133,9 +137,16 @@ const WeatherWidget: React.FC<WidgetProps> = ({ config, appData }) => {
 };
 
 const FeaturedAnnouncementWidget: React.FC<WidgetProps> = ({ appData }) => {
-    const activeAnnouncements = appData?.announcements.filter(a => a.active) || [];
+    const [now, setNow] = useState(new Date());
+    const activeAnnouncements = appData?.announcements.filter(a => isAnnouncementLive(a, now)) || [];
     const [playlistIndex, setPlaylistIndex] = useState(0);
 
+    // Re-evaluate announcement schedules every minute
+    useEffect(() => {
+        const interval = setInterval(() => setNow(new Date()), 60000);
+        return () => clearInterval(interval);
+    }, []);
+
     useEffect(() => {
         if (activeAnnouncements.length <= 1) return;
         const interval = setInterval(() => {
@@ -144,7 +155,7 @@ const FeaturedAnnouncementWidget: React.FC<WidgetProps> = ({ appData }) => {
         return () => clearInterval(interval);
     }, [activeAnnouncements.length]);
 
-    const currentAnnouncement = activeAnnouncements[playlistIndex];
+    const currentAnnouncement = activeAnnouncements[playlistIndex % Math.max(activeAnnouncements.length, 1)];
 
     if (!currentAnnouncement) {
         return <WidgetFrame><div className="flex items-center justify-center h-full opacity-50 text-xs font-bold uppercase">No Announcements</div></WidgetFrame>;
@@ -174,10 +185,18 @@ const FeaturedAnnouncementWidget: React.FC<WidgetProps> = ({ appData }) => {
 };
 
 const EventsWidget: React.FC<WidgetProps> = ({ appData }) => {
-    const events = appData?.events || [];
+    const [now, setNow] = useState(new Date());
+    const timeZone = appData?.eventSettings?.timeZone;
+    const rows = useMemo(() => selectEventRows(appData?.events || [], now, timeZone), [appData?.events, now, timeZone]);
     const [setIndex, setSetIndex] = useState(0);
     const eventsPerSet = 3;
-    const totalSets = Math.ceil(events.length / eventsPerSet);
+    const totalSets = Math.ceil(rows.length / eventsPerSet);
+
+    // Finished events drop off once a minute
+    useEffect(() => {
+        const interval = setInterval(() => setNow(new Date()), 60000);
+        return () => clearInterval(interval);
+    }, []);
 
     useEffect(() => {
         if (totalSets <= 1) return;
@@ -187,33 +206,38 @@ const EventsWidget: React.FC<WidgetProps> = ({ appData }) => {
         return () => clearInterval(interval);
     }, [totalSets]);
 
-    const visibleEvents = useMemo(() => {
-      const start = setIndex * eventsPerSet;
-      return events.slice(start, start + eventsPerSet);
-    }, [events, setIndex]);
+    const visibleRows = useMemo(() => {
+      const start = (setIndex % Math.max(totalSets, 1)) * eventsPerSet;
+      return rows.slice(start, start + eventsPerSet);
+    }, [rows, setIndex, totalSets]);
 
     return (
         <WidgetFrame title="Upcoming Events" icon={Calendar}>
              <div className="h-full overflow-hidden flex flex-col gap-2 p-5 pt-0">
                 <div className="flex flex-col gap-2 animate-in fade-in slide-in-from-bottom-2 duration-700" key={setIndex}>
-                  {visibleEvents.map((evt) => (
-                      <div key={evt.id} className="flex gap-3 items-center p-2.5 rounded-xl bg-white/5 border border-white/5 min-h-[70px] hover:bg-white/10 transition-colors shrink-0">
-                          <div className="flex flex-col items-center justify-center bg-white/10 w-10 h-10 rounded-lg shrink-0 border border-white/5">
-                              <span className="text-[8px] font-black opacity-80 text-blue-400 uppercase leading-none mb-0.5">{new Date(evt.date).toLocaleDateString('en-US', {weekday: 'short'})}</span>
-                              <span className="text-sm font-black leading-none">{new Date(evt.date).getDate()}</span>
-                          </div>
-                          <div className="min-w-0 flex-1">
-                              <h4 className="text-sm font-bold truncate leading-tight mb-0.5">{evt.title}</h4>
-                              <div className="flex items-center gap-2 opacity-50 text-[10px] font-bold uppercase tracking-wider">
-                                  <span>{evt.time}</span>
-                                  <span className="w-1 h-1 rounded-full bg-white/50"></span>
-                                  <span className="truncate">{evt.category}</span>
+                  {visibleRows.map(({ event: evt, group }, i) => (
+                      <React.Fragment key={evt.id}>
+                          {(i === 0 || visibleRows[i - 1].group !== group) && (
+                              <span className="text-[9px] font-black uppercase tracking-widest opacity-40">{group}</span>
+                          )}
+                          <div className="flex gap-3 items-center p-2.5 rounded-xl bg-white/5 border border-white/5 min-h-[70px] hover:bg-white/10 transition-colors shrink-0">
+                              <div className="flex flex-col items-center justify-center bg-white/10 w-10 h-10 rounded-lg shrink-0 border border-white/5">
+                                  <span className="text-[8px] font-black opacity-80 text-blue-400 uppercase leading-none mb-0.5">{getEventDay(evt, timeZone).weekday}</span>
+                                  <span className="text-sm font-black leading-none">{getEventDay(evt, timeZone).day}</span>
+                              </div>
+                              <div className="min-w-0 flex-1">
+                                  <h4 className="text-sm font-bold truncate leading-tight mb-0.5">{evt.title}</h4>
+                                  <div className="flex items-center gap-2 opacity-50 text-[10px] font-bold uppercase tracking-wider">
+                                      <span>{formatEventTime(evt, timeZone)}</span>
+                                      <span className="w-1 h-1 rounded-full bg-white/50"></span>
+                                      <span className="truncate">{evt.category}</span>
+                                  </div>
                               </div>
                           </div>
-                      </div>
+                      </React.Fragment>
                   ))}
                 </div>
-                {events.length === 0 && <div className="text-center opacity-40 mt-10 text-xs font-bold uppercase tracking-widest">No Upcoming Events</div>}
+                {rows.length === 0 && <div className="text-center opacity-40 mt-10 text-xs font-bold uppercase tracking-widest">No Upcoming Events</div>}
              </div>
         </WidgetFrame>
     );
@@ -369,7 +393,7 @@ const NewsWidget: React.FC<WidgetProps> = () => {
 
 const CustomApiWidget: React.FC<WidgetProps> = ({ config }) => {
     const [value, setValue] = useState<string>('--');
-    const { endpoint, jsonPath, prefix, suffix, name } = config.settings || {};
+    const { endpoint, jsonPath, prefix, suffix, name } = settingsOf(config, 'custom_api');
 
     useEffect(() => {
         if (!endpoint) return;
@@ -397,12 +421,18 @@ const CustomApiWidget: React.FC<WidgetProps> = ({ config }) => {
     );
 }
 
-const ClockWidget: React.FC<WidgetProps> = () => {
+// One-second tick shared by the clock and bell schedule widgets
+const useClock = () => {
   const [time, setTime] = useState(new Date());
   useEffect(() => {
     const t = setInterval(() => setTime(new Date()), 1000);
     return () => clearInterval(t);
   }, []);
+  return time;
+};
+
+const ClockWidget: React.FC<WidgetProps> = () => {
+  const time = useClock();
   return (
     <WidgetFrame hideHeader>
         <div className="flex flex-col items-center justify-center h-full bg-slate-900/50">
@@ -413,22 +443,110 @@ const ClockWidget: React.FC<WidgetProps> = () => {
   );
 };
 
-const TextWidget: React.FC<WidgetProps> = ({ config }) => (
+const BellScheduleWidget: React.FC<WidgetProps> = ({ appData }) => {
+  const time = useClock();
+  const status = getBellStatus(appData?.bellSchedule, time);
+
+  return (
+    <WidgetFrame title={status.schedule?.name || 'Bell Schedule'} icon={Bell}>
+        <div className="flex flex-col justify-center h-full px-6 pb-6">
+            <span className="text-[10px] font-black uppercase tracking-widest opacity-50">{BELL_STATE_LABELS[status.state]}</span>
+            <span className="text-3xl font-black tracking-tight truncate">{status.current?.name || (status.state === 'passing' || status.state === 'before_school' ? `Next: ${status.next?.name}` : time.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}))}</span>
+            {status.countdownTo && (
+                <span className="text-5xl font-black tabular-nums tracking-tighter mt-2" style={{color: 'var(--accent-color)'}}>{formatCountdown(status.countdownTo, time)}</span>
+            )}
+            {status.current && status.next && (
+                <span className="text-xs font-bold opacity-60 uppercase tracking-widest mt-3 truncate">Next: {status.next.name} · {status.next.start}</span>
+            )}
+        </div>
+    </WidgetFrame>
+  );
+};
+
+const DAY_MS = 86400000;
+
+export const DEFAULT_COUNTDOWN_SETTINGS: CountdownSettings = {
+  label: 'Graduation',
+  target: '',
+  completionMessage: 'The day is here!',
+  onComplete: 'message'
+};
+
+const CountdownWidget: React.FC<WidgetProps> = (props) => {
+  const { config } = props;
+  const time = useClock();
+  const settings: CountdownSettings = { ...DEFAULT_COUNTDOWN_SETTINGS, ...settingsOf(config, 'countdown') };
+  const target = new Date(settings.target).getTime();
+
+  if (Number.isNaN(target)) {
+    return (
+      <WidgetFrame title={settings.label} icon={Hourglass}>
+          <div className="flex items-center justify-center h-full opacity-50 text-sm font-bold">No target date set</div>
+      </WidgetFrame>
+    );
+  }
+
+  const remaining = target - time.getTime();
+  if (remaining <= 0) {
+    if (settings.onComplete === 'hide') return null;
+    // Configs saved before replacements were limited may name a type that can't render without settings
+    const Replacement = settings.onComplete === 'widget' && settings.replacementType && canReplaceCountdown(settings.replacementType)
+      ? COMPONENT_MAP[settings.replacementType]
+      : null;
+    if (Replacement) {
+      const replacement = { ...config, type: settings.replacementType, title: WIDGET_LABELS[settings.replacementType], settings: {} } as WidgetConfig;
+      return <Replacement {...props} config={replacement} />;
+    }
+    return (
+      <WidgetFrame title={settings.label} icon={Hourglass}>
+          <div className="flex items-center justify-center h-full px-6 pb-6 text-center text-3xl font-black tracking-tight">{settings.completionMessage}</div>
+      </WidgetFrame>
+    );
+  }
+
+  // Rounded up to the minute so the display never reads 0m while time is left
+  const totalMinutes = Math.ceil(remaining / 60000);
+  const units = [
+    { label: 'Days', value: Math.floor(totalMinutes / 1440) },
+    { label: 'Hours', value: Math.floor((totalMinutes % 1440) / 60) },
+    { label: 'Minutes', value: totalMinutes % 60 }
+  ];
+
+  return (
+    <WidgetFrame title={settings.label} icon={Hourglass}>
+        <div className="flex items-center justify-center gap-6 h-full px-6 pb-6">
+            {units.map(unit => (
+                <div key={unit.label} className="flex flex-col items-center">
+                    <span className="text-5xl font-black tabular-nums tracking-tighter" style={{color: 'var(--accent-color)'}}>{unit.value}</span>
+                    <span className="text-[10px] font-black uppercase tracking-widest opacity-50">{unit.label}</span>
+                </div>
+            ))}
+        </div>
+    </WidgetFrame>
+  );
+};
+
+const TextWidget: React.FC<WidgetProps> = ({ config }) => {
+  const { text } = settingsOf(config, 'text');
+  return (
     <WidgetFrame title={config.title || "Text"} icon={Megaphone}>
         <div className="p-6 prose prose-invert prose-sm max-w-none">
-            {config.settings?.text ? (
-                <div className="whitespace-pre-wrap font-bold leading-relaxed">{config.settings.text}</div>
+            {text ? (
+                <div className="whitespace-pre-wrap font-bold leading-relaxed">{text}</div>
             ) : (
                 <div className="opacity-40 italic text-xs">No text content set. Edit in Admin Panel.</div>
             )}
         </div>
     </WidgetFrame>
-);
+  );
+};
 
-const ImageWidget: React.FC<WidgetProps> = ({ config }) => (
+const ImageWidget: React.FC<WidgetProps> = ({ config }) => {
+  const { url } = settingsOf(config, 'image');
+  return (
     <WidgetFrame hideHeader>
-        {config.settings?.url ? (
-            <img src={config.settings.url} className="w-full h-full object-cover" alt="Widget" />
+        {url ? (
+            <img src={url} className="w-full h-full object-cover" alt="Widget" />
         ) : (
             <div className="w-full h-full flex flex-col items-center justify-center bg-white/5 text-white/30 p-4 text-center">
                 <ImageIcon className="w-8 h-8 mb-2 opacity-50" />
@@ -436,10 +554,43 @@ const ImageWidget: React.FC<WidgetProps> = ({ config }) => (
             </div>
         )}
     </WidgetFrame>
-);
+  );
+};
+
+const VideoWidget: React.FC<WidgetProps> = ({ config, isActive = true, onVideoEnded }) => {
+  const video = settingsOf(config, 'video');
+  return (
+    <WidgetFrame hideHeader>
+        {video.url ? (
+            <VideoPlayer video={{ ...video, url: video.url }} active={isActive} onEnded={onVideoEnded} />
+        ) : (
+            <div className="w-full h-full flex flex-col items-center justify-center bg-white/5 text-white/30 p-4 text-center">
+                <Film className="w-8 h-8 mb-2 opacity-50" />
+                <span className="text-[10px] font-bold uppercase tracking-widest">No Video Set</span>
+            </div>
+        )}
+    </WidgetFrame>
+  );
+};
+
+const LiveCamWidget: React.FC<WidgetProps> = ({ config, appData, isActive = true }) => {
+  const { urls, refreshSeconds } = settingsOf(config, 'livecam');
+  return (
+    <WidgetFrame hideHeader>
+        <LiveCamView
+            urls={urls?.length ? urls : appData?.liveCamUrls || []}
+            refreshSeconds={refreshSeconds || appData?.liveCamRefreshSeconds}
+            active={isActive}
+            compact
+        />
+    </WidgetFrame>
+  );
+};
 
-const COMPONENT_MAP: Record<string, React.FC<WidgetProps>> = {
+const COMPONENT_MAP: Partial<Record<WidgetType, React.FC<WidgetProps>>> = {
   clock: ClockWidget,
+  bell_schedule: BellScheduleWidget,
+  countdown: CountdownWidget,
   weather: WeatherWidget,
   featured_announcements: FeaturedAnnouncementWidget,
   nasa: NasaWidget,
@@ -448,10 +599,12 @@ const COMPONENT_MAP: Record<string, React.FC<WidgetProps>> = {
   events: EventsWidget,
   text: TextWidget,
   image: ImageWidget,
+  video: VideoWidget,
+  livecam: LiveCamWidget,
   custom_api: CustomApiWidget
 };
 
-export const GridRenderer: React.FC<{ layout: GridItemConfig[], widgets: Record<string, WidgetConfig>, appData: AppData, width: number }> = ({ layout, widgets, appData, width }) => {
+export const GridRenderer: React.FC<{ layout: GridItemConfig[], widgets: Record<string, WidgetConfig>, appData: AppData, width: number, gap?: number, isActive?: boolean, onVideoEnded?: (widgetId: string) => void }> = ({ layout, widgets, appData, width, gap = 20, isActive, onVideoEnded }) => {
     
     // CRITICAL: Synchronize layouts across all breakpoints to prevent auto-compacting and overlap
     // Using a strictly computed coordinate map to ensure what you see in designer is what you see in kiosk
@@ -488,7 +641,7 @@ export const GridRenderer: React.FC<{ layout: GridItemConfig[], widgets: Record<
                     width={width}
                     isDraggable={false}
                     isResizable={false}
-                    margin={[20, 20]}
+                    margin={[gap, gap]}
                     containerPadding={[0, 0]}
                     useCSSTransforms={true}
                     compactType={null} 
@@ -501,7 +654,7 @@ export const GridRenderer: React.FC<{ layout: GridItemConfig[], widgets: Record<
                         return (
                             <div key={item.i} className="select-none h-full w-full">
                                 <ErrorBoundary componentName={`Widget: ${widgetConfig.type} (${item.i})`}>
-                                    <Component config={widgetConfig} appData={appData} />
+                                    <Component config={widgetConfig} appData={appData} isActive={isActive} onVideoEnded={() => onVideoEnded?.(item.i)} />
                                 </ErrorBoundary>
                             </div>
                         );
@@ -512,9 +665,23 @@ export const GridRenderer: React.FC<{ layout: GridItemConfig[], widgets: Record<
     );
 };
 
-export const WIDGET_TYPES = Object.keys(COMPONENT_MAP).filter(t => t !== 'custom_api');
+/**
+ * A single widget outside the grid, as the designer's settings panel previews it.
+ */
+export const WidgetPreview: React.FC<{ config: WidgetConfig; appData: AppData }> = ({ config, appData }) => {
+    const Component = COMPONENT_MAP[config.type] || COMPONENT_MAP.text;
+    return (
+        <ErrorBoundary componentName={`Widget preview: ${config.type}`}>
+            <Component config={config} appData={appData} isActive={false} />
+        </ErrorBoundary>
+    );
+};
+
+export const WIDGET_TYPES = (Object.keys(COMPONENT_MAP) as WidgetType[]).filter(t => t !== 'custom_api');
 export const WIDGET_LABELS: Record<string, string> = {
     clock: "Clock",
+    bell_schedule: "Bell Schedule",
+    countdown: "Countdown",
     weather: "Weather",
     featured_announcements: "Slideshow",
     nasa: "NASA Space",
@@ -523,5 +690,21 @@ export const WIDGET_LABELS: Record<string, string> = {
     events: "Events List",
     text: "Rich Text",
     image: "Static Image",
+    video: "Video",
+    livecam: "Live Camera",
     custom_api: "API Data"
 };
+
+/**
+ * Settings a newly added widget starts with.
+ */
+export const getDefaultWidgetSettings = <W extends WidgetType>(type: W): WidgetSettingsOf<W> => {
+    if (type === 'countdown') {
+        // A month out at 9:00 so the new widget shows something sensible in the designer
+        const target = new Date(Date.now() + 30 * DAY_MS);
+        target.setHours(9, 0, 0, 0);
+        const countdown: WidgetSettingsOf<'countdown'> = { ...DEFAULT_COUNTDOWN_SETTINGS, target: target.toISOString() };
+        return countdown as WidgetSettingsOf<W>;
+    }
+    return {} as WidgetSettingsOf<W>;
+};
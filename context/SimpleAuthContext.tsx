@@ -1,11 +1,12 @@
-
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { AdminSession } from '../types';
 import { safeStorage } from '../lib/safeStorage';
+import { getAuthProvider, SignInResult } from '../services/authProvider';
+import { isAdminRole } from '../services/roleService';
 
 interface SimpleAuthContextType {
   session: AdminSession | null;
-  login: (email: string) => void;
+  login: (email: string, password: string) => Promise<SignInResult>;
   logout: () => void;
   isAuthenticated: boolean;
 }
@@ -22,7 +23,8 @@ export const SimpleAuthProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     if (stored) {
       try {
         const parsed: AdminSession = JSON.parse(stored);
-        if (Date.now() < parsed.expiresAt) {
+        // Sessions from before role-based accounts carry no role and must sign in again
+        if (Date.now() < parsed.expiresAt && isAdminRole(parsed.role)) {
           setSession(parsed);
         } else {
           safeStorage.removeItem(SESSION_KEY);
@@ -33,19 +35,26 @@ export const SimpleAuthProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     }
   }, []);
 
-  const login = (email: string) => {
+  const login = async (email: string, password: string) => {
+    const provider = getAuthProvider();
+    const result = await provider.signIn(email, password);
+    if (!result.ok) return result;
+
     const now = Date.now();
     const newSession: AdminSession = {
-      email,
-      method: 'passcode',
+      email: result.user.email,
+      role: result.user.role,
+      method: provider.id,
       createdAt: now,
       expiresAt: now + (8 * 60 * 60 * 1000) // 8 hours
     };
     safeStorage.setItem(SESSION_KEY, JSON.stringify(newSession));
     setSession(newSession);
+    return result;
   };
 
   const logout = () => {
+    getAuthProvider().signOut();
     safeStorage.removeItem(SESSION_KEY);
     setSession(null);
   };
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import path from 'path';
+import type { Connect, Plugin } from 'vite';
+import type { MediaAsset } from '../types';
+
+// services/mediaService.ts localMediaStore talks to this route
+const LOCAL_MEDIA_ROUTE = '/local-media';
+
+/**
+ * Local filesystem stand-in for the media library's Supabase storage and `media_assets` table,
+ * served by the Vite dev and preview servers when MEDIA_STORE=local. Files go under
+ * `<dir>/files/`, asset records into `<dir>/assets.json`. There is no authentication: it is
+ * for development and single-machine installs, not for a server other people can reach.
+ *
+ *   PUT    /local-media/files/<path>   store a file
+ *   GET    /local-media/files/<path>   serve it
+ *   POST   /local-media/remove         { paths } delete files
+ *   GET    /local-media/assets?tenant= list a tenant's assets, newest first
+ *   POST   /local-media/assets         save an asset record
+ *   PATCH  /local-media/assets/<id>    { tags }
+ *   DELETE /local-media/assets/<id>
+ */
+export const localMediaPlugin = (dir: string): Plugin => {
+  const filesDir = path.resolve(dir, 'files');
+  const indexFile = path.resolve(dir, 'assets.json');
+
+  const readAssets = (): MediaAsset[] => {
+    try {
+      return JSON.parse(fs.readFileSync(indexFile, 'utf-8'));
+    } catch {
+      return [];
+    }
+  };
+
+  const writeAssets = (assets: MediaAsset[]) => {
+    fs.mkdirSync(path.dirname(indexFile), { recursive: true });
+    fs.writeFileSync(indexFile, JSON.stringify(assets, null, 2));
+  };
+
+  // Keeps request paths inside the files directory
+  const resolveFile = (relative: string) => {
+    const file = path.resolve(filesDir, relative);
+    if (!file.startsWith(filesDir + path.sep)) throw new Error(`Invalid media path: ${relative}`);
+    return file;
+  };
+
+  // Content types are kept next to each file so it is served back as uploaded
+  const typeFileOf = (file: string) => `${file}.content-type`;
+
+  const readBody = (req: Connect.IncomingMessage): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks)));
+      req.on('error', reject);
+    });
+
+  const readJson = async (req: Connect.IncomingMessage) => JSON.parse((await readBody(req)).toString('utf-8') || '{}');
+
+  const handle: Connect.NextHandleFunction = async (req, res, next) => {
+    const url = new URL(req.url || '', 'http://localhost');
+    if (!url.pathname.startsWith(`${LOCAL_MEDIA_ROUTE}/`)) return next();
+    const route = decodeURIComponent(url.pathname.slice(LOCAL_MEDIA_ROUTE.length + 1));
+
+    const sendJson = (status: number, body?: unknown) => {
+      res.statusCode = status;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(body === undefined ? '' : JSON.stringify(body));
+    };
+
+    try {
+      if (route.startsWith('files/')) {
+        const file = resolveFile(route.slice('files/'.length));
+        if (req.method === 'PUT') {
+          if (fs.existsSync(file)) return sendJson(409, { error: 'File already exists' });
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, await readBody(req));
+          fs.writeFileSync(typeFileOf(file), req.headers['content-type'] || 'application/octet-stream');
+          return sendJson(201);
+        }
+        if (req.method === 'GET' || req.method === 'HEAD') {
+          if (!fs.existsSync(file)) return sendJson(404, { error: 'Not found' });
+          res.setHeader('Content-Type', fs.existsSync(typeFileOf(file)) ? fs.readFileSync(typeFileOf(file), 'utf-8') : 'application/octet-stream');
+          res.setHeader('Cache-Control', 'public, max-age=31536000');
+          if (req.method === 'HEAD') return res.end();
+          return fs.createReadStream(file).pipe(res);
+        }
+      }
+
+      if (route === 'remove' && req.method === 'POST') {
+        const { paths = [] } = await readJson(req);
+        (paths as string[]).map(resolveFile).forEach(file => {
+          fs.rmSync(file, { force: true });
+          fs.rmSync(typeFileOf(file), { force: true });
+        });
+        return sendJson(204);
+      }
+
+      if (route === 'assets') {
+        if (req.method === 'GET') {
+          const tenantId = url.searchParams.get('tenant');
+          return sendJson(200, readAssets().filter(a => a.tenantId === tenantId).sort((a, b) => b.createdAt - a.createdAt));
+        }
+        if (req.method === 'POST') {
+          const asset: MediaAsset = await readJson(req);
+          writeAssets([...readAssets().filter(a => a.id !== asset.id), asset]);
+          return sendJson(201, asset);
+        }
+      }
+
+      if (route.startsWith('assets/')) {
+        const id = route.slice('assets/'.length);
+        const assets = readAssets();
+        if (!assets.some(a => a.id === id)) return sendJson(404, { error: 'Not found' });
+        if (req.method === 'PATCH') {
+          const { tags = [] } = await readJson(req);
+          writeAssets(assets.map(a => a.id === id ? { ...a, tags } : a));
+          return sendJson(204);
+        }
+        if (req.method === 'DELETE') {
+          writeAssets(assets.filter(a => a.id !== id));
+          return sendJson(204);
+        }
+      }
+
+      sendJson(405, { error: `${req.method} ${url.pathname} is not supported` });
+    } catch (error) {
+      sendJson(400, { error: error instanceof Error ? error.message : 'Bad request' });
+    }
+  };
+
+  return {
+    name: 'local-media',
+    configureServer: (server) => { server.middlewares.use(handle); },
+    configurePreviewServer: (server) => { server.middlewares.use(handle); }
+  };
+};
@@ -5,14 +5,13 @@ import { useSimpleAuth } from '../context/SimpleAuthContext';
 import { logLoginAttempt } from '../services/authLogService';
 import { getStoredData } from '../services/storageService';
 import { AppData } from '../types';
-
-const ADMIN_PASSCODE = "AmtEvent1$";
+import { isAllowedEmailDomain } from '../services/roleService';
 
 const SimpleLogin: React.FC = () => {
   const { login } = useSimpleAuth();
   const [data, setData] = useState<AppData>(getStoredData());
   const [email, setEmail] = useState('');
-  const [passcode, setPasscode] = useState('');
+  const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
@@ -30,7 +29,7 @@ const SimpleLogin: React.FC = () => {
   const logoUrl = theme.logoUrl;
   const schoolName = data.schoolName;
 
-  const isFormValid = email.trim().length > 0 && passcode.trim().length > 0;
+  const isFormValid = email.trim().length > 0 && password.trim().length > 0;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,26 +38,33 @@ const SimpleLogin: React.FC = () => {
     setError('');
     setLoading(true);
 
-    await new Promise(r => setTimeout(r, 800));
-
     const lowercaseEmail = email.toLowerCase().trim();
+    const allowedDomains = data.adminEmailDomains || [];
     
-    if (!lowercaseEmail.endsWith('@schools.nyc.gov')) {
+    if (!isAllowedEmailDomain(lowercaseEmail, allowedDomains)) {
       logLoginAttempt(lowercaseEmail, false, 'invalid_email_domain');
-      setError('Unauthorized domain. Staff email required (@schools.nyc.gov).');
+      setError(`Unauthorized domain. Staff email required (${allowedDomains.map(d => `@${d}`).join(', ')}).`);
       setLoading(false);
       return;
     }
 
-    if (passcode !== ADMIN_PASSCODE) {
-      logLoginAttempt(lowercaseEmail, false, 'wrong_passcode');
-      setError('Invalid security passcode. Access denied.');
+    try {
+      const result = await login(lowercaseEmail, password);
+      if (!result.ok) {
+        logLoginAttempt(lowercaseEmail, false, result.reason);
+        setError(result.message);
+        setLoading(false);
+        return;
+      }
+    } catch (err) {
+      console.error('Sign in failed', err);
+      logLoginAttempt(lowercaseEmail, false, 'unknown');
+      setError('Sign in service unavailable. Try again shortly.');
       setLoading(false);
       return;
     }
 
     logLoginAttempt(lowercaseEmail, true, 'success');
-    login(lowercaseEmail);
     setLoading(false);
   };
 
@@ -115,7 +121,7 @@ const SimpleLogin: React.FC = () => {
                 <Mail className="absolute left-5 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500 group-focus-within:text-blue-400 transition-colors" />
                 <input
                   type="email"
-                  placeholder="DOE Staff Email (@schools.nyc.gov)"
+                  placeholder={`Staff Email${data.adminEmailDomains?.length ? ` (@${data.adminEmailDomains[0]})` : ''}`}
                   required
                   className="w-full pl-14 pr-6 py-5 bg-black/40 border border-white/10 rounded-2xl focus:outline-none transition-all text-sm font-semibold text-white placeholder-slate-600 focus:ring-2"
                   style={{ '--tw-ring-color': `var(--accent-color)` } as any}
@@ -130,12 +136,12 @@ const SimpleLogin: React.FC = () => {
                 <Lock className="absolute left-5 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500 group-focus-within:text-blue-400 transition-colors" />
                 <input
                   type="password"
-                  placeholder="Admin Passcode"
+                  placeholder="Password"
                   required
                   className="w-full pl-14 pr-6 py-5 bg-black/40 border border-white/10 rounded-2xl focus:outline-none transition-all text-sm font-semibold text-white placeholder-slate-600 focus:ring-2"
                   style={{ '--tw-ring-color': `var(--accent-color)` } as any}
-                  value={passcode}
-                  onChange={(e) => setPasscode(e.target.value)}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
                 />
               </div>
             </div>
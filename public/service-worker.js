@@ -0,0 +1,158 @@
+/**
+ * Hardy Signage offline service worker.
+ *
+ * - App shell (HTML, scripts, styles, CDN modules, fonts): network-first, cached copy when offline.
+ * - Images: cache-first. The kiosk posts every image its config references via PRECACHE_URLS,
+ *   which also drops cached media the config no longer uses.
+ * - Audio and video: served from the media cache when precached (byte ranges cut from the cached copy),
+ *   otherwise straight from the network.
+ * - Config reads (`/rest/v1/app_config`): network-first so a rebooted screen still gets the last good config.
+ */
+const SHELL_CACHE = 'hardy-shell-v1';
+const MEDIA_CACHE = 'hardy-media-v1';
+const CONFIG_CACHE = 'hardy-config-v1';
+const KNOWN_CACHES = [SHELL_CACHE, MEDIA_CACHE, CONFIG_CACHE];
+
+const SHELL_URLS = ['/', '/index.html', '/index.css'];
+const SHELL_HOSTS = ['esm.sh', 'cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => Promise.all(SHELL_URLS.map((url) => cache.add(url).catch(() => undefined))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !KNOWN_CACHES.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request) || (fallbackUrl && await cache.match(fallbackUrl));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+  return response;
+};
+
+// Media elements request byte ranges; answer them from the full cached copy. Opaque copies
+// can't be read, so they are returned whole.
+const rangeResponse = async (request, response) => {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('range') || '');
+  if (!match || response.type === 'opaque' || response.status !== 200) return response;
+
+  const body = await response.arrayBuffer();
+  const size = body.byteLength;
+  const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  if (start > end) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+  return new Response(body.slice(start, end + 1), {
+    status: 206,
+    statusText: 'Partial Content',
+    headers: {
+      'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream',
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+      'Content-Length': String(end - start + 1),
+    },
+  });
+};
+
+// Partial network responses can't be cached, so only precached audio and video is served offline
+const cachedMediaFirst = async (request) => {
+  const cache = await caches.open(MEDIA_CACHE);
+  const cached = await cache.match(request.url);
+  return cached ? rangeResponse(request, cached) : fetch(request);
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'));
+    return;
+  }
+
+  if (url.pathname.startsWith('/rest/v1/app_config')) {
+    event.respondWith(networkFirst(request, CONFIG_CACHE));
+    return;
+  }
+
+  // Cache-busted camera feeds (refreshing snapshots, endless MJPEG streams) must never be cached
+  if (url.searchParams.has('_t')) return;
+
+  if (request.destination === 'image') {
+    event.respondWith(cacheFirst(request, MEDIA_CACHE));
+    return;
+  }
+
+  if (request.destination === 'audio' || request.destination === 'video') {
+    event.respondWith(cachedMediaFirst(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin || SHELL_HOSTS.includes(url.hostname)) {
+    event.respondWith(networkFirst(request, SHELL_CACHE));
+  }
+});
+
+// Cross-origin media is fetched with CORS where the host allows it, so audio and video copies
+// can answer range requests; hosts without CORS still get an opaque copy, which images can use.
+const fetchForCache = async (url) => {
+  if (new URL(url, self.location.href).origin === self.location.origin) return fetch(url, { mode: 'same-origin' });
+  try {
+    const response = await fetch(url, { mode: 'cors' });
+    if (response.ok) return response;
+  } catch (e) {
+    // No CORS headers (or offline); fall through to an opaque fetch
+  }
+  return fetch(url, { mode: 'no-cors' });
+};
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'PRECACHE_URLS' || !Array.isArray(event.data.urls)) return;
+
+  // The list is everything the current config uses, so anything else in the media cache is stale
+  const wanted = new Set(event.data.urls.map((url) => new URL(url, self.location.href).href));
+
+  event.waitUntil(
+    caches.open(MEDIA_CACHE).then(async (cache) => {
+      const cachedRequests = await cache.keys();
+      await Promise.all(cachedRequests.filter((request) => !wanted.has(request.url)).map((request) => cache.delete(request)));
+
+      await Promise.all(event.data.urls.map(async (url) => {
+        if (await cache.match(url)) return;
+        try {
+          const response = await fetchForCache(url);
+          if (response.ok || response.type === 'opaque') await cache.put(url, response);
+        } catch (e) {
+          // Unreachable right now; the next config update will retry.
+        }
+      }));
+    })
+  );
+});
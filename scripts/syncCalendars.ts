@@ -0,0 +1,81 @@
+import { createClient } from '@supabase/supabase-js';
+import { AppData } from '../types';
+import { hasCalendarChanges, isSourceDue, mergeCalendarSync, syncCalendarSources } from '../services/calendarService';
+
+/**
+ * Scheduled calendar sync, run by .github/workflows/calendar-sync.yml (`npm run sync-calendars`).
+ * Fetches the due calendar sources of every display group and saves the synced events into
+ * its `app_config` row, so screens stay current whether or not an admin is signed in. Writes
+ * as the service role, which row level security lets through; a sync that changes nothing
+ * is not saved and leaves no revision.
+ */
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to sync calendars.');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+interface ConfigRow {
+  tenant_id: string;
+  group_id: string;
+  data: AppData | null;
+}
+
+/**
+ * Syncs one group's due sources and saves the result. Returns whether anything was saved.
+ */
+const syncGroup = async (row: ConfigRow): Promise<boolean> => {
+  const saved = row.data;
+  const sources = saved?.calendarSources || [];
+  if (!sources.some(source => source.enabled && source.url.trim() && isSourceDue(source))) return false;
+
+  const result = await syncCalendarSources(sources, saved.events || [], false, saved.eventSettings?.timeZone);
+  if (!hasCalendarChanges({ sources, events: saved.events || [] }, result)) return false;
+
+  // An admin may have saved while the feeds were fetched; apply the sync to the config as it is now
+  const { data: current, error: loadError } = await supabase
+    .from('app_config')
+    .select('data')
+    .eq('tenant_id', row.tenant_id)
+    .eq('group_id', row.group_id)
+    .single();
+  if (loadError) throw loadError;
+  const latest = current.data as AppData;
+  const merged = mergeCalendarSync({ sources: latest.calendarSources || [], events: latest.events || [] }, result);
+  const snapshot: AppData = { ...latest, calendarSources: merged.sources, events: merged.events };
+
+  const { error: saveError } = await supabase
+    .from('app_config')
+    .update({ data: snapshot })
+    .eq('tenant_id', row.tenant_id)
+    .eq('group_id', row.group_id);
+  if (saveError) throw saveError;
+
+  // Like saveAppData, a failed history write doesn't undo the save the screens already have
+  const { error: revisionError } = await supabase
+    .from('app_config_revisions')
+    .insert({ tenant_id: row.tenant_id, group_id: row.group_id, data: snapshot, author_email: null, note: 'Calendar sync' });
+  if (revisionError) console.error(`Config saved but revision history write failed for ${row.tenant_id}/${row.group_id}`, revisionError);
+  return true;
+};
+
+const { data: rows, error } = await supabase.from('app_config').select('tenant_id, group_id, data');
+if (error) {
+  console.error('Failed to load configs', error);
+  process.exit(1);
+}
+
+let failed = false;
+for (const row of rows as ConfigRow[]) {
+  const target = `${row.tenant_id}/${row.group_id}`;
+  try {
+    console.log(await syncGroup(row) ? `${target}: saved synced calendars` : `${target}: nothing to save`);
+  } catch (syncError) {
+    failed = true;
+    console.error(`${target}: calendar sync failed`, syncError);
+  }
+}
+if (failed) process.exit(1);
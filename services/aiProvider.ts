@@ -0,0 +1,236 @@
+import { GoogleGenAI } from '@google/genai';
+import { AiProviderKind, AiSettings, AiTask } from '../types';
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+}
+
+export interface AiRequest {
+  task: AiTask;
+  prompt: string;
+  input: string;        // The user's own text inside the prompt; the mock provider works from this
+  schema?: JsonSchema;  // Ask for JSON matching this schema
+  webSearch?: boolean;  // Ground the answer with web search where the provider supports it
+}
+
+export interface AiResponse {
+  text: string;
+  sources?: string[]; // Web results the answer was grounded on, in order
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+export interface AiCall extends AiRequest {
+  model: string;
+  settings: AiSettings;
+  signal: AbortSignal;
+}
+
+/**
+ * Pluggable text-generation backend. Providers throw on failure; errors with an HTTP `status`
+ * let aiService decide whether a retry could help.
+ */
+export interface AiProvider {
+  id: AiProviderKind;
+  label: string;
+  defaultModel: string;
+  generate: (call: AiCall) => Promise<AiResponse>;
+}
+
+const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+// Providers without native structured output get the schema spelled out in the prompt
+const withSchema = (call: AiCall) =>
+  call.schema ? `${call.prompt}\n\nRespond with JSON only, matching this JSON schema: ${JSON.stringify(call.schema)}` : call.prompt;
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-3-flash-preview',
+
+  generate: async (call) => {
+    const ai = new GoogleGenAI({ apiKey: call.settings.apiKey || process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: call.model,
+      contents: call.prompt,
+      config: {
+        abortSignal: call.signal,
+        ...(call.schema ? { responseMimeType: 'application/json', responseJsonSchema: call.schema } : {}),
+        ...(call.webSearch ? { tools: [{ googleSearch: {} }] } : {})
+      }
+    });
+    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    return {
+      text: response.text || '',
+      sources: groundingChunks.map(chunk => chunk.web?.uri).filter((uri): uri is string => !!uri),
+      usage: response.usageMetadata && {
+        inputTokens: response.usageMetadata.promptTokenCount || 0,
+        outputTokens: response.usageMetadata.candidatesTokenCount || 0
+      }
+    };
+  }
+};
+
+/**
+ * Any `/chat/completions` endpoint: OpenAI, Azure OpenAI, OpenRouter, vLLM, LM Studio.
+ */
+export const openAiProvider: AiProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: 'gpt-4o-mini',
+
+  generate: async (call) => {
+    const baseUrl = (call.settings.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+    // Entered in AI settings at runtime; never built into the bundle, which anyone can read
+    const apiKey = call.settings.apiKey;
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: call.signal,
+      headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+      body: JSON.stringify({
+        model: call.model,
+        messages: [{ role: 'user', content: withSchema(call) }],
+        ...(call.schema ? { response_format: { type: 'json_object' } } : {})
+      })
+    });
+    if (!res.ok) throw httpError(res.status, `AI request failed: HTTP ${res.status}`);
+    const data = await res.json();
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      usage: data.usage && { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 }
+    };
+  }
+};
+
+/**
+ * A local Ollama server (or anything speaking its `/api/chat`).
+ */
+export const ollamaProvider: AiProvider = {
+  id: 'ollama',
+  label: 'Local (Ollama)',
+  defaultModel: 'llama3.2',
+
+  generate: async (call) => {
+    const baseUrl = (call.settings.baseUrl || 'http://localhost:11434').replace(/\/$/, '');
+    const res = await fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      signal: call.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: call.model,
+        stream: false,
+        messages: [{ role: 'user', content: withSchema(call) }],
+        ...(call.schema ? { format: call.schema } : {})
+      })
+    });
+    if (!res.ok) throw httpError(res.status, `AI request failed: HTTP ${res.status}`);
+    const data = await res.json();
+    return {
+      text: data.message?.content || '',
+      usage: { inputTokens: data.prompt_eval_count || 0, outputTokens: data.eval_count || 0 }
+    };
+  }
+};
+
+const MOCK_PALETTES = [
+  { gradientStart: '#0f172a', gradientEnd: '#1e3a8a', accentColor: '#38bdf8', textColor: '#ffffff' },
+  { gradientStart: '#1a0b0b', gradientEnd: '#7f1d1d', accentColor: '#fbbf24', textColor: '#ffffff' },
+  { gradientStart: '#052e16', gradientEnd: '#14532d', accentColor: '#4ade80', textColor: '#f0fdf4' },
+  { gradientStart: '#1e1b4b', gradientEnd: '#4c1d95', accentColor: '#c084fc', textColor: '#ffffff' },
+  // Deliberately too dim, so the contrast fixes can be exercised offline
+  { gradientStart: '#27272a', gradientEnd: '#3f3f46', accentColor: '#52525b', textColor: '#71717a' }
+];
+
+const MOCK_HEADLINES = [
+  'States Expand Free School Meal Programs - Education Weekly',
+  'New Study Links Later Start Times to Better Attendance - Campus Report',
+  'Districts Add Computer Science Graduation Credits - The Learning Desk',
+  'Record Number of Students Take AP Exams - College Board News',
+  'Teacher Residency Programs Grow Nationwide - School Leaders Today',
+  'Libraries Partner With Schools on Summer Reading - Community Times'
+];
+
+const DATE_PATTERN = /\b(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.? \d{1,2}\b|\b\d{1,2}\/\d{1,2}\b/i;
+const TIME_PATTERN = /\b\d{1,2}(?::\d{2})? ?(?:am|pm)\b/i;
+const LOCATION_PATTERN = /\b(?:in|at) the ([A-Z][\w ]+?)(?=[.,]|$)/;
+
+const hash = (text: string) => Array.from(text).reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7);
+
+const firstWords = (text: string, count: number) => text.split(/\s+/).filter(Boolean).slice(0, count).join(' ');
+
+const mockNewsletter = (input: string) => {
+  const sentences = input.split(/\n+|(?<=[.!?])\s+/).map(s => s.trim()).filter(s => s.length > 12);
+  const year = new Date().getFullYear();
+  const events = sentences.filter(s => DATE_PATTERN.test(s)).map(s => {
+    const date = new Date(`${s.match(DATE_PATTERN)![0].replace('.', '')} ${year}`);
+    return {
+      title: firstWords(s.replace(DATE_PATTERN, '').replace(TIME_PATTERN, '').replace(LOCATION_PATTERN, '').replace(/(?:\b(?:on|at|in|is)\b[\s.,]*)+$/i, ''), 6),
+      date: isNaN(date.getTime()) ? '' : date.toISOString(),
+      time: s.match(TIME_PATTERN)?.[0] || '',
+      location: s.match(LOCATION_PATTERN)?.[1] || '',
+      category: 'General'
+    };
+  });
+  const announcements = sentences.filter(s => !DATE_PATTERN.test(s)).map(s => ({
+    title: firstWords(s, 6),
+    content: firstWords(s, 30),
+    priority: /urgent|important|reminder/i.test(s) ? 'high' : 'normal'
+  }));
+  return { events, announcements };
+};
+
+const mockAnswer = (call: AiCall): string => {
+  switch (call.task) {
+    case 'rewrite': {
+      const text = firstWords(call.input.replace(/\s+/g, ' ').trim(), 25);
+      return text ? `${text.charAt(0).toUpperCase()}${text.slice(1).replace(/[.!?]*$/, '')}!` : '';
+    }
+    case 'theme': {
+      const name = firstWords(call.input, 3).replace(/\b\w/g, c => c.toUpperCase()) || 'Mock Theme';
+      return JSON.stringify({ name, ...MOCK_PALETTES[hash(call.input) % MOCK_PALETTES.length] });
+    }
+    case 'newsletter':
+      return JSON.stringify(mockNewsletter(call.input));
+    case 'news':
+      return MOCK_HEADLINES.map((line, i) => `${i + 1}. ${line}`).join('\n');
+  }
+};
+
+/**
+ * Deterministic offline answers derived from the request's input, for demos and testing the import
+ * and theme flows without a network or API key.
+ */
+export const mockAiProvider: AiProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  defaultModel: 'mock',
+
+  generate: async (call) => {
+    const text = mockAnswer(call);
+    return { text, usage: { inputTokens: estimateTokens(call.prompt), outputTokens: estimateTokens(text) } };
+  }
+};
+
+export const AI_PROVIDERS: Record<AiProviderKind, AiProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  ollama: ollamaProvider,
+  mock: mockAiProvider
+};
+
+let providerOverride: AiProvider | null = null;
+
+/**
+ * The provider for `kind`, unless one was installed with setAiProvider.
+ */
+export const getAiProvider = (kind: AiProviderKind) => providerOverride || AI_PROVIDERS[kind];
+
+/**
+ * Routes every AI request to `provider` regardless of settings; pass null to go back to the configured one.
+ */
+export const setAiProvider = (provider: AiProvider | null) => {
+  providerOverride = provider;
+};
@@ -0,0 +1,108 @@
+import { AiProviderKind, AiSettings, AiUsageEntry } from '../types';
+import { safeStorage } from '../lib/safeStorage';
+import { AI_PROVIDERS, AiRequest, AiResponse, getAiProvider } from './aiProvider';
+
+const SETTINGS_KEY = 'HARDY_AI_SETTINGS';
+const USAGE_KEY = 'HARDY_AI_USAGE';
+const RETRY_BASE_DELAY_MS = 1000;
+
+const envProvider = process.env.AI_PROVIDER as AiProviderKind | undefined;
+
+// Build-time defaults (AI_PROVIDER, AI_MODEL, AI_BASE_URL); the admin panel can override them per browser
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: envProvider && envProvider in AI_PROVIDERS ? envProvider : 'gemini',
+  model: process.env.AI_MODEL || undefined,
+  baseUrl: process.env.AI_BASE_URL || undefined,
+  timeoutMs: 30000,
+  maxRetries: 2
+};
+
+export const getAiSettings = (): AiSettings => {
+  try {
+    const stored = safeStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_AI_SETTINGS, ...JSON.parse(stored) } : DEFAULT_AI_SETTINGS;
+  } catch (e) {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  safeStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const resetAiSettings = () => {
+  safeStorage.removeItem(SETTINGS_KEY);
+};
+
+export const getAiUsage = (): AiUsageEntry[] => {
+  try {
+    const stored = safeStorage.getItem(USAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const clearAiUsage = () => {
+  safeStorage.removeItem(USAGE_KEY);
+};
+
+const recordUsage = (provider: AiProviderKind, model: string, response: AiResponse | null) => {
+  const usage = getAiUsage();
+  const existing = usage.find(u => u.provider === provider && u.model === model);
+  const entry: AiUsageEntry = existing || { provider, model, requests: 0, failures: 0, inputTokens: 0, outputTokens: 0, lastUsedAt: 0 };
+  entry.requests += 1;
+  if (!response) entry.failures += 1;
+  entry.inputTokens += response?.usage?.inputTokens || 0;
+  entry.outputTokens += response?.usage?.outputTokens || 0;
+  entry.lastUsedAt = Date.now();
+  safeStorage.setItem(USAGE_KEY, JSON.stringify(existing ? usage : [...usage, entry]));
+};
+
+// Network failures, rate limits and server errors; not timeouts, cancellations or bad requests
+const isRetryable = (error: any) =>
+  error?.name !== 'TimeoutError' && error?.name !== 'AbortError' &&
+  (typeof error?.status !== 'number' || error.status === 429 || error.status >= 500);
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => { clearTimeout(timer); reject(signal!.reason); };
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Sends a request to the configured provider. Each attempt is cut off after `timeoutMs`; failures
+ * that a retry could fix are retried with exponential backoff. Aborting `signal` cancels the
+ * request in flight and any retries. Every attempt counts towards usage.
+ */
+export const runAi = async (request: AiRequest, signal?: AbortSignal): Promise<AiResponse> => {
+  const settings = getAiSettings();
+  const provider = getAiProvider(settings.provider);
+  const model = settings.model || provider.defaultModel;
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= settings.maxRetries; attempt++) {
+    if (signal?.aborted) throw signal.reason;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    const timer = setTimeout(() => controller.abort(new DOMException(`AI request timed out after ${Math.round(settings.timeoutMs / 1000)}s`, 'TimeoutError')), settings.timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await provider.generate({ ...request, model, settings, signal: controller.signal });
+      recordUsage(provider.id, model, response);
+      return response;
+    } catch (error) {
+      recordUsage(provider.id, model, null);
+      // The SDKs report an abort with their own error, so report the reason we aborted with instead
+      lastError = controller.signal.aborted ? controller.signal.reason : error;
+      if (signal?.aborted || !isRetryable(lastError) || attempt === settings.maxRetries) break;
+      console.error(`AI request failed (attempt ${attempt + 1}), retrying`, error);
+      await wait(RETRY_BASE_DELAY_MS * 2 ** attempt, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+  throw lastError;
+};
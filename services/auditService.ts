@@ -0,0 +1,110 @@
+import { AuditAction, AuditEntry, AuditFilter, DisplayTarget } from '../types';
+import { supabase } from '../lib/supabase';
+
+/**
+ * Central admin audit trail, stored as append-only rows in `admin_audit_log`
+ * (id, tenant_id, group_id, actor_email, action, summary, details, created_at).
+ * The table's policies should only allow INSERT and SELECT.
+ */
+const AUDIT_LIST_LIMIT = 500;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  login: 'Sign-in',
+  config_save: 'Config Save',
+  announcement_edit: 'Announcement Edit',
+  raw_config_edit: 'Raw Config Edit',
+  emergency_trigger: 'Emergency Triggered',
+  emergency_clear: 'Emergency Cleared',
+  revision_restore: 'Revision Restore',
+  group_create: 'Display Group Created',
+  factory_reset: 'Factory Reset',
+  import: 'AI Import',
+};
+
+const mapEntry = (row: any): AuditEntry => ({
+  id: String(row.id),
+  actorEmail: row.actor_email || 'unknown',
+  action: row.action,
+  summary: row.summary || '',
+  tenantId: row.tenant_id || undefined,
+  groupId: row.group_id || undefined,
+  details: row.details || undefined,
+  createdAt: new Date(row.created_at).getTime(),
+});
+
+/**
+ * Records an admin action. Failures are logged but never thrown so auditing can't block the action itself.
+ */
+export const recordAuditEvent = async (
+  actorEmail: string,
+  action: AuditAction,
+  summary: string,
+  target?: DisplayTarget,
+  details?: Record<string, unknown>
+): Promise<void> => {
+  const { error } = await supabase
+    .from('admin_audit_log')
+    .insert({
+      actor_email: actorEmail,
+      action,
+      summary,
+      tenant_id: target?.tenantId ?? null,
+      group_id: target?.groupId ?? null,
+      details: details ?? null,
+    });
+
+  if (error) console.error('Failed to record audit event', error);
+};
+
+/**
+ * Lists audit entries for a tenant, newest first, filtered server-side.
+ */
+export const listAuditEvents = async (tenantId: string, filter: AuditFilter = {}): Promise<AuditEntry[]> => {
+  let query = supabase
+    .from('admin_audit_log')
+    .select('*')
+    .eq('tenant_id', tenantId);
+
+  if (filter.email?.trim()) query = query.ilike('actor_email', `%${filter.email.trim()}%`);
+  if (filter.action) query = query.eq('action', filter.action);
+  if (filter.fromDate) query = query.gte('created_at', new Date(`${filter.fromDate}T00:00:00`).toISOString());
+  if (filter.toDate) {
+    const end = new Date(`${filter.toDate}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    query = query.lt('created_at', end.toISOString());
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(AUDIT_LIST_LIMIT);
+
+  if (error) {
+    console.error('Failed to list audit events', error);
+    return [];
+  }
+
+  return (data || []).map(mapEntry);
+};
+
+// Spreadsheets run cells starting with these as formulas; a leading ' makes them plain text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown) => {
+  const raw = value === undefined || value === null ? '' : String(value);
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const auditEntriesToCsv = (entries: AuditEntry[]): string => {
+  const header = ['Timestamp', 'User', 'Action', 'Summary', 'Tenant', 'Group', 'Details'];
+  const rows = entries.map(entry => [
+    new Date(entry.createdAt).toISOString(),
+    entry.actorEmail,
+    AUDIT_ACTION_LABELS[entry.action] || entry.action,
+    entry.summary,
+    entry.tenantId,
+    entry.groupId,
+    entry.details ? JSON.stringify(entry.details) : '',
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
@@ -1,6 +1,8 @@
 
 import { LoginLogEntry } from '../types';
 import { safeStorage } from '../lib/safeStorage';
+import { recordAuditEvent } from './auditService';
+import { getActiveTarget } from './tenantService';
 
 const LOG_KEY = 'admin_login_log';
 const MAX_LOGS = 200;
@@ -28,6 +30,14 @@ export const logLoginAttempt = (
 
     const updatedLogs = [newEntry, ...logs].slice(0, MAX_LOGS);
     safeStorage.setItem(LOG_KEY, JSON.stringify(updatedLogs));
+
+    recordAuditEvent(
+      email,
+      'login',
+      success ? 'Signed in' : `Sign-in failed (${reason})`,
+      getActiveTarget(),
+      { success, reason, userAgent: newEntry.userAgent }
+    );
   } catch (e) {
     console.error("Auth Logging Failed", e);
   }
@@ -0,0 +1,62 @@
+import { AdminRole, LoginLogEntry } from '../types';
+import { supabase } from '../lib/supabase';
+import { isAdminRole } from './roleService';
+
+export interface AuthUser {
+  email: string;
+  role: AdminRole;
+}
+
+export type SignInResult =
+  | { ok: true; user: AuthUser }
+  | { ok: false; reason: LoginLogEntry['reason']; message: string };
+
+/**
+ * Pluggable identity backend for the admin panel.
+ */
+export interface AuthProvider {
+  id: string;
+  signIn: (email: string, password: string) => Promise<SignInResult>;
+  signOut: () => Promise<void>;
+}
+
+/**
+ * Supabase Auth with roles looked up from the `admin_users` table (email, role).
+ * Accounts without a recognised role are signed straight back out.
+ */
+export const supabaseAuthProvider: AuthProvider = {
+  id: 'supabase',
+
+  signIn: async (email, password) => {
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error || !data.user) {
+      return { ok: false, reason: 'invalid_credentials', message: 'Invalid email or password. Access denied.' };
+    }
+
+    const { data: account, error: roleError } = await supabase
+      .from('admin_users')
+      .select('role')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (roleError || !isAdminRole(account?.role)) {
+      await supabase.auth.signOut();
+      return { ok: false, reason: 'no_role', message: 'This account has not been granted admin access.' };
+    }
+
+    return { ok: true, user: { email, role: account.role } };
+  },
+
+  signOut: async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) console.error('Sign out failed', error);
+  }
+};
+
+let activeProvider: AuthProvider = supabaseAuthProvider;
+
+export const getAuthProvider = () => activeProvider;
+
+export const setAuthProvider = (provider: AuthProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,75 @@
+import { BellPeriod, BellSchedule, BellScheduleConfig, BellScheduleOverride, BellStatus } from '../types';
+import { toDateKey, toMinutes } from './scheduleService';
+
+export const DEFAULT_BELL_SCHEDULE: BellScheduleConfig = {
+  showInHeader: false,
+  schedules: [],
+  defaultScheduleId: null,
+  schoolDays: [1, 2, 3, 4, 5],
+  overrides: []
+};
+
+const atMinutes = (day: Date, minutes: number) =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60);
+
+const sortPeriods = (periods: BellPeriod[]) =>
+  [...periods].sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+
+const coversDate = (override: BellScheduleOverride, dateKey: string) =>
+  dateKey >= override.fromDate && dateKey <= (override.toDate || override.fromDate);
+
+/**
+ * The schedule in effect on a date: the latest matching override wins, otherwise the default on school days.
+ */
+export const getScheduleForDate = (config: BellScheduleConfig, date: Date): BellSchedule | null => {
+  const dateKey = toDateKey(date);
+  const override = [...config.overrides].reverse().find(o => coversDate(o, dateKey));
+  const scheduleId = override
+    ? override.scheduleId
+    : config.schoolDays.includes(date.getDay()) ? config.defaultScheduleId : null;
+  return config.schedules.find(s => s.id === scheduleId) || null;
+};
+
+/**
+ * Where the school day stands at `now`: the current period (or passing time), the next period,
+ * and the moment the on-screen countdown runs to.
+ */
+export const getBellStatus = (config: BellScheduleConfig | undefined, now: Date): BellStatus => {
+  const schedule = config ? getScheduleForDate(config, now) : null;
+  if (!schedule || schedule.periods.length === 0) return { state: 'no_school', schedule };
+
+  const periods = sortPeriods(schedule.periods);
+  const minutes = now.getHours() * 60 + now.getMinutes() + now.getSeconds() / 60;
+  const current = periods.find(p => minutes >= toMinutes(p.start) && minutes < toMinutes(p.end));
+  const next = periods.find(p => toMinutes(p.start) > minutes);
+
+  if (current) {
+    return { state: 'in_period', schedule, current, next, countdownTo: atMinutes(now, toMinutes(current.end)) };
+  }
+  if (!next) return { state: 'after_school', schedule };
+  return {
+    state: next === periods[0] ? 'before_school' : 'passing',
+    schedule,
+    next,
+    countdownTo: atMinutes(now, toMinutes(next.start))
+  };
+};
+
+/**
+ * "4:05" or "1:04:05".
+ */
+export const formatCountdown = (target: Date, now: Date) => {
+  const total = Math.max(0, Math.ceil((target.getTime() - now.getTime()) / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+export const BELL_STATE_LABELS: Record<BellStatus['state'], string> = {
+  in_period: 'Now',
+  passing: 'Passing Time',
+  before_school: 'Before School',
+  after_school: 'School Day Over',
+  no_school: 'No School Today'
+};
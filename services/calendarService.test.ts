@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CalendarSource, Event as AppEvent } from '../types';
+import { fetchCalendarEvents, getNextSyncAt, hasCalendarChanges, mergeCalendarSync, parseIcs, syncCalendarSources } from './calendarService';
+
+const calendar = (...vevents: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...vevents.map(lines => `BEGIN:VEVENT\r\n${lines.trim()}\r\nEND:VEVENT`), 'END:VCALENDAR'].join('\r\n');
+
+const source = (extra: Partial<CalendarSource> = {}): CalendarSource => ({
+  id: 'athletics',
+  name: 'Athletics',
+  kind: 'ics_url',
+  url: 'https://example.org/athletics.ics',
+  enabled: true,
+  defaultCategory: 'General',
+  categoryRules: [{ match: 'soccer', category: 'Sports' }],
+  refreshMinutes: 60,
+  ...extra
+});
+
+const serveIcs = (text: string) => vi.stubGlobal('fetch', vi.fn(async () => new Response(text)));
+
+// Syncs keep today through 120 days ahead: 1 September to 30 December 2026
+const NOW = new Date('2026-09-01T12:00:00.000Z');
+
+const starts = (events: AppEvent[]) => events.map(e => e.start);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseIcs', () => {
+  it('unfolds lines and unescapes text', () => {
+    const [event] = parseIcs(calendar(`
+UID:open-house
+SUMMARY:Back to School Night\\, Grades
+  6-8
+LOCATION:Main Gym\\; Door 3
+CATEGORIES:Family,Evening
+DTSTART:20260915T230000Z`));
+    expect(event).toMatchObject({
+      uid: 'open-house',
+      summary: 'Back to School Night, Grades 6-8',
+      location: 'Main Gym; Door 3',
+      categories: ['Family', 'Evening'],
+      allDay: false
+    });
+    expect(event.start.toISOString()).toBe('2026-09-15T23:00:00.000Z');
+  });
+
+  it('ignores colons inside quoted parameters', () => {
+    const [event] = parseIcs(calendar(`
+UID:concert
+SUMMARY:Fall Concert
+LOCATION;ALTREP="https://example.org/map":Auditorium
+DTSTART;TZID="America/New_York":20260915T190000`));
+    expect(event.location).toBe('Auditorium');
+    expect(event.start.toISOString()).toBe('2026-09-15T23:00:00.000Z');
+  });
+
+  it('reads dates as all-day and skips events without a UID or start', () => {
+    const events = parseIcs(calendar(
+      'UID:holiday\r\nSUMMARY:Labor Day\r\nDTSTART;VALUE=DATE:20260907',
+      'SUMMARY:No UID\r\nDTSTART:20260908T120000Z',
+      'UID:no-start\r\nSUMMARY:No start'
+    ));
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ uid: 'holiday', allDay: true });
+    expect(events[0].start.toISOString()).toBe('2026-09-07T00:00:00.000Z');
+  });
+});
+
+describe('fetchCalendarEvents', () => {
+  it('expands weekly rules with BYDAY, COUNT, EXDATE and moved instances', async () => {
+    serveIcs(calendar(`
+UID:practice
+SUMMARY:Soccer practice
+DTSTART;TZID=America/New_York:20260901T153000
+DTEND;TZID=America/New_York:20260901T170000
+RRULE:FREQ=WEEKLY;BYDAY=TU,TH;COUNT=6
+EXDATE;TZID=America/New_York:20260908T153000`, `
+UID:practice
+RECURRENCE-ID;TZID=America/New_York:20260910T153000
+SUMMARY:Soccer practice (moved)
+DTSTART;TZID=America/New_York:20260910T180000
+DTEND;TZID=America/New_York:20260910T193000`));
+
+    const events = await fetchCalendarEvents(source(), NOW);
+    expect(events.map(e => [e.start, e.end, e.title])).toEqual([
+      ['2026-09-01T19:30:00.000Z', '2026-09-01T21:00:00.000Z', 'Soccer practice'],
+      ['2026-09-03T19:30:00.000Z', '2026-09-03T21:00:00.000Z', 'Soccer practice'],
+      ['2026-09-10T22:00:00.000Z', '2026-09-10T23:30:00.000Z', 'Soccer practice (moved)'],
+      ['2026-09-15T19:30:00.000Z', '2026-09-15T21:00:00.000Z', 'Soccer practice'],
+      ['2026-09-17T19:30:00.000Z', '2026-09-17T21:00:00.000Z', 'Soccer practice']
+    ]);
+    // The moved instance keeps the UID of the occurrence it replaces
+    expect(events[2].uid).toBe(`practice@${Date.parse('2026-09-10T19:30:00.000Z')}`);
+    expect(events.every(e => e.category === 'Sports' && e.sourceId === 'athletics')).toBe(true);
+  });
+
+  it('skips months without the start day and counts occurrences before the sync window', async () => {
+    serveIcs(calendar('UID:report\r\nSUMMARY:Reports due\r\nDTSTART;VALUE=DATE:20260831\r\nRRULE:FREQ=MONTHLY;COUNT=3'));
+    const events = await fetchCalendarEvents(source(), NOW);
+    expect(events.map(e => [e.start, e.end, e.allDay])).toEqual([
+      ['2026-10-31T00:00:00.000Z', '2026-11-01T00:00:00.000Z', true]
+    ]);
+  });
+
+  it('stops at UNTIL and at the end of the sync window', async () => {
+    serveIcs(calendar(
+      'UID:testing\r\nSUMMARY:Testing week\r\nDTSTART:20260901T120000Z\r\nRRULE:FREQ=DAILY;UNTIL=20260903T235959Z',
+      'UID:club\r\nSUMMARY:Chess club\r\nDTSTART:20261201T200000Z\r\nRRULE:FREQ=WEEKLY;INTERVAL=2'
+    ));
+    const events = await fetchCalendarEvents(source(), NOW);
+    expect(starts(events.filter(e => e.title === 'Testing week'))).toEqual([
+      '2026-09-01T12:00:00.000Z', '2026-09-02T12:00:00.000Z', '2026-09-03T12:00:00.000Z'
+    ]);
+    expect(starts(events.filter(e => e.title === 'Chess club'))).toEqual([
+      '2026-12-01T20:00:00.000Z', '2026-12-15T20:00:00.000Z', '2026-12-29T20:00:00.000Z'
+    ]);
+  });
+
+  it('drops cancelled events and events outside the window', async () => {
+    serveIcs(calendar(
+      'UID:cancelled\r\nSUMMARY:Picnic\r\nSTATUS:CANCELLED\r\nDTSTART:20260910T160000Z',
+      'UID:past\r\nSUMMARY:Orientation\r\nDTSTART:20260820T160000Z',
+      'UID:far\r\nSUMMARY:Graduation\r\nDTSTART:20270601T160000Z'
+    ));
+    expect(await fetchCalendarEvents(source(), NOW)).toEqual([]);
+  });
+  it('places all-day and floating times in the configured time zone', async () => {
+    serveIcs(calendar(
+      'UID:fair\r\nSUMMARY:Book fair\r\nDTSTART;VALUE=DATE:20261030\r\nRRULE:FREQ=WEEKLY;COUNT=2',
+      'UID:assembly\r\nSUMMARY:Assembly\r\nDTSTART:20260915T090000'
+    ));
+    const events = await fetchCalendarEvents(source(), NOW, 'America/New_York');
+    // Midnight in New York, on either side of the switch back to standard time on 1 November
+    expect(events.map(e => [e.title, e.start, e.end])).toEqual([
+      ['Assembly', '2026-09-15T13:00:00.000Z', undefined],
+      ['Book fair', '2026-10-30T04:00:00.000Z', '2026-10-31T04:00:00.000Z'],
+      ['Book fair', '2026-11-06T05:00:00.000Z', '2026-11-07T05:00:00.000Z']
+    ]);
+  });
+});
+
+describe('getNextSyncAt', () => {
+  const hour = 3600000;
+
+  it('waits the refresh interval after a successful sync', () => {
+    expect(getNextSyncAt(source({ lastSyncedAt: 1000 }))).toBe(1000 + hour);
+  });
+
+  it('doubles the wait for each consecutive failure, up to a day', () => {
+    expect(getNextSyncAt(source({ lastSyncedAt: 0, lastAttemptAt: 5000, failureCount: 1 }))).toBe(5000 + hour);
+    expect(getNextSyncAt(source({ lastSyncedAt: 0, lastAttemptAt: 5000, failureCount: 3 }))).toBe(5000 + 4 * hour);
+    expect(getNextSyncAt(source({ lastSyncedAt: 0, lastAttemptAt: 5000, failureCount: 12 }))).toBe(5000 + 24 * hour);
+  });
+});
+
+describe('syncCalendarSources', () => {
+  const handEntered: AppEvent = { id: 'manual', title: 'Bake sale', location: '', category: 'General', start: '2026-09-05T15:00:00.000Z' };
+  const previous: AppEvent = { ...handEntered, id: 'athletics:old', title: 'Old game', sourceId: 'athletics', uid: 'old' };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps previous events and backs off when a source fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503 })));
+    const result = await syncCalendarSources([source({ failureCount: 1, lastAttemptAt: 0 })], [handEntered, previous], true);
+    expect(result.events).toEqual([handEntered, previous]);
+    expect(result.sources[0]).toMatchObject({ failureCount: 2, lastAttemptAt: NOW.getTime(), lastError: 'Calendar feed returned HTTP 503' });
+  });
+
+  it('replaces a source\'s events and clears its failures on success', async () => {
+    serveIcs(calendar('UID:game\r\nSUMMARY:Soccer vs. Central\r\nDTSTART:20260915T220000Z'));
+    const result = await syncCalendarSources([source({ failureCount: 2, lastError: 'HTTP 503' })], [handEntered, previous], true);
+    expect(result.events.map(e => e.id)).toEqual(['manual', 'athletics:game']);
+    expect(result.sources[0].failureCount).toBeUndefined();
+    expect(result.sources[0].lastError).toBeUndefined();
+  });
+});
+
+describe('hasCalendarChanges', () => {
+  const game: AppEvent = { id: 'athletics:game', title: 'Game', location: '', category: 'Sports', start: '2026-09-15T22:00:00.000Z', sourceId: 'athletics' };
+  const saved = { sources: [source({ lastSyncedAt: 1000, lastAttemptAt: 1000 })], events: [game] };
+
+  it('ignores new sync times, key order and undefined fields', () => {
+    const { title, ...rest } = game;
+    const synced = { sources: [source({ lastSyncedAt: 2000, lastAttemptAt: 2000, lastError: undefined })], events: [{ ...rest, title, allDay: undefined }] };
+    expect(hasCalendarChanges(saved, synced)).toBe(false);
+  });
+
+  it('reports changed events and failures', () => {
+    expect(hasCalendarChanges(saved, { ...saved, events: [{ ...game, location: 'Field 2' }] })).toBe(true);
+    expect(hasCalendarChanges(saved, { ...saved, sources: [source({ lastAttemptAt: 2000, lastError: 'HTTP 503', failureCount: 1 })] })).toBe(true);
+  });
+});
+
+describe('mergeCalendarSync', () => {
+  it('only updates draft sources that still point at the synced feed', () => {
+    const synced = {
+      sources: [source({ lastSyncedAt: 42 }), source({ id: 'arts', url: 'https://example.org/arts.ics', lastSyncedAt: 42 })],
+      events: [
+        { id: 'athletics:game', title: 'Game', location: '', category: 'Sports', start: '2026-09-15T22:00:00.000Z', sourceId: 'athletics' },
+        { id: 'arts:play', title: 'Play', location: '', category: 'Arts', start: '2026-09-16T22:00:00.000Z', sourceId: 'arts' }
+      ]
+    };
+    const draftArtsEvent: AppEvent = { id: 'arts:old', title: 'Old play', location: '', category: 'Arts', start: '2026-09-01T22:00:00.000Z', sourceId: 'arts' };
+    const draft = {
+      sources: [source({ name: 'Renamed' }), source({ id: 'arts', url: 'https://example.org/new-arts.ics' })],
+      events: [{ id: 'athletics:stale', title: 'Stale', location: '', category: 'Sports', start: '2026-09-01T22:00:00.000Z', sourceId: 'athletics' }, draftArtsEvent]
+    };
+
+    const merged = mergeCalendarSync(draft, synced);
+    expect(merged.sources.map(s => [s.name, s.lastSyncedAt])).toEqual([['Renamed', 42], ['Athletics', undefined]]);
+    expect(merged.events.map(e => e.id)).toEqual(['arts:old', 'athletics:game']);
+  });
+});
@@ -0,0 +1,413 @@
+import _ from 'lodash';
+import { CalendarSource, Event as AppEvent, EventCategory } from '../types';
+import { getZonedParts, zonedTimeToUtc } from './eventService';
+
+const GOOGLE_CALENDAR_API = 'https://www.googleapis.com/calendar/v3/calendars';
+export const DEFAULT_CALENDAR_REFRESH_MINUTES = 60;
+// Failing sources back off up to once a day
+const MAX_BACKOFF_MS = 24 * 60 * 60000;
+// Only events from today through this many days ahead are kept
+const SYNC_HORIZON_DAYS = 120;
+const MAX_EVENTS_PER_SOURCE = 250;
+// Upper bound on recurrence periods walked per event, so a malformed RRULE can't spin forever
+const MAX_RECURRENCE_STEPS = 5000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const CALENDAR_KIND_LABELS: Record<CalendarSource['kind'], string> = {
+  ics_url: 'ICS Feed',
+  ics_file: 'Uploaded .ics',
+  google: 'Google Calendar'
+};
+
+/**
+ * A single dated occurrence, before category mapping.
+ */
+interface CalendarOccurrence {
+  uid: string;
+  title: string;
+  location: string;
+  categories: string[];
+  start: Date;
+  end?: Date;
+  allDay: boolean;
+}
+
+interface IcsEvent {
+  uid: string;
+  summary: string;
+  location: string;
+  categories: string[];
+  start: Date;
+  endTime?: number;
+  allDay: boolean;
+  rrule?: Record<string, string>;
+  exdates: number[];
+  recurrenceId?: number;
+  cancelled: boolean;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+// Splits `NAME;PARAM=x:value`, ignoring colons inside quoted parameter values
+const parseProperty = (line: string): IcsProperty | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) { colon = i; break; }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, val = ''] = param.split('=');
+    params[key.toUpperCase()] = val.replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/**
+ * UTC and TZID times are exact; dates and floating times are read in `timeZone`, the events'
+ * configured zone (the screen's own zone when unset).
+ */
+const parseIcsDate = (value: string, params: Record<string, string> = {}, timeZone?: string): { date: Date; allDay: boolean } | null => {
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly || params.VALUE === 'DATE') {
+    const [, y, m, d] = dateOnly || value.match(/^(\d{4})(\d{2})(\d{2})/) || [];
+    if (!y) return null;
+    return { date: zonedTimeToUtc(Number(y), Number(m), Number(d), 0, 0, timeZone), allDay: true };
+  }
+  const dateTime = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!dateTime) return null;
+  const [, y, m, d, hh, mm, ss, utc] = dateTime;
+  const parts = [Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss)] as const;
+  if (utc) return { date: new Date(Date.UTC(...parts)), allDay: false };
+  return { date: zonedTimeToUtc(parts[0], parts[1] + 1, parts[2], parts[3], parts[4], params.TZID || timeZone), allDay: false };
+};
+
+/**
+ * Parses the VEVENTs of an iCalendar document, reading dates and floating times in `timeZone`.
+ */
+export const parseIcs = (text: string, timeZone?: string): IcsEvent[] => {
+  // Unfold continuation lines (RFC 5545 §3.1)
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> | null = null;
+
+  lines.forEach(line => {
+    if (line.startsWith('BEGIN:VEVENT')) {
+      current = { categories: [], exdates: [], cancelled: false, summary: '', location: '' };
+      return;
+    }
+    if (!current) return;
+    if (line.startsWith('END:VEVENT')) {
+      if (current.uid && current.start) events.push(current as IcsEvent);
+      current = null;
+      return;
+    }
+
+    const prop = parseProperty(line);
+    if (!prop) return;
+    switch (prop.name) {
+      case 'UID': current.uid = prop.value.trim(); break;
+      case 'SUMMARY': current.summary = unescapeText(prop.value); break;
+      case 'LOCATION': current.location = unescapeText(prop.value); break;
+      case 'CATEGORIES': current.categories!.push(...prop.value.split(',').map(unescapeText).filter(Boolean)); break;
+      case 'STATUS': current.cancelled = prop.value.trim().toUpperCase() === 'CANCELLED'; break;
+      case 'DTSTART': {
+        const parsed = parseIcsDate(prop.value.trim(), prop.params, timeZone);
+        if (parsed) { current.start = parsed.date; current.allDay = parsed.allDay; }
+        break;
+      }
+      case 'DTEND': {
+        const parsed = parseIcsDate(prop.value.trim(), prop.params, timeZone);
+        if (parsed) current.endTime = parsed.date.getTime();
+        break;
+      }
+      case 'RRULE':
+        current.rrule = Object.fromEntries(prop.value.split(';').map(part => part.split('=') as [string, string]));
+        break;
+      case 'EXDATE':
+        prop.value.split(',').forEach(value => {
+          const parsed = parseIcsDate(value.trim(), prop.params, timeZone);
+          if (parsed) current!.exdates!.push(parsed.date.getTime());
+        });
+        break;
+      case 'RECURRENCE-ID': {
+        const parsed = parseIcsDate(prop.value.trim(), prop.params, timeZone);
+        if (parsed) current.recurrenceId = parsed.date.getTime();
+        break;
+      }
+    }
+  });
+
+  return events;
+};
+
+// Moves along the wall clock of `timeZone`, so repeats keep their time of day across DST changes
+const shiftDate = (base: Date, days: number, months = 0, timeZone?: string) => {
+  const p = getZonedParts(base, timeZone);
+  const shifted = zonedTimeToUtc(p.year, p.month + months, p.day + days, p.hour, p.minute, timeZone);
+  return new Date(shifted.getTime() + base.getUTCSeconds() * 1000);
+};
+
+// Candidate start times for the n-th period of a recurrence rule
+const periodCandidates = (start: Date, rule: Record<string, string>, step: number, timeZone?: string): Date[] => {
+  const interval = Math.max(1, Number(rule.INTERVAL) || 1);
+  switch (rule.FREQ) {
+    case 'DAILY':
+      return [shiftDate(start, step * interval, 0, timeZone)];
+    case 'WEEKLY': {
+      const days = (rule.BYDAY || '').split(',').map(day => WEEKDAYS.indexOf(day.slice(-2))).filter(day => day >= 0).sort();
+      if (days.length === 0) return [shiftDate(start, step * interval * 7, 0, timeZone)];
+      const weekStart = shiftDate(start, step * interval * 7 - getZonedParts(start, timeZone).weekday, 0, timeZone);
+      return days.map(day => shiftDate(weekStart, day, 0, timeZone));
+    }
+    case 'MONTHLY':
+    case 'YEARLY': {
+      const next = shiftDate(start, 0, step * interval * (rule.FREQ === 'YEARLY' ? 12 : 1), timeZone);
+      // Skip months without that day (e.g. the 31st) rather than rolling into the next month
+      return getZonedParts(next, timeZone).day === getZonedParts(start, timeZone).day ? [next] : [];
+    }
+    default:
+      return step === 0 ? [start] : [];
+  }
+};
+
+/**
+ * Occurrence start times of an event within [from, to]. Supports DAILY/WEEKLY(BYDAY)/MONTHLY/YEARLY
+ * with INTERVAL, COUNT, UNTIL and EXDATE, which covers what school calendars publish.
+ */
+const expandOccurrences = (event: IcsEvent, from: Date, to: Date, overridden: Set<number>, timeZone?: string): Date[] => {
+  if (!event.rrule) return event.start >= from && event.start <= to ? [event.start] : [];
+
+  const rule = event.rrule;
+  const count = rule.COUNT ? Number(rule.COUNT) : Infinity;
+  const until = rule.UNTIL ? parseIcsDate(rule.UNTIL, {}, timeZone)?.date : undefined;
+  const limit = until && until < to ? until : to;
+  const occurrences: Date[] = [];
+  let emitted = 0;
+
+  for (let step = 0; step < MAX_RECURRENCE_STEPS; step++) {
+    const candidates = periodCandidates(event.start, rule, step, timeZone);
+    if (candidates.length === 0 && !['MONTHLY', 'YEARLY'].includes(rule.FREQ)) break;
+    for (const candidate of candidates) {
+      if (candidate < event.start) continue;
+      if (candidate > limit || emitted >= count) return occurrences;
+      emitted++;
+      const time = candidate.getTime();
+      if (candidate >= from && !event.exdates.includes(time) && !overridden.has(time)) occurrences.push(candidate);
+    }
+  }
+  return occurrences;
+};
+
+const icsToOccurrences = (text: string, from: Date, to: Date, timeZone?: string): CalendarOccurrence[] => {
+  const events = parseIcs(text, timeZone);
+  // Edited instances of a recurring event carry the same UID plus the start time they replace
+  const overrides = new Map<string, Set<number>>();
+  events.forEach(event => {
+    if (event.recurrenceId === undefined) return;
+    if (!overrides.has(event.uid)) overrides.set(event.uid, new Set());
+    overrides.get(event.uid)!.add(event.recurrenceId);
+  });
+
+  return events.filter(event => !event.cancelled).flatMap(event => {
+    // Every occurrence keeps the duration of the first one
+    const durationMs = event.endTime && event.endTime > event.start.getTime() ? event.endTime - event.start.getTime() : 0;
+    const isInstance = event.recurrenceId !== undefined;
+    const starts = isInstance
+      ? (event.start >= from && event.start <= to ? [event.start] : [])
+      : expandOccurrences(event, from, to, overrides.get(event.uid) || new Set(), timeZone);
+    return starts.map(start => ({
+      uid: event.rrule || isInstance ? `${event.uid}@${isInstance ? event.recurrenceId : start.getTime()}` : event.uid,
+      title: event.summary,
+      location: event.location,
+      categories: event.categories,
+      start,
+      end: durationMs ? new Date(start.getTime() + durationMs) : undefined,
+      allDay: event.allDay
+    }));
+  });
+};
+
+const fetchGoogleOccurrences = async (source: CalendarSource, from: Date, to: Date, timeZone?: string): Promise<CalendarOccurrence[]> => {
+  if (!source.apiKey) throw new Error('Google Calendar sources need an API key');
+  const params = new URLSearchParams({
+    key: source.apiKey,
+    singleEvents: 'true',
+    orderBy: 'startTime',
+    timeMin: from.toISOString(),
+    timeMax: to.toISOString(),
+    maxResults: String(MAX_EVENTS_PER_SOURCE)
+  });
+  const res = await fetch(`${GOOGLE_CALENDAR_API}/${encodeURIComponent(source.url.trim())}/events?${params}`);
+  if (!res.ok) throw new Error(`Google Calendar returned HTTP ${res.status}`);
+  const json = await res.json();
+
+  return (json.items || [])
+    .filter((item: any) => item.status !== 'cancelled' && (item.start?.date || item.start?.dateTime))
+    .map((item: any): CalendarOccurrence => {
+      const allDay = !!item.start.date;
+      const start = allDay ? parseIcsDate(item.start.date.replace(/-/g, ''), {}, timeZone)!.date : new Date(item.start.dateTime);
+      const endValue = item.end?.date || item.end?.dateTime;
+      const end = endValue ? (item.end.date ? parseIcsDate(item.end.date.replace(/-/g, ''), {}, timeZone)!.date : new Date(endValue)) : undefined;
+      return {
+        // Matches the ICS UID scheme so the same event from a Google feed and an ICS export de-duplicates
+        uid: item.recurringEventId ? `${item.iCalUID}@${start.getTime()}` : item.iCalUID || item.id,
+        title: item.summary || '',
+        location: item.location || '',
+        categories: [],
+        start,
+        end,
+        allDay
+      };
+    });
+};
+
+const fetchOccurrences = async (source: CalendarSource, from: Date, to: Date, timeZone?: string): Promise<CalendarOccurrence[]> => {
+  if (source.kind === 'google') return fetchGoogleOccurrences(source, from, to, timeZone);
+  const res = await fetch(source.url.trim().replace(/^webcal:\/\//i, 'https://'));
+  if (!res.ok) throw new Error(`Calendar feed returned HTTP ${res.status}`);
+  return icsToOccurrences(await res.text(), from, to, timeZone);
+};
+
+export const mapEventCategory = (title: string, categories: string[], source: CalendarSource): EventCategory => {
+  const haystack = [title, ...categories].join(' ').toLowerCase();
+  const rule = source.categoryRules.find(r => r.match.trim() && haystack.includes(r.match.trim().toLowerCase()));
+  return rule?.category || source.defaultCategory;
+};
+
+const toAppEvent = (occurrence: CalendarOccurrence, source: CalendarSource, timeZone?: string): AppEvent => ({
+  id: `${source.id}:${occurrence.uid}`,
+  title: occurrence.title || 'Untitled Event',
+  location: occurrence.location,
+  start: occurrence.start.toISOString(),
+  end: (occurrence.end || (occurrence.allDay ? shiftDate(occurrence.start, 1, 0, timeZone) : undefined))?.toISOString(),
+  allDay: occurrence.allDay || undefined,
+  category: mapEventCategory(occurrence.title, occurrence.categories, source),
+  sourceId: source.id,
+  uid: occurrence.uid
+});
+
+/**
+ * Fetches one source and converts its upcoming occurrences into events. Throws on failure.
+ * `timeZone` is the config's event time zone (eventSettings.timeZone); all-day and floating
+ * times are placed in it, like events entered by hand.
+ */
+export const fetchCalendarEvents = async (source: CalendarSource, now = new Date(), timeZone?: string): Promise<AppEvent[]> => {
+  const today = getZonedParts(now, timeZone);
+  const from = zonedTimeToUtc(today.year, today.month, today.day, 0, 0, timeZone);
+  const to = shiftDate(from, SYNC_HORIZON_DAYS, 0, timeZone);
+  const occurrences = await fetchOccurrences(source, from, to, timeZone);
+  return occurrences
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .slice(0, MAX_EVENTS_PER_SOURCE)
+    .map(occurrence => toAppEvent(occurrence, source, timeZone));
+};
+
+/**
+ * When a source should next be fetched: its refresh interval after the last success, or after
+ * a failure that interval doubled for every further consecutive failure.
+ */
+export const getNextSyncAt = (source: CalendarSource) => {
+  const refreshMs = (source.refreshMinutes || DEFAULT_CALENDAR_REFRESH_MINUTES) * 60000;
+  if (!source.failureCount) return (source.lastSyncedAt || 0) + refreshMs;
+  return (source.lastAttemptAt || 0) + Math.min(refreshMs * 2 ** (source.failureCount - 1), MAX_BACKOFF_MS);
+};
+
+export const isSourceDue = (source: CalendarSource, now = Date.now()) => now >= getNextSyncAt(source);
+
+/**
+ * Re-syncs every enabled source that is due (or all of them when forced) and merges the results into `events`.
+ * Hand-entered events are untouched; a source that fails keeps its previous events and records the error.
+ * Synced events are de-duplicated by UID across sources, first source wins.
+ */
+export const syncCalendarSources = async (
+  sources: CalendarSource[],
+  events: AppEvent[],
+  force = false,
+  timeZone?: string
+): Promise<{ sources: CalendarSource[]; events: AppEvent[] }> => {
+  const now = Date.now();
+  const updatedSources = await Promise.all(sources.map(async (source): Promise<{ source: CalendarSource; events: AppEvent[] }> => {
+    const previous = events.filter(e => e.sourceId === source.id);
+    if (!source.enabled || !source.url.trim()) return { source, events: [] };
+    if (!force && !isSourceDue(source, now)) return { source, events: previous };
+    try {
+      const fetched = await fetchCalendarEvents(source, new Date(now), timeZone);
+      return { source: { ...source, lastSyncedAt: now, lastAttemptAt: now, lastError: undefined, failureCount: undefined }, events: fetched };
+    } catch (error: any) {
+      console.error(`Calendar sync failed for ${source.name}`, error);
+      return {
+        source: { ...source, lastAttemptAt: now, lastError: error?.message || 'Sync failed', failureCount: (source.failureCount || 0) + 1 },
+        events: previous
+      };
+    }
+  }));
+
+  const seen = new Set<string>();
+  const synced = updatedSources.flatMap(result => result.events).filter(event => {
+    const key = event.uid || event.id;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    sources: updatedSources.map(result => result.source),
+    events: [...events.filter(e => !e.sourceId), ...synced]
+  };
+};
+
+// Stamped on every fetch, so they say nothing about whether the feed changed
+const withoutSyncTimes = ({ lastSyncedAt, lastAttemptAt, ...source }: CalendarSource) => source;
+
+/**
+ * Whether a sync changed anything worth saving: the events, or a source's error and backoff.
+ * Configs read back from the database lose undefined keys and key order, so both sides are
+ * compared as plain JSON. A sync that only moved the timestamps leaves its sources due.
+ */
+export const hasCalendarChanges = (
+  saved: { sources: CalendarSource[]; events: AppEvent[] },
+  synced: { sources: CalendarSource[]; events: AppEvent[] }
+): boolean => {
+  const plain = (value: unknown) => JSON.parse(JSON.stringify(value));
+  return !_.isEqual(plain(saved.events), plain(synced.events))
+    || !_.isEqual(plain(saved.sources.map(withoutSyncTimes)), plain(synced.sources.map(withoutSyncTimes)));
+};
+
+/**
+ * Carries a sync of the saved config over to the admin's draft, which may hold unsaved edits.
+ * Sources the draft still has with the same feed get the new sync status and events; sources
+ * added or re-pointed in the draft, and hand-entered events, are left as they are.
+ */
+export const mergeCalendarSync = (
+  draft: { sources: CalendarSource[]; events: AppEvent[] },
+  synced: { sources: CalendarSource[]; events: AppEvent[] }
+): { sources: CalendarSource[]; events: AppEvent[] } => {
+  const syncedById = new Map(synced.sources.map(source => [source.id, source]));
+  const merged = new Set<string>();
+  const sources = draft.sources.map(source => {
+    const match = syncedById.get(source.id);
+    if (!match || !source.enabled || match.kind !== source.kind || match.url !== source.url) return source;
+    merged.add(source.id);
+    const { lastSyncedAt, lastAttemptAt, lastError, failureCount } = match;
+    return { ...source, lastSyncedAt, lastAttemptAt, lastError, failureCount };
+  });
+  return {
+    sources,
+    events: [
+      ...draft.events.filter(e => !e.sourceId || !merged.has(e.sourceId)),
+      ...synced.events.filter(e => e.sourceId && merged.has(e.sourceId))
+    ]
+  };
+};
@@ -1,13 +1,47 @@
-import { AppData } from '../types';
+import { AppData, DisplayTarget } from '../types';
 import { supabase } from '../lib/supabase';
+import { DEFAULT_TARGET, getActiveTarget, isSameTarget } from './tenantService';
 
-export const loadCloudData = async (): Promise<AppData | null> => {
+// Postgres "undefined column": the display group migration has not been run yet
+const MISSING_COLUMN = '42703';
+
+/**
+ * The single config row (id = 1) used before display groups existed.
+ */
+const loadLegacyCloudData = async (): Promise<AppData | null> => {
   const { data, error } = await supabase
     .from('app_config')
     .select('data')
     .eq('id', 1)
     .maybeSingle();
 
+  if (error) {
+    console.error('Failed to load legacy cloud data', error);
+    return null;
+  }
+
+  return (data?.data as AppData) || null;
+};
+
+/**
+ * Configs live in `app_config`, one row per (tenant_id, group_id) pair with a
+ * unique constraint across both columns and the full AppData in `data`
+ * (see supabase/migrations). Until that migration has run, the default group
+ * reads the legacy row; the migration turns that row into the default group.
+ */
+export const loadCloudData = async (target: DisplayTarget = getActiveTarget()): Promise<AppData | null> => {
+  const { data, error } = await supabase
+    .from('app_config')
+    .select('data')
+    .eq('tenant_id', target.tenantId)
+    .eq('group_id', target.groupId)
+    .maybeSingle();
+
+  if (error?.code === MISSING_COLUMN) {
+    console.warn('app_config has no tenant_id/group_id columns yet; run supabase/migrations. Reading the legacy config row.');
+    return isSameTarget(target, DEFAULT_TARGET) ? loadLegacyCloudData() : null;
+  }
+
   if (error) {
     console.error('Failed to load cloud data', error);
     return null;
@@ -16,15 +50,16 @@ export const loadCloudData = async (): Promise<AppData | null> => {
   return (data?.data as AppData) || null;
 };
 
-export const saveCloudData = async (appData: AppData): Promise<void> => {
+export const saveCloudData = async (appData: AppData, target: DisplayTarget = getActiveTarget()): Promise<void> => {
   const { error } = await supabase
     .from('app_config')
     .upsert(
       {
-        id: 1,
+        tenant_id: target.tenantId,
+        group_id: target.groupId,
         data: appData,
       },
-      { onConflict: 'id' }
+      { onConflict: 'tenant_id,group_id' }
     );
 
   if (error) {
@@ -32,3 +67,75 @@ export const saveCloudData = async (appData: AppData): Promise<void> => {
     throw error;
   }
 };
+
+export type CloudSyncStatus = 'live' | 'polling';
+
+const FALLBACK_POLL_MS = 15000;
+
+/**
+ * Subscribes to the target's `app_config` row over a Supabase realtime channel.
+ * Falls back to polling `loadCloudData` while the channel is not subscribed, and
+ * performs one catch-up fetch every time the channel (re)connects.
+ * Returns an unsubscribe function.
+ */
+export const startCloudSync = (
+  onData: (appData: AppData) => void,
+  onStatusChange?: (status: CloudSyncStatus) => void,
+  target: DisplayTarget = getActiveTarget()
+): (() => void) => {
+  let stopped = false;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  const fetchLatest = async () => {
+    try {
+      const cloudData = await loadCloudData(target);
+      if (cloudData && !stopped) onData(cloudData);
+    } catch (error) {
+      console.error('Cloud sync fetch failed', error);
+    }
+  };
+
+  const startPolling = () => {
+    if (pollTimer || stopped) return;
+    onStatusChange?.('polling');
+    pollTimer = setInterval(fetchLatest, FALLBACK_POLL_MS);
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer);
+    pollTimer = null;
+  };
+
+  fetchLatest();
+  startPolling();
+
+  const channel = supabase
+    .channel(`app_config_sync:${target.tenantId}:${target.groupId}`)
+    .on(
+      'postgres_changes',
+      // Realtime filters accept a single column, so the group is checked in the handler
+      { event: '*', schema: 'public', table: 'app_config', filter: `tenant_id=eq.${target.tenantId}` },
+      (payload) => {
+        const row = payload.new as { group_id?: string; data?: AppData } | undefined;
+        if (!row?.data || row.group_id !== target.groupId || stopped) return;
+        onData(row.data);
+      }
+    )
+    .subscribe((status) => {
+      if (stopped) return;
+      if (status === 'SUBSCRIBED') {
+        stopPolling();
+        onStatusChange?.('live');
+        fetchLatest();
+      } else {
+        console.warn(`Cloud sync channel ${status}, falling back to polling`);
+        startPolling();
+      }
+    });
+
+  return () => {
+    stopped = true;
+    stopPolling();
+    supabase.removeChannel(channel);
+  };
+};
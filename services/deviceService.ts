@@ -0,0 +1,167 @@
+import { AppData, DeviceConfigSource, DeviceRecord, DeviceErrorSummary } from '../types';
+import { supabase } from '../lib/supabase';
+import { safeStorage } from '../lib/safeStorage';
+import { getLogs } from './logService';
+import { getActiveTarget, getDeviceId, formatTarget } from './tenantService';
+import { loadCloudData } from './cloudStorageService';
+
+const DEVICE_NAME_KEY = 'HARDY_DEVICE_NAME';
+const DEVICE_LOCATION_KEY = 'HARDY_DEVICE_LOCATION';
+const MAX_REPORTED_ERRORS = 5;
+
+export const HEARTBEAT_INTERVAL_MS = 60000;
+// A screen is considered offline after missing three consecutive heartbeats
+export const OFFLINE_AFTER_MS = HEARTBEAT_INTERVAL_MS * 3;
+
+/**
+ * Short, stable fingerprint of a config payload (djb2), used to compare what a
+ * screen is showing against the latest saved config without shipping the JSON.
+ */
+export const hashConfig = (appData: AppData): string => {
+  const json = JSON.stringify(appData);
+  let hash = 5381;
+  for (let i = 0; i < json.length; i++) {
+    hash = ((hash << 5) + hash + json.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16);
+};
+
+/**
+ * Reads a device label from the URL (persisting it) or from storage.
+ */
+const getDeviceLabel = (param: string, storageKey: string, fallback: string): string => {
+  const fromUrl = new URLSearchParams(window.location.search).get(param);
+  if (fromUrl) {
+    safeStorage.setItem(storageKey, fromUrl);
+    return fromUrl;
+  }
+  return safeStorage.getItem(storageKey) || fallback;
+};
+
+const getRecentErrors = (): DeviceErrorSummary[] =>
+  getLogs()
+    .filter(log => log.level === 'error')
+    .slice(0, MAX_REPORTED_ERRORS)
+    .map(({ timestamp, source, message }) => ({ timestamp, source, message }));
+
+/**
+ * Creates the device row on first start, then only refreshes its profile. The group is written
+ * once, from the active target: after that the row's assignment is what resolveDisplayTarget
+ * reads, so a restart must not overwrite it with the group this screen had cached.
+ */
+export const registerDevice = async (appVersion: string): Promise<void> => {
+  const deviceId = getDeviceId();
+  const target = getActiveTarget();
+  const profile = {
+    name: getDeviceLabel('name', DEVICE_NAME_KEY, deviceId),
+    location: getDeviceLabel('location', DEVICE_LOCATION_KEY, ''),
+    app_version: appVersion,
+    screen_width: window.screen.width,
+    screen_height: window.screen.height,
+    last_seen_at: new Date().toISOString(),
+  };
+
+  const { error: insertError } = await supabase
+    .from('display_devices')
+    .upsert(
+      { device_id: deviceId, tenant_id: target.tenantId, group_id: target.groupId, ...profile },
+      { onConflict: 'device_id', ignoreDuplicates: true }
+    );
+  if (insertError) {
+    console.error('Device registration failed', insertError);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('display_devices')
+    .update(profile)
+    .eq('device_id', deviceId);
+
+  if (error) {
+    console.error('Device registration failed', error);
+  }
+};
+
+/**
+ * `configHash` is null until the screen has received its group's config from the cloud;
+ * that is reported as a `local` config source rather than left to look like a stale hash.
+ */
+export const sendHeartbeat = async (viewIndex: number, configHash: string | null): Promise<void> => {
+  const configSource: DeviceConfigSource = configHash ? 'cloud' : 'local';
+  const { error } = await supabase
+    .from('display_devices')
+    .update({
+      last_seen_at: new Date().toISOString(),
+      view_index: viewIndex,
+      config_hash: configHash,
+      config_source: configSource,
+      recent_errors: getRecentErrors(),
+    })
+    .eq('device_id', getDeviceId());
+
+  if (error) {
+    console.error('Device heartbeat failed', error);
+  }
+};
+
+export const listDevices = async (): Promise<DeviceRecord[]> => {
+  const { data, error } = await supabase
+    .from('display_devices')
+    .select('*')
+    .order('tenant_id')
+    .order('name');
+
+  if (error) {
+    console.error('Failed to list devices', error);
+    return [];
+  }
+
+  return (data || []).map((row: any) => ({
+    deviceId: row.device_id,
+    tenantId: row.tenant_id,
+    groupId: row.group_id,
+    name: row.name || row.device_id,
+    location: row.location || '',
+    appVersion: row.app_version || 'unknown',
+    screen: { width: row.screen_width || 0, height: row.screen_height || 0 },
+    lastSeenAt: row.last_seen_at ? new Date(row.last_seen_at).getTime() : 0,
+    viewIndex: row.view_index ?? 0,
+    configHash: row.config_hash || null,
+    configSource: row.config_source === 'cloud' || row.config_source === 'local' ? row.config_source : null,
+    recentErrors: row.recent_errors || [],
+  }));
+};
+
+export const isDeviceOnline = (device: DeviceRecord, now: number = Date.now()) =>
+  now - device.lastSeenAt < OFFLINE_AFTER_MS;
+
+/**
+ * Where a screen's config stands against the latest saved one for its group: `unsynced` screens have
+ * only shown local or cached data since they started, so their hash says nothing about staleness.
+ */
+export const getDeviceSyncState = (device: DeviceRecord, latestHash: string | undefined): 'current' | 'stale' | 'unsynced' | 'unknown' => {
+  if (device.configSource === 'local') return 'unsynced';
+  if (!latestHash || !device.configHash) return 'unknown';
+  return device.configHash === latestHash ? 'current' : 'stale';
+};
+
+const uniqueTargets = (devices: DeviceRecord[]) => {
+  const seen = new Map<string, { tenantId: string; groupId: string }>();
+  devices.forEach(({ tenantId, groupId }) => seen.set(formatTarget({ tenantId, groupId }), { tenantId, groupId }));
+  return Array.from(seen.values());
+};
+
+/**
+ * Hashes the current saved config of every display group the given devices belong to,
+ * keyed by `formatTarget`, so stale screens can be flagged.
+ */
+export const getLatestConfigHashes = async (devices: DeviceRecord[]): Promise<Record<string, string>> => {
+  const targets = uniqueTargets(devices);
+  const entries = await Promise.all(
+    targets.map(async (target) => {
+      const cloudData = await loadCloudData(target);
+      return [formatTarget(target), cloudData ? hashConfig(cloudData) : ''] as const;
+    })
+  );
+  return Object.fromEntries(entries.filter(([, hash]) => hash));
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { Event as AppEvent } from '../types';
+import {
+  formatEventTime,
+  fromZonedInputValue,
+  parseLegacySchedule,
+  selectEventRows,
+  setEventAllDay,
+  toZonedInputValue,
+  zonedTimeToUtc
+} from './eventService';
+
+const NEW_YORK = 'America/New_York';
+
+const event = (id: string, start: string, extra: Partial<AppEvent> = {}): AppEvent =>
+  ({ id, title: id, location: '', category: 'General', start, ...extra });
+
+describe('zonedTimeToUtc', () => {
+  it('applies the offset in effect on that day', () => {
+    expect(zonedTimeToUtc(2026, 1, 15, 9, 0, NEW_YORK).toISOString()).toBe('2026-01-15T14:00:00.000Z');
+    expect(zonedTimeToUtc(2026, 7, 1, 9, 0, NEW_YORK).toISOString()).toBe('2026-07-01T13:00:00.000Z');
+  });
+
+  it('lands on the right side of a DST change', () => {
+    // Clocks jump from 02:00 to 03:00 on 8 March; 03:30 is already daylight time
+    expect(zonedTimeToUtc(2026, 3, 8, 3, 30, NEW_YORK).toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    // 01:30 happens twice on 1 November; the first (daylight) one wins
+    expect(zonedTimeToUtc(2026, 11, 1, 1, 30, NEW_YORK).toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+
+  it('rolls days past the end of the month over', () => {
+    expect(zonedTimeToUtc(2026, 1, 32, 0, 0, NEW_YORK).toISOString()).toBe('2026-02-01T05:00:00.000Z');
+  });
+
+  it('falls back to the screen zone for an unknown zone', () => {
+    expect(zonedTimeToUtc(2026, 7, 1, 9, 0, 'Not/AZone').toISOString()).toBe('2026-07-01T09:00:00.000Z');
+  });
+});
+
+describe('zoned input values', () => {
+  it('round-trips a datetime-local value through the event zone', () => {
+    const iso = fromZonedInputValue('2026-07-01T09:00', 'America/Chicago');
+    expect(iso).toBe('2026-07-01T14:00:00.000Z');
+    expect(toZonedInputValue(iso, 'America/Chicago')).toBe('2026-07-01T09:00');
+  });
+
+  it('turns the last day of an all-day event into its exclusive end', () => {
+    expect(fromZonedInputValue('2026-07-03', NEW_YORK, 1)).toBe('2026-07-04T04:00:00.000Z');
+    expect(toZonedInputValue('2026-07-04T04:00:00.000Z', NEW_YORK, true)).toBe('2026-07-04');
+  });
+
+  it('rejects values that are not dates', () => {
+    expect(fromZonedInputValue('next tuesday', NEW_YORK)).toBeUndefined();
+  });
+});
+
+describe('parseLegacySchedule', () => {
+  it('reads a free-text time in the event zone', () => {
+    expect(parseLegacySchedule('2026-10-21', '3:30 PM', NEW_YORK)).toEqual({ start: '2026-10-21T19:30:00.000Z' });
+    expect(parseLegacySchedule('2026-10-21', '12am', NEW_YORK)).toEqual({ start: '2026-10-21T04:00:00.000Z' });
+  });
+
+  it('makes an all-day event when the time is unreadable', () => {
+    expect(parseLegacySchedule('2026-10-21', 'All Day', NEW_YORK)).toEqual({
+      start: '2026-10-21T04:00:00.000Z',
+      end: '2026-10-22T04:00:00.000Z',
+      allDay: true
+    });
+  });
+});
+
+describe('setEventAllDay', () => {
+  it('keeps the days a timed event covers', () => {
+    const timed = event('trip', '2026-10-21T13:00:00.000Z', { end: '2026-10-23T20:00:00.000Z' });
+    const allDay = setEventAllDay(timed, true, NEW_YORK);
+    expect(allDay).toMatchObject({ allDay: true, start: '2026-10-21T04:00:00.000Z', end: '2026-10-24T04:00:00.000Z' });
+    expect(setEventAllDay(allDay, false, NEW_YORK)).toMatchObject({ start: '2026-10-21T16:00:00.000Z' });
+  });
+});
+
+describe('selectEventRows', () => {
+  // Wednesday 21 October 2026, 11:00 in New York
+  const now = new Date('2026-10-21T15:00:00.000Z');
+  const events = [
+    event('next-sunday', '2026-10-25T12:00:00.000Z'),
+    event('saturday', '2026-10-24T20:00:00.000Z'),
+    event('tonight', '2026-10-22T02:00:00.000Z'),
+    event('afternoon', '2026-10-21T20:00:00.000Z'),
+    event('trip', '2026-10-20T04:00:00.000Z', { allDay: true, end: '2026-10-24T04:00:00.000Z' }),
+    event('finished', '2026-10-21T12:00:00.000Z'),
+    event('archived', '2026-10-30T12:00:00.000Z', { archived: true })
+  ];
+
+  it('groups by day in the event zone, Sunday to Saturday weeks', () => {
+    expect(selectEventRows(events, now, NEW_YORK).map(row => [row.event.id, row.group])).toEqual([
+      ['trip', 'Today'],
+      ['afternoon', 'Today'],
+      ['tonight', 'Today'],
+      ['saturday', 'This Week'],
+      ['next-sunday', 'Coming Up']
+    ]);
+  });
+
+  it('puts late evening events on the next day for zones ahead of the event zone', () => {
+    const row = selectEventRows(events, now, 'UTC').find(r => r.event.id === 'tonight');
+    expect(row?.group).toBe('This Week');
+  });
+
+  it('converts legacy events before grouping', () => {
+    const legacy = { id: 'legacy', title: 'Legacy', location: '', category: 'General', start: '', date: '2026-10-21', time: '4pm' } as AppEvent;
+    expect(selectEventRows([legacy], now, NEW_YORK)[0]).toMatchObject({ group: 'Today', event: { start: '2026-10-21T20:00:00.000Z' } });
+  });
+});
+
+describe('formatEventTime', () => {
+  it('shows the last day of a multi-day all-day event, not its exclusive end', () => {
+    const trip = event('trip', '2026-10-20T04:00:00.000Z', { allDay: true, end: '2026-10-23T04:00:00.000Z' });
+    expect(formatEventTime(trip, NEW_YORK)).toBe('Oct 20 – Oct 22');
+    expect(formatEventTime({ ...trip, end: '2026-10-21T04:00:00.000Z' }, NEW_YORK)).toBe('All Day');
+  });
+});
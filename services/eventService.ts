@@ -0,0 +1,222 @@
+import { Event as AppEvent, EventGroup, EventRow } from '../types';
+
+// Timed events without an end are treated as this long when deciding whether they're over
+const DEFAULT_EVENT_MINUTES = 60;
+const DAY_MS = 86400000;
+
+interface ZonedParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * Returns the zone if the runtime knows it, so a typo in settings falls back to the screen's zone instead of throwing.
+ */
+export const resolveTimeZone = (timeZone?: string): string | undefined => {
+  if (!timeZone) return undefined;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+export const getZonedParts = (date: Date, timeZone?: string): ZonedParts => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: resolveTimeZone(timeZone),
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', weekday: 'short'
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '0';
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')) % 24,
+    minute: Number(get('minute')),
+    weekday: WEEKDAY_INDEX[get('weekday')] ?? 0
+  };
+};
+
+const zoneOffsetMs = (timestamp: number, timeZone: string) => {
+  const p = getZonedParts(new Date(timestamp), timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return asUtc - Math.floor(timestamp / 60000) * 60000;
+};
+
+/**
+ * The instant a wall-clock time occurs in a zone (the screen's own zone when none is given).
+ * Days past the end of the month roll over, so `day + 1` is always "tomorrow".
+ */
+export const zonedTimeToUtc = (year: number, month: number, day: number, hour = 0, minute = 0, timeZone?: string): Date => {
+  const zone = resolveTimeZone(timeZone);
+  if (!zone) return new Date(year, month - 1, day, hour, minute);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const first = guess - zoneOffsetMs(guess, zone);
+  // Re-check once: the first guess may sit on the other side of a DST change
+  return new Date(guess - zoneOffsetMs(first, zone));
+};
+
+const startOfZonedDay = (date: Date, timeZone?: string, addDays = 0) => {
+  const p = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(p.year, p.month, p.day + addDays, 0, 0, timeZone);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Formats an instant for a `datetime-local` (or `date` when dateOnly) input in the given zone.
+ */
+export const toZonedInputValue = (iso: string | undefined, timeZone?: string, dateOnly = false) => {
+  if (!iso) return '';
+  const p = getZonedParts(new Date(iso), timeZone);
+  const day = `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+  return dateOnly ? day : `${day}T${pad(p.hour)}:${pad(p.minute)}`;
+};
+
+/**
+ * Reads a `datetime-local` or `date` input value as wall-clock time in the given zone.
+ * `addDays` turns an all-day event's last day into its exclusive end.
+ */
+export const fromZonedInputValue = (value: string, timeZone?: string, addDays = 0): string | undefined => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?/);
+  if (!match) return undefined;
+  const [, y, m, d, hh = '0', mm = '0'] = match;
+  return zonedTimeToUtc(Number(y), Number(m), Number(d) + addDays, Number(hh), Number(mm), timeZone).toISOString();
+};
+
+// "15:30", "3:30 PM", "3pm"; anything else (including "All Day") means the event has no time
+const parseLegacyTime = (time?: string): { hour: number; minute: number } | null => {
+  const match = (time || '').trim().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i);
+  if (!match) return null;
+  let hour = Number(match[1]);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === 'pm' && hour < 12) hour += 12;
+  if (meridiem === 'am' && hour === 12) hour = 0;
+  return hour < 24 ? { hour, minute: Number(match[2] || 0) } : null;
+};
+
+/**
+ * Structured times for a day plus free-text time, as older configs and the PDF import produce them.
+ * The day is read as a calendar day in the event time zone; an unreadable time makes an all-day event.
+ */
+export const parseLegacySchedule = (date?: string, time?: string, timeZone?: string): Pick<AppEvent, 'start' | 'end' | 'allDay'> => {
+  const dayMatch = (date || '').match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const today = getZonedParts(new Date(), timeZone);
+  const [y, m, d] = dayMatch ? dayMatch.slice(1).map(Number) : [today.year, today.month, today.day];
+  const clock = parseLegacyTime(time);
+
+  if (!clock) {
+    return {
+      start: zonedTimeToUtc(y, m, d, 0, 0, timeZone).toISOString(),
+      end: zonedTimeToUtc(y, m, d + 1, 0, 0, timeZone).toISOString(),
+      allDay: true
+    };
+  }
+  return { start: zonedTimeToUtc(y, m, d, clock.hour, clock.minute, timeZone).toISOString() };
+};
+
+/**
+ * Converts events saved before structured start/end times existed. Already-structured events pass through.
+ */
+export const normalizeEvent = (event: AppEvent, timeZone?: string): AppEvent => {
+  if (event.start) return event;
+  const { date, time, ...rest } = event;
+  return { ...rest, ...parseLegacySchedule(date, time, timeZone) };
+};
+
+/**
+ * Switches an event between all-day and timed, keeping the days it covers.
+ */
+export const setEventAllDay = (event: AppEvent, allDay: boolean, timeZone?: string): AppEvent => {
+  const start = getZonedParts(new Date(event.start), timeZone);
+  if (allDay) {
+    const last = getZonedParts(new Date(getEventEnd(event).getTime() - 1), timeZone);
+    return {
+      ...event,
+      allDay: true,
+      start: zonedTimeToUtc(start.year, start.month, start.day, 0, 0, timeZone).toISOString(),
+      end: zonedTimeToUtc(last.year, last.month, last.day + 1, 0, 0, timeZone).toISOString()
+    };
+  }
+  // Timed events start at noon on the first day until someone picks a time
+  const { end, ...rest } = event;
+  return { ...rest, allDay: undefined, start: zonedTimeToUtc(start.year, start.month, start.day, 12, 0, timeZone).toISOString() };
+};
+
+export const getEventEnd = (event: AppEvent): Date => {
+  if (event.end) return new Date(event.end);
+  const start = new Date(event.start).getTime();
+  return new Date(start + (event.allDay ? DAY_MS : DEFAULT_EVENT_MINUTES * 60000));
+};
+
+export const isEventOver = (event: AppEvent, now: Date) => getEventEnd(event).getTime() <= now.getTime();
+
+/**
+ * The one selector every event display uses: drops archived and finished events,
+ * sorts the rest chronologically and tags each with its Today / This Week / Coming Up group.
+ * Events already in progress (e.g. day 2 of a multi-day trip) count as Today.
+ */
+export const selectEventRows = (events: AppEvent[], now: Date, timeZone?: string): EventRow[] => {
+  const tomorrow = startOfZonedDay(now, timeZone, 1).getTime();
+  // Weeks run Sunday to Saturday
+  const nextWeek = startOfZonedDay(now, timeZone, 7 - getZonedParts(now, timeZone).weekday).getTime();
+
+  return (events || [])
+    .map(event => normalizeEvent(event, timeZone))
+    .filter(event => !event.archived && !isEventOver(event, now))
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime() || a.title.localeCompare(b.title))
+    .map((event): EventRow => {
+      const start = new Date(event.start).getTime();
+      const group: EventGroup = start < tomorrow ? 'Today' : start < nextWeek ? 'This Week' : 'Coming Up';
+      return { event, group };
+    });
+};
+
+/**
+ * Marks finished hand-entered events as archived. Synced events are left to their calendar source.
+ */
+export const archivePastEvents = (events: AppEvent[], now: Date, timeZone?: string): AppEvent[] =>
+  events.map(event => {
+    if (event.sourceId || event.archived) return event;
+    const normalized = normalizeEvent(event, timeZone);
+    return isEventOver(normalized, now) ? { ...normalized, archived: true } : event;
+  });
+
+/**
+ * Weekday and day-of-month for the date tile on event displays.
+ */
+export const getEventDay = (event: AppEvent, timeZone?: string, locale = 'en-US') => {
+  const start = new Date(event.start);
+  return {
+    weekday: start.toLocaleDateString(locale, { weekday: 'short', timeZone: resolveTimeZone(timeZone) }).toUpperCase(),
+    day: getZonedParts(start, timeZone).day
+  };
+};
+
+/**
+ * "All Day", "3:30 PM – 5:00 PM", or a date range for multi-day events.
+ */
+export const formatEventTime = (event: AppEvent, timeZone?: string, locale = 'en-US') => {
+  const zone = resolveTimeZone(timeZone);
+  const start = new Date(event.start);
+  const end = event.end ? new Date(event.end) : undefined;
+  const dayLabel = (date: Date) => date.toLocaleDateString(locale, { month: 'short', day: 'numeric', timeZone: zone });
+  const timeLabel = (date: Date) => date.toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit', timeZone: zone });
+
+  if (event.allDay) {
+    // The stored end is exclusive, so the last day is the one before it
+    const lastDay = end ? new Date(end.getTime() - 1) : start;
+    return dayLabel(lastDay) === dayLabel(start) ? 'All Day' : `${dayLabel(start)} – ${dayLabel(lastDay)}`;
+  }
+  if (!end) return timeLabel(start);
+  if (dayLabel(end) === dayLabel(start)) return `${timeLabel(start)} – ${timeLabel(end)}`;
+  return `${dayLabel(start)}, ${timeLabel(start)} – ${dayLabel(end)}, ${timeLabel(end)}`;
+};
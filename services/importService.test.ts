@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// The binary importers load browser-only libraries; these tests only cover the text ones
+vi.mock('./pdfService', () => ({ extractTextFromPdf: vi.fn() }));
+vi.mock('./ocrService', () => ({ recognizeText: vi.fn() }));
+vi.mock('mammoth', () => ({ default: {} }));
+
+import { emailToText, findImporter } from './importService';
+
+const base64 = (text: string) => Buffer.from(text, 'utf-8').toString('base64');
+
+const message = (headers: string[], body: string) => [...headers, '', body].join('\r\n');
+
+describe('emailToText', () => {
+  it('decodes encoded-word subjects and keeps the date', () => {
+    const raw = message([
+      `Subject: =?UTF-8?B?${base64('Café News')}?= for =?ISO-8859-1?Q?F=E9vrier?=`,
+      'Date: Mon, 2 Feb 2026 08:00:00 -0500',
+      'Content-Type: text/plain; charset=utf-8'
+    ], 'Doors open at 8am.');
+    expect(emailToText(raw)).toBe('Subject: Café News for Février\nSent: Mon, 2 Feb 2026 08:00:00 -0500\nDoors open at 8am.');
+  });
+
+  it('prefers the plain text part of multipart/alternative and decodes quoted-printable', () => {
+    const raw = message([
+      'Subject: Newsletter',
+      'Content-Type: multipart/alternative; boundary="alt"'
+    ], [
+      '--alt',
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<p>HTML version</p>',
+      '--alt',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'The caf=C3=A9 reopens on Monday at 11:30 in the cafeteria, after the break=',
+      ' for everyone.',
+      '--alt--'
+    ].join('\r\n'));
+    expect(emailToText(raw)).toBe('Subject: Newsletter\nThe café reopens on Monday at 11:30 in the cafeteria, after the break for everyone.\r\n');
+  });
+
+  it('joins the text parts of multipart/mixed and skips attachments', () => {
+    const raw = message([
+      'Content-Type: multipart/mixed; boundary=mix'
+    ], [
+      '--mix',
+      'Content-Type: text/plain',
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64('Picture day is Friday.'),
+      '--mix',
+      'Content-Type: text/plain',
+      'Content-Disposition: attachment; filename="roster.txt"',
+      '',
+      'Secret roster',
+      '--mix',
+      'Content-Type: application/pdf',
+      '',
+      'JVBERi0xLjQK',
+      '--mix--'
+    ].join('\r\n'));
+    expect(emailToText(raw)).toBe('Picture day is Friday.');
+  });
+});
+
+describe('findImporter', () => {
+  it('matches on extension before MIME type', () => {
+    expect(findImporter(new File([''], 'Newsletter.EML'))?.id).toBe('email');
+    expect(findImporter(new File([''], 'notes.md', { type: 'application/octet-stream' }))?.id).toBe('text');
+    expect(findImporter(new File([''], 'scan', { type: 'image/png' }))?.id).toBe('image');
+    expect(findImporter(new File([''], 'archive.zip', { type: 'application/zip' }))).toBeUndefined();
+  });
+});
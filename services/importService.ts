@@ -0,0 +1,220 @@
+import mammoth from 'mammoth';
+import { extractTextFromPdf } from './pdfService';
+import { recognizeText } from './ocrService';
+
+export interface ImportContext {
+  signal?: AbortSignal;
+  onProgress?: (message: string) => void;
+  onWarning?: (message: string) => void;  // Parts of the document that were left out, shown with the preview
+}
+
+/**
+ * Turns one kind of document into plain text for analyzeNewsletter.
+ */
+export interface DocumentImporter {
+  id: string;
+  label: string;          // Shown in the import tab, e.g. "Word"
+  extensions: string[];   // Lower case, with the dot
+  mimeTypes: string[];
+  extract: (file: File, context: ImportContext) => Promise<string>;
+}
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'BR', 'LI', 'TR', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'TABLE', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'BLOCKQUOTE', 'HR']);
+
+/**
+ * Visible text of an HTML document with line breaks where blocks end, so paragraphs stay apart.
+ */
+export const htmlToText = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('script, style, head, noscript, template').forEach(el => el.remove());
+  doc.body.querySelectorAll('*').forEach(el => {
+    if (BLOCK_TAGS.has(el.tagName)) el.after(doc.createTextNode('\n'));
+    if (el.tagName === 'TD' || el.tagName === 'TH') el.after(doc.createTextNode(' '));
+  });
+  return doc.body.textContent || '';
+};
+
+const markdownToText = (markdown: string) =>
+  markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(?:#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|__|\*|_|`)(.+?)\1/g, '$2');
+
+const decodeBytes = (bytes: Uint8Array, charset = 'utf-8') => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch (e) {
+    return new TextDecoder().decode(bytes);
+  }
+};
+
+const base64Bytes = (value: string) => Uint8Array.from(atob(value.replace(/\s/g, '')), c => c.charCodeAt(0));
+
+const quotedPrintableBytes = (value: string) => {
+  const text = value.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '=' && /^[0-9A-F]{2}$/i.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// RFC 2047 encoded words in headers, e.g. =?UTF-8?B?...?=
+const decodeHeader = (value: string) =>
+  value.replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset, encoding, text) =>
+    decodeBytes(encoding.toUpperCase() === 'B' ? base64Bytes(text) : quotedPrintableBytes(text.replace(/_/g, ' ')), charset));
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+const parseMimePart = (raw: string): MimePart => {
+  const split = raw.search(/\r?\n\r?\n/);
+  const headerBlock = split === -1 ? raw : raw.slice(0, split);
+  const body = split === -1 ? '' : raw.slice(split).replace(/^\r?\n\r?\n/, '');
+  const headers: Record<string, string> = {};
+  headerBlock.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+  });
+  return { headers, body };
+};
+
+const headerParam = (header: string | undefined, name: string) =>
+  header?.match(new RegExp(`${name}="?([^";]+)"?`, 'i'))?.[1];
+
+/**
+ * The readable text of a MIME part: plain text preferred over HTML, attachments skipped.
+ */
+const mimePartText = (part: MimePart): string => {
+  const contentType = (part.headers['content-type'] || 'text/plain').toLowerCase();
+  if (/attachment/i.test(part.headers['content-disposition'] || '')) return '';
+
+  if (contentType.startsWith('multipart/')) {
+    const boundary = headerParam(part.headers['content-type'], 'boundary');
+    if (!boundary) return '';
+    const children = part.body.split(`--${boundary}`).slice(1)
+      .filter(chunk => !chunk.startsWith('--'))
+      .map(chunk => parseMimePart(chunk.replace(/^\r?\n/, '')));
+    if (contentType.startsWith('multipart/alternative')) {
+      const preferred = children.find(c => (c.headers['content-type'] || 'text/plain').toLowerCase().startsWith('text/plain'))
+        || children.find(c => (c.headers['content-type'] || '').toLowerCase().startsWith('text/html'))
+        || children[0];
+      return preferred ? mimePartText(preferred) : '';
+    }
+    return children.map(mimePartText).filter(Boolean).join('\n\n');
+  }
+
+  if (!contentType.startsWith('text/')) return '';
+  const encoding = (part.headers['content-transfer-encoding'] || '').toLowerCase();
+  const charset = headerParam(part.headers['content-type'], 'charset');
+  const text = encoding === 'base64' ? decodeBytes(base64Bytes(part.body), charset)
+    : encoding === 'quoted-printable' ? decodeBytes(quotedPrintableBytes(part.body), charset)
+    : part.body;
+  return contentType.startsWith('text/html') ? htmlToText(text) : text;
+};
+
+/**
+ * Subject, date and readable body of a raw RFC 822 message (.eml).
+ */
+export const emailToText = (raw: string) => {
+  const message = parseMimePart(raw);
+  const subject = decodeHeader(message.headers['subject'] || '');
+  const date = message.headers['date'];
+  return [subject && `Subject: ${subject}`, date && `Sent: ${date}`, mimePartText(message)].filter(Boolean).join('\n');
+};
+
+const IMPORTERS: DocumentImporter[] = [
+  {
+    id: 'pdf',
+    label: 'PDF',
+    extensions: ['.pdf'],
+    mimeTypes: ['application/pdf'],
+    extract: (file, context) => extractTextFromPdf(file, context)
+  },
+  {
+    id: 'docx',
+    label: 'Word',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extract: async (file) => (await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() })).value
+  },
+  {
+    id: 'text',
+    label: 'Text & Markdown',
+    extensions: ['.txt', '.md', '.markdown'],
+    mimeTypes: ['text/plain', 'text/markdown'],
+    extract: async (file) => /\.(md|markdown)$/i.test(file.name) || file.type === 'text/markdown' ? markdownToText(await file.text()) : file.text()
+  },
+  {
+    id: 'html',
+    label: 'HTML',
+    extensions: ['.html', '.htm'],
+    mimeTypes: ['text/html'],
+    extract: async (file) => htmlToText(await file.text())
+  },
+  {
+    id: 'email',
+    label: 'Email',
+    extensions: ['.eml'],
+    mimeTypes: ['message/rfc822'],
+    extract: async (file) => emailToText(await file.text())
+  },
+  {
+    id: 'image',
+    label: 'Scanned Images',
+    extensions: ['.png', '.jpg', '.jpeg', '.webp', '.bmp', '.gif'],
+    mimeTypes: ['image/png', 'image/jpeg', 'image/webp', 'image/bmp', 'image/gif'],
+    extract: async (file, { signal, onProgress }) =>
+      (await recognizeText([file], (progress) => onProgress?.(`Reading image (${Math.round(progress * 100)}%)...`), signal))[0]
+  }
+];
+
+/**
+ * Adds a format, or replaces the importer with the same id.
+ */
+export const registerImporter = (importer: DocumentImporter) => {
+  const index = IMPORTERS.findIndex(i => i.id === importer.id);
+  if (index === -1) IMPORTERS.push(importer);
+  else IMPORTERS[index] = importer;
+};
+
+export const getImporters = (): DocumentImporter[] => [...IMPORTERS];
+
+/**
+ * The importer for a file, matched on extension first since browsers often leave `type` empty.
+ */
+export const findImporter = (file: File) => {
+  const name = file.name.toLowerCase();
+  return IMPORTERS.find(i => i.extensions.some(ext => name.endsWith(ext)))
+    || IMPORTERS.find(i => file.type && i.mimeTypes.includes(file.type));
+};
+
+// For <input type="file" accept>
+export const getImportAccept = () => IMPORTERS.flatMap(i => [...i.extensions, ...i.mimeTypes]).join(',');
+
+/**
+ * Plain text of any supported document, with runs of blank lines and spaces collapsed.
+ */
+export const extractDocumentText = async (file: File, context: ImportContext = {}) => {
+  const importer = findImporter(file);
+  if (!importer) {
+    throw new Error(`"${file.name}" is not a supported format. Use ${IMPORTERS.map(i => i.label).join(', ')}.`);
+  }
+  const text = (await importer.extract(file, context))
+    .split(/\r?\n/)
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  if (!text) throw new Error(`No readable text was found in "${file.name}".`);
+  return text;
+};
@@ -0,0 +1,29 @@
+import { LiveCamFeedType } from '../types';
+
+export const DEFAULT_SNAPSHOT_REFRESH_SECONDS = 10;
+// How long each camera stays on screen when a view cycles through several feeds
+export const CAMERA_CYCLE_SECONDS = 15;
+// Offline feeds are retried on this interval
+export const FEED_RETRY_MS = 30000;
+
+/**
+ * Infers how a camera URL should be played from its shape.
+ */
+export const getFeedType = (url: string): LiveCamFeedType => {
+  const lower = url.toLowerCase();
+  if (/\.m3u8(\?|$)/.test(lower)) return 'hls';
+  if (/\.mjpe?g(\?|$)|mjpg|mjpeg|video\.cgi|action=stream|faststream/.test(lower)) return 'mjpeg';
+  return 'snapshot';
+};
+
+export const FEED_TYPE_LABELS: Record<LiveCamFeedType, string> = {
+  snapshot: 'Snapshot',
+  mjpeg: 'MJPEG Stream',
+  hls: 'HLS Stream'
+};
+
+/**
+ * Appends a timestamp so snapshot cameras aren't served from the browser cache.
+ */
+export const withCacheBuster = (url: string, timestamp: number) =>
+  `${url}${url.includes('?') ? '&' : '?'}_t=${timestamp}`;
@@ -0,0 +1,301 @@
+import { MediaAsset, MediaKind } from '../types';
+import { supabase } from '../lib/supabase';
+
+/**
+ * Media library. Files and their metadata both go through the active MediaStore; the default
+ * one keeps files in Supabase storage under `<tenant>/<asset id>/` and metadata in the
+ * `media_assets` table
+ * (id, tenant_id, name, kind, mime_type, size, width, height, tags, url, thumbnail_url, original_url, paths, created_at).
+ * Building with MEDIA_STORE=local swaps in localMediaStore, which keeps both on the machine
+ * running Vite. AppData only ever stores the resulting URLs.
+ */
+const MEDIA_BUCKET = 'media';
+const THUMBNAIL_MAX_PX = 320;
+const DISPLAY_MAX_PX = 1920;
+const VARIANT_QUALITY = 0.85;
+const MAX_MEDIA_SIZE_MB = 50;
+const MAX_VIDEO_SIZE_MB = 500;
+
+/**
+ * Pluggable storage for media files and the asset records describing them, so a store
+ * can move the whole library off Supabase. Methods throw on failure.
+ */
+export interface MediaStore {
+  id: string;
+  put: (path: string, file: Blob, contentType: string) => Promise<void>;
+  remove: (paths: string[]) => Promise<void>;
+  getUrl: (path: string) => string;
+  saveAsset: (asset: MediaAsset) => Promise<MediaAsset>;
+  listAssets: (tenantId: string) => Promise<MediaAsset[]>;
+  updateAssetTags: (id: string, tags: string[]) => Promise<void>;
+  deleteAsset: (id: string) => Promise<void>;
+}
+
+const mapAsset = (row: any): MediaAsset => ({
+  id: String(row.id),
+  tenantId: row.tenant_id,
+  name: row.name || 'Untitled',
+  kind: row.kind || getMediaKind(row.mime_type || ''),
+  mimeType: row.mime_type || '',
+  size: row.size || 0,
+  width: row.width ?? undefined,
+  height: row.height ?? undefined,
+  tags: row.tags || [],
+  url: row.url,
+  thumbnailUrl: row.thumbnail_url || undefined,
+  originalUrl: row.original_url || row.url,
+  paths: row.paths || [],
+  createdAt: new Date(row.created_at).getTime(),
+});
+
+export const supabaseMediaStore: MediaStore = {
+  id: 'supabase',
+
+  put: async (path, file, contentType) => {
+    const { error } = await supabase.storage
+      .from(MEDIA_BUCKET)
+      .upload(path, file, { contentType, cacheControl: '31536000', upsert: false });
+    if (error) throw error;
+  },
+
+  remove: async (paths) => {
+    const { error } = await supabase.storage.from(MEDIA_BUCKET).remove(paths);
+    if (error) throw error;
+  },
+
+  getUrl: (path) => supabase.storage.from(MEDIA_BUCKET).getPublicUrl(path).data.publicUrl,
+
+  saveAsset: async (asset) => {
+    const { data, error } = await supabase
+      .from('media_assets')
+      .insert({
+        id: asset.id,
+        tenant_id: asset.tenantId,
+        name: asset.name,
+        kind: asset.kind,
+        mime_type: asset.mimeType,
+        size: asset.size,
+        width: asset.width,
+        height: asset.height,
+        tags: asset.tags,
+        url: asset.url,
+        thumbnail_url: asset.thumbnailUrl,
+        original_url: asset.originalUrl,
+        paths: asset.paths,
+      })
+      .select()
+      .single();
+    if (error) throw error;
+    return mapAsset(data);
+  },
+
+  listAssets: async (tenantId) => {
+    const { data, error } = await supabase
+      .from('media_assets')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapAsset);
+  },
+
+  updateAssetTags: async (id, tags) => {
+    const { error } = await supabase
+      .from('media_assets')
+      .update({ tags })
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  deleteAsset: async (id) => {
+    const { error } = await supabase
+      .from('media_assets')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+};
+
+// Served by lib/localMediaPlugin.ts
+const LOCAL_MEDIA_ROUTE = '/local-media';
+
+const localRequest = async (route: string, init?: RequestInit) => {
+  const res = await fetch(`${LOCAL_MEDIA_ROUTE}/${route}`, init);
+  if (!res.ok) throw new Error(`Local media request failed: HTTP ${res.status}`);
+  return res;
+};
+
+const jsonBody = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+/**
+ * Files and asset records on the local filesystem, through the Vite server's local-media
+ * middleware. For development and single-machine installs without Supabase.
+ */
+export const localMediaStore: MediaStore = {
+  id: 'local',
+
+  put: async (path, file, contentType) => {
+    await localRequest(`files/${encodePath(path)}`, { method: 'PUT', headers: { 'Content-Type': contentType }, body: file });
+  },
+
+  remove: async (paths) => {
+    await localRequest('remove', jsonBody('POST', { paths }));
+  },
+
+  getUrl: (path) => `${window.location.origin}${LOCAL_MEDIA_ROUTE}/files/${encodePath(path)}`,
+
+  saveAsset: async (asset) => (await localRequest('assets', jsonBody('POST', asset))).json(),
+
+  listAssets: async (tenantId) => (await localRequest(`assets?tenant=${encodeURIComponent(tenantId)}`)).json(),
+
+  updateAssetTags: async (id, tags) => {
+    await localRequest(`assets/${encodeURIComponent(id)}`, jsonBody('PATCH', { tags }));
+  },
+
+  deleteAsset: async (id) => {
+    await localRequest(`assets/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+};
+
+let activeStore: MediaStore = process.env.MEDIA_STORE === 'local' ? localMediaStore : supabaseMediaStore;
+
+export const getMediaStore = () => activeStore;
+
+export const setMediaStore = (store: MediaStore) => {
+  activeStore = store;
+};
+
+export const getMediaKind = (mimeType: string): MediaKind => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  return 'other';
+};
+
+export const getMaxUploadMb = (mimeType: string) =>
+  getMediaKind(mimeType) === 'video' ? MAX_VIDEO_SIZE_MB : MAX_MEDIA_SIZE_MB;
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode image variant'))), 'image/webp', VARIANT_QUALITY);
+  });
+
+/**
+ * Downscales an image to fit within `maxPx` on its longest side (never upscales).
+ */
+const resizeImage = async (bitmap: ImageBitmap, maxPx: number): Promise<Blob> => {
+  const scale = Math.min(1, maxPx / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not available');
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return canvasToBlob(canvas);
+};
+
+const fileExtension = (file: File) => file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : 'bin';
+
+// Animated and vector formats lose their point when rasterized, so they are served as-is.
+const hasVariants = (mimeType: string) =>
+  getMediaKind(mimeType) === 'image' && mimeType !== 'image/gif' && mimeType !== 'image/svg+xml';
+
+/**
+ * Uploads a file plus, for raster images, a thumbnail and a screen-sized variant.
+ */
+export const uploadMedia = async (file: File, tenantId: string, tags: string[] = []): Promise<MediaAsset> => {
+  const store = getMediaStore();
+  const id = crypto.randomUUID();
+  const base = `${tenantId}/${id}`;
+  const originalPath = `${base}/original.${fileExtension(file)}`;
+  // Each path is added once its upload succeeds, so a later failure cleans up everything stored so far
+  const paths: string[] = [];
+
+  await store.put(originalPath, file, file.type || 'application/octet-stream');
+  paths.push(originalPath);
+
+  let url = store.getUrl(originalPath);
+  let thumbnailUrl: string | undefined;
+  let width: number | undefined;
+  let height: number | undefined;
+
+  if (hasVariants(file.type)) {
+    try {
+      const bitmap = await createImageBitmap(file);
+      width = bitmap.width;
+      height = bitmap.height;
+
+      const displayPath = `${base}/display.webp`;
+      const thumbPath = `${base}/thumb.webp`;
+      await store.put(displayPath, await resizeImage(bitmap, DISPLAY_MAX_PX), 'image/webp');
+      paths.push(displayPath);
+      await store.put(thumbPath, await resizeImage(bitmap, THUMBNAIL_MAX_PX), 'image/webp');
+      paths.push(thumbPath);
+      bitmap.close();
+
+      url = store.getUrl(displayPath);
+      thumbnailUrl = store.getUrl(thumbPath);
+    } catch (error) {
+      console.error('Failed to generate image variants, serving original', error);
+    }
+  }
+
+  try {
+    return await store.saveAsset({
+      id,
+      tenantId,
+      name: file.name,
+      kind: getMediaKind(file.type),
+      mimeType: file.type,
+      size: file.size,
+      width,
+      height,
+      tags,
+      url,
+      thumbnailUrl,
+      originalUrl: store.getUrl(originalPath),
+      paths,
+      createdAt: Date.now(),
+    });
+  } catch (error) {
+    console.error('Failed to record media asset', error);
+    await store.remove(paths).catch(() => {});
+    throw error;
+  }
+};
+
+export const listMedia = async (tenantId: string): Promise<MediaAsset[]> => {
+  try {
+    return await getMediaStore().listAssets(tenantId);
+  } catch (error) {
+    console.error('Failed to list media assets', error);
+    return [];
+  }
+};
+
+export const updateMediaTags = async (id: string, tags: string[]): Promise<void> => {
+  try {
+    await getMediaStore().updateAssetTags(id, tags);
+  } catch (error) {
+    console.error('Failed to update media tags', error);
+    throw error;
+  }
+};
+
+export const deleteMedia = async (asset: MediaAsset): Promise<void> => {
+  const store = getMediaStore();
+  await store.remove(asset.paths);
+
+  try {
+    await store.deleteAsset(asset.id);
+  } catch (error) {
+    console.error('Failed to delete media asset', error);
+    throw error;
+  }
+};
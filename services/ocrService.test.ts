@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const worker = {
+  recognize: vi.fn(async () => ({ data: { text: 'Picture day' } })),
+  terminate: vi.fn(async () => {})
+};
+vi.mock('tesseract.js', () => ({ createWorker: vi.fn(async () => worker) }));
+
+import { createWorker } from 'tesseract.js';
+import { recognizeText } from './ocrService';
+
+describe('recognizeText', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reads every image and terminates the worker once', async () => {
+    expect(await recognizeText([new Blob(), new Blob()])).toEqual(['Picture day', 'Picture day']);
+    expect(worker.terminate).toHaveBeenCalledTimes(1);
+  });
+
+  it('terminates the worker when the signal was aborted before it started', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(recognizeText([new Blob()], undefined, controller.signal)).rejects.toBe(controller.signal.reason);
+    expect(worker.recognize).not.toHaveBeenCalled();
+    expect(worker.terminate).toHaveBeenCalledTimes(1);
+  });
+
+  it('terminates the worker once when aborted mid-batch', async () => {
+    const controller = new AbortController();
+    worker.recognize.mockImplementationOnce(async () => {
+      controller.abort();
+      return { data: { text: 'First page' } };
+    });
+    await expect(recognizeText([new Blob(), new Blob()], undefined, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    expect(worker.terminate).toHaveBeenCalledTimes(1);
+  });
+
+  it('explains that OCR needs the network when the worker cannot load', async () => {
+    vi.mocked(createWorker).mockRejectedValueOnce(new Error('Failed to fetch'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(recognizeText([new Blob()])).rejects.toThrow(/needs an internet connection/);
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,47 @@
+import { createWorker } from 'tesseract.js';
+
+export type OcrImage = File | Blob | HTMLCanvasElement;
+
+/**
+ * Reads text out of scanned images, one result per image. A single Tesseract worker is shared
+ * across the batch; `onProgress` gets 0-1 for the whole batch. The worker is torn down when done or aborted.
+ *
+ * OCR needs network access: tesseract.js downloads its engine and the English language data
+ * from the jsDelivr CDN on first use (cached by the browser afterwards). None of it is bundled.
+ */
+export const recognizeText = async (images: OcrImage[], onProgress?: (progress: number) => void, signal?: AbortSignal): Promise<string[]> => {
+  let current = 0;
+  let worker: Awaited<ReturnType<typeof createWorker>>;
+  try {
+    worker = await createWorker('eng', 1, {
+      logger: (m) => {
+        if (m.status === 'recognizing text') onProgress?.((current + m.progress) / images.length);
+      }
+    });
+  } catch (error) {
+    console.error('Error starting OCR:', error);
+    throw new Error('Could not start OCR. Reading scans downloads the OCR engine and language data, so it needs an internet connection.');
+  }
+  let terminated = false;
+  const terminate = async () => {
+    if (terminated) return;
+    terminated = true;
+    await worker.terminate();
+  };
+  const onAbort = () => { terminate(); };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const results: string[] = [];
+    for (; current < images.length; current++) {
+      if (signal?.aborted) throw signal.reason;
+      const { data } = await worker.recognize(images[current]);
+      results.push(data.text);
+    }
+    return results;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    // Also covers a signal that was already aborted before the listener went on
+    await terminate();
+  }
+};
@@ -0,0 +1,44 @@
+import { AppData } from '../types';
+
+const SERVICE_WORKER_URL = '/service-worker.js';
+
+export const registerServiceWorker = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (error) {
+    console.error('Service worker registration failed', error);
+  }
+};
+
+/**
+ * Every remote image (and the emergency clip) a config can put on screen. Inline (data:) uploads already live in the config itself.
+ */
+export const collectAssetUrls = (data: AppData): string[] => {
+  const urls = [
+    data.theme?.logoUrl,
+    data.emergency?.audioData,
+    ...(data.announcements || []).map(a => a.imageUrl),
+    ...(data.pages || []).flatMap(p => [
+      p.imageUrl,
+      ...Object.values(p.widgets || {}).map(w => w.type === 'image' ? w.settings?.url : undefined),
+    ]),
+  ];
+
+  return Array.from(new Set(urls.filter((url): url is string => !!url && !url.startsWith('data:'))));
+};
+
+/**
+ * Asks the service worker to cache every image (and the emergency clip) referenced by the
+ * config so the screen can render fully after a reboot without network. The worker also
+ * drops cached media the list no longer includes.
+ */
+export const precacheAssets = async (data: AppData): Promise<void> => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({ type: 'PRECACHE_URLS', urls: collectAssetUrls(data) });
+  } catch (error) {
+    console.error('Asset precache request failed', error);
+  }
+};
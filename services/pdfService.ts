@@ -1,7 +1,16 @@
-
 import * as pdfjsModule from 'pdfjs-dist';
+import { recognizeText } from './ocrService';
+
+const MAX_PAGES = 30;
+const MAX_OCR_PAGES = 5;   // OCR takes several seconds a page
+const MIN_PAGE_TEXT = 20;  // Pages with fewer characters of text are treated as scans
+const OCR_SCALE = 2;
 
-const MAX_PAGES = 15;
+export interface PdfExtractOptions {
+  signal?: AbortSignal;
+  onProgress?: (message: string) => void;
+  onWarning?: (message: string) => void;  // Parts of the document that were left out
+}
 
 // Helper to safely get the library instance
 const getPdfLib = () => {
@@ -16,54 +25,92 @@ const getPdfLib = () => {
 const configureWorker = () => {
     try {
         const lib = getPdfLib();
-        if (lib.GlobalWorkerOptions && !lib.GlobalWorkerOptions.workerSrc) {
-            lib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+        if (lib.GlobalWorkerOptions && !lib.GlobalWorkerOptions.workerPort) {
+            // Bundled from node_modules by Vite, so imports work without a CDN
+            lib.GlobalWorkerOptions.workerPort = new Worker(new URL('pdfjs-dist/build/pdf.worker.min.js', import.meta.url));
         }
     } catch (e) {
         console.warn("Could not configure PDF worker automatically:", e);
     }
 };
 
+const renderPage = async (page: any) => {
+    const viewport = page.getViewport({ scale: OCR_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+    return canvas;
+};
+
 /**
- * Extracts text from PDF with non-blocking async yielding.
+ * Extracts text from PDF with non-blocking async yielding. Pages without a text layer
+ * (scans, image-only exports) are rendered and run through OCR.
  */
-export const extractTextFromPdf = async (file: File): Promise<string> => {
+export const extractTextFromPdf = async (file: File, options: PdfExtractOptions = {}): Promise<string> => {
+  const { signal, onProgress, onWarning } = options;
   try {
     configureWorker();
     const lib = getPdfLib();
-    
+
     const arrayBuffer = await file.arrayBuffer();
     const loadingTask = lib.getDocument({ data: new Uint8Array(arrayBuffer) });
     const pdf = await loadingTask.promise;
-    
-    if (pdf.numPages > MAX_PAGES) {
-        throw new Error(`PDF is too large (${pdf.numPages} pages). Please upload a document with 15 pages or fewer.`);
-    }
 
-    let fullText = '';
-    
-    for (let i = 1; i <= pdf.numPages; i++) {
-      // Yield to main thread to prevent UI freezing
-      await new Promise(resolve => setTimeout(resolve, 0));
-      
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      
-      const pageText = textContent.items
-        // @ts-ignore
-        .filter((item: any) => typeof item.str === 'string')
-        // @ts-ignore
-        .map((item: any) => item.str)
-        .join(' ');
-        
-      fullText += pageText + '\n\n';
-      
-      // Clean up page resources
-      page.cleanup();
-    }
+    try {
+      if (pdf.numPages > MAX_PAGES) {
+          onWarning?.(`"${file.name}" has ${pdf.numPages} pages; only the first ${MAX_PAGES} were imported.`);
+      }
+
+      const pageTexts: string[] = [];
+      const scans: HTMLCanvasElement[] = [];
+      const scanIndexes: number[] = [];
+      let skippedScans = 0;
 
-    return fullText;
+      for (let i = 1; i <= Math.min(pdf.numPages, MAX_PAGES); i++) {
+        // Yield to main thread to prevent UI freezing
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (signal?.aborted) throw signal.reason;
+        onProgress?.(`Reading page ${i} of ${pdf.numPages}...`);
+
+        const page = await pdf.getPage(i);
+        const textContent = await page.getTextContent();
+
+        const pageText = textContent.items
+          // @ts-ignore
+          .filter((item: any) => typeof item.str === 'string')
+          // @ts-ignore
+          .map((item: any) => item.str)
+          .join(' ');
+
+        if (pageText.replace(/\s/g, '').length < MIN_PAGE_TEXT) {
+          if (scans.length < MAX_OCR_PAGES) {
+            scans.push(await renderPage(page));
+            scanIndexes.push(pageTexts.length);
+          } else {
+            skippedScans++;
+          }
+        }
+        pageTexts.push(pageText);
+
+        // Clean up page resources
+        page.cleanup();
+      }
+
+      if (skippedScans > 0) {
+        onWarning?.(`Only the first ${MAX_OCR_PAGES} scanned pages were read; ${skippedScans} more scanned page(s) were skipped.`);
+      }
+      if (scans.length > 0) {
+        const ocrTexts = await recognizeText(scans, (progress) => onProgress?.(`Reading scanned pages (${Math.round(progress * 100)}%)...`), signal);
+        scanIndexes.forEach((pageIndex, i) => { pageTexts[pageIndex] = ocrTexts[i]; });
+      }
+
+      return pageTexts.join('\n\n');
+    } finally {
+      pdf.destroy();
+    }
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error('Error parsing PDF:', error);
     let errorMessage = error instanceof Error ? error.message : 'Failed to read PDF file.';
     throw new Error(errorMessage);
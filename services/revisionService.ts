@@ -0,0 +1,145 @@
+import { AppData, ConfigRevision, ConfigDiffEntry, DisplayTarget, RevisionMeta } from '../types';
+import { supabase } from '../lib/supabase';
+import { normalizeTickerItems } from './tickerService';
+
+/**
+ * Revisions are append-only rows in `app_config_revisions`
+ * (id, tenant_id, group_id, data, author_email, note, created_at).
+ * The table's policies should only allow INSERT and SELECT.
+ */
+const REVISION_LIST_LIMIT = 50;
+
+const mapRevision = (row: any): ConfigRevision => ({
+  id: String(row.id),
+  tenantId: row.tenant_id,
+  groupId: row.group_id,
+  authorEmail: row.author_email || 'unknown',
+  note: row.note || '',
+  createdAt: new Date(row.created_at).getTime(),
+  data: row.data || undefined,
+});
+
+export const createRevision = async (appData: AppData, target: DisplayTarget, meta: RevisionMeta): Promise<void> => {
+  const { error } = await supabase
+    .from('app_config_revisions')
+    .insert({
+      tenant_id: target.tenantId,
+      group_id: target.groupId,
+      data: appData,
+      author_email: meta.authorEmail,
+      note: meta.note || '',
+    });
+
+  if (error) {
+    console.error('Failed to record config revision', error);
+    throw error;
+  }
+};
+
+/**
+ * Lists revision metadata, newest first. Payloads are fetched on demand with `getRevision`.
+ */
+export const listRevisions = async (target: DisplayTarget): Promise<ConfigRevision[]> => {
+  const { data, error } = await supabase
+    .from('app_config_revisions')
+    .select('id, tenant_id, group_id, author_email, note, created_at')
+    .eq('tenant_id', target.tenantId)
+    .eq('group_id', target.groupId)
+    .order('created_at', { ascending: false })
+    .limit(REVISION_LIST_LIMIT);
+
+  if (error) {
+    console.error('Failed to list config revisions', error);
+    return [];
+  }
+
+  return (data || []).map(mapRevision);
+};
+
+export const getRevision = async (id: string): Promise<ConfigRevision | null> => {
+  const { data, error } = await supabase
+    .from('app_config_revisions')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load config revision', error);
+    return null;
+  }
+
+  return data ? mapRevision(data) : null;
+};
+
+/**
+ * Diffs two id-keyed lists, reporting additions, removals and edits by label.
+ */
+const diffById = <T extends { id: string }>(
+  section: string,
+  before: T[] = [],
+  after: T[] = [],
+  getLabel: (item: T) => string
+): ConfigDiffEntry[] => {
+  const entries: ConfigDiffEntry[] = [];
+  const beforeMap = new Map(before.map(item => [item.id, item]));
+  const afterMap = new Map(after.map(item => [item.id, item]));
+
+  after.forEach(item => {
+    const previous = beforeMap.get(item.id);
+    if (!previous) {
+      entries.push({ section, kind: 'added', label: getLabel(item) });
+    } else if (JSON.stringify(previous) !== JSON.stringify(item)) {
+      entries.push({ section, kind: 'changed', label: getLabel(item) });
+    }
+  });
+
+  before.forEach(item => {
+    if (!afterMap.has(item.id)) entries.push({ section, kind: 'removed', label: getLabel(item) });
+  });
+
+  const sharedBefore = before.filter(item => afterMap.has(item.id)).map(item => item.id);
+  const sharedAfter = after.filter(item => beforeMap.has(item.id)).map(item => item.id);
+  if (sharedBefore.join() !== sharedAfter.join()) {
+    entries.push({ section, kind: 'reordered', label: `${section} order changed` });
+  }
+
+  return entries;
+};
+
+const LIST_SECTIONS = ['announcements', 'events', 'pages', 'tickerItems', 'customWidgets', 'eventCategories', 'themeLibrary'];
+
+/**
+ * Structural, human-readable diff between two configs (`before` → `after`).
+ */
+export const diffConfigs = (before: AppData, after: AppData): ConfigDiffEntry[] => {
+  const entries: ConfigDiffEntry[] = [
+    ...diffById('Announcements', before.announcements, after.announcements, a => a.title || 'Untitled announcement'),
+    ...diffById('Events', before.events, after.events, e => e.title || 'Untitled event'),
+    ...diffById('Pages', before.pages, after.pages, p => p.title || 'Untitled page'),
+    ...diffById('Data Sources', before.customWidgets, after.customWidgets, w => w.name),
+    ...diffById('Event Categories', before.eventCategories, after.eventCategories, c => c.name),
+    ...diffById('Theme Library', before.themeLibrary, after.themeLibrary, t => t.name || 'Untitled theme'),
+    ...diffById('Ticker', normalizeTickerItems(before.tickerItems), normalizeTickerItems(after.tickerItems), t => t.text || 'Untitled ticker item'),
+  ];
+
+  const themeKeys = new Set([...Object.keys(before.theme || {}), ...Object.keys(after.theme || {})]) as Set<keyof AppData['theme']>;
+  themeKeys.forEach(key => {
+    if (key === 'id') return;
+    const from = before.theme?.[key];
+    const to = after.theme?.[key];
+    if (from === to) return;
+    const isShort = (value: unknown) => value === undefined || String(value).length <= 32;
+    const label = isShort(from) && isShort(to) ? `${key}: ${from || '—'} → ${to || '—'}` : `${key} updated`;
+    entries.push({ section: 'Theme', kind: 'changed', label });
+  });
+
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof AppData>;
+  keys.forEach(key => {
+    if (key === 'theme' || key === 'isSafeMode' || LIST_SECTIONS.includes(key)) return;
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      entries.push({ section: 'Settings', kind: 'changed', label: String(key) });
+    }
+  });
+
+  return entries;
+};
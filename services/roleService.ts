@@ -0,0 +1,49 @@
+import { AdminRole, AdminTab } from '../types';
+
+export const ADMIN_ROLES: AdminRole[] = ['viewer', 'content_editor', 'designer', 'super_admin'];
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  viewer: 'Viewer',
+  content_editor: 'Content Editor',
+  designer: 'Designer',
+  super_admin: 'Super Admin'
+};
+
+const CONTENT_TABS: AdminTab[] = ['announcements', 'events', 'bells', 'ticker', 'import', 'media'];
+const DESIGN_TABS: AdminTab[] = ['pages', 'appearance', 'livecam', 'widgets', 'weather', 'contact', 'media'];
+const SYSTEM_TABS: AdminTab[] = ['emergency', 'config', 'security'];
+const MONITORING_TABS: AdminTab[] = ['health', 'history'];
+
+const EDITABLE_TABS: Record<AdminRole, AdminTab[]> = {
+  viewer: [],
+  content_editor: CONTENT_TABS,
+  designer: DESIGN_TABS,
+  super_admin: Array.from(new Set([...CONTENT_TABS, ...DESIGN_TABS, ...SYSTEM_TABS, ...MONITORING_TABS]))
+};
+
+export const isAdminRole = (value: unknown): value is AdminRole =>
+  typeof value === 'string' && (ADMIN_ROLES as string[]).includes(value);
+
+/**
+ * Whether the role may save changes made in a tab.
+ * This only shapes the UI; the row level security policies in supabase/migrations restrict the writes.
+ */
+export const canEditTab = (role: AdminRole, tab: AdminTab) => EDITABLE_TABS[role].includes(tab);
+
+/**
+ * Viewers can browse content and monitoring tabs read-only; system tabs are super-admin only.
+ */
+export const canViewTab = (role: AdminRole, tab: AdminTab) =>
+  canEditTab(role, tab) || (!SYSTEM_TABS.includes(tab) && (role === 'viewer' || MONITORING_TABS.includes(tab)));
+
+export const isSuperAdmin = (role?: AdminRole) => role === 'super_admin';
+
+/**
+ * Checks an email against the configured domain allow-list. An empty list allows any domain.
+ */
+export const isAllowedEmailDomain = (email: string, domains: string[]) => {
+  const normalized = domains.map(d => d.trim().toLowerCase().replace(/^@/, '')).filter(Boolean);
+  if (normalized.length === 0) return true;
+  const domain = email.toLowerCase().split('@')[1] || '';
+  return normalized.includes(domain);
+};
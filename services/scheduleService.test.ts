@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Announcement, Page } from '../types';
+import { describeRule, getLiveWindows, getScheduledPages, isAnnouncementLive, isRuleActive } from './scheduleService';
+
+// Tests run with the screen clock in UTC; 21 October 2026 is a Wednesday
+const at = (time: string, day = '2026-10-21') => new Date(`${day}T${time}:00.000Z`);
+
+describe('isRuleActive', () => {
+  it('treats a missing rule as always live', () => {
+    expect(isRuleActive(undefined, at('03:00'))).toBe(true);
+  });
+
+  it('limits to days of the week and an inclusive date range', () => {
+    const rule = { days: [1, 2, 3, 4, 5], fromDate: '2026-10-01', toDate: '2026-10-21' };
+    expect(isRuleActive(rule, at('12:00'))).toBe(true);
+    expect(isRuleActive(rule, at('12:00', '2026-10-22'))).toBe(false);
+    expect(isRuleActive(rule, at('12:00', '2026-10-17'))).toBe(false);
+  });
+
+  it('treats the window end as exclusive', () => {
+    const lunch = { startTime: '11:00', endTime: '13:30' };
+    expect(isRuleActive(lunch, at('11:00'))).toBe(true);
+    expect(isRuleActive(lunch, at('13:29'))).toBe(true);
+    expect(isRuleActive(lunch, at('13:30'))).toBe(false);
+  });
+
+  it('wraps windows that end before they start past midnight', () => {
+    const overnight = { startTime: '22:00', endTime: '06:00' };
+    expect(isRuleActive(overnight, at('23:00'))).toBe(true);
+    expect(isRuleActive(overnight, at('05:59'))).toBe(true);
+    expect(isRuleActive(overnight, at('06:00'))).toBe(false);
+    expect(isRuleActive(overnight, at('12:00'))).toBe(false);
+  });
+});
+
+describe('isAnnouncementLive', () => {
+  const announcement: Announcement = {
+    id: 'a', type: 'text', title: 'Picture day', content: '', active: true, priority: 'normal',
+    startAt: '2026-10-21T08:00:00.000Z', endAt: '2026-10-21T15:00:00.000Z'
+  };
+
+  it('needs the announcement published and inside its start/end window', () => {
+    expect(isAnnouncementLive(announcement, at('08:00'))).toBe(true);
+    expect(isAnnouncementLive(announcement, at('15:00'))).toBe(false);
+    expect(isAnnouncementLive({ ...announcement, active: false }, at('12:00'))).toBe(false);
+  });
+});
+
+describe('getScheduledPages', () => {
+  it('drops disabled pages and pages outside their daypart', () => {
+    const pages = [
+      { id: 'always' },
+      { id: 'disabled', enabled: false },
+      { id: 'mornings', schedule: { startTime: '07:00', endTime: '10:00' } }
+    ] as Page[];
+    expect(getScheduledPages(pages, at('08:00')).map(p => p.id)).toEqual(['always', 'mornings']);
+    expect(getScheduledPages(pages, at('12:00')).map(p => p.id)).toEqual(['always']);
+  });
+});
+
+describe('getLiveWindows', () => {
+  it('merges consecutive live samples into windows', () => {
+    const rule = { startTime: '09:00', endTime: '10:30' };
+    const windows = getLiveWindows(now => isRuleActive(rule, now), at('00:00'), 2);
+    expect(windows.map(w => [w.start.toISOString(), w.end.toISOString()])).toEqual([
+      ['2026-10-21T09:00:00.000Z', '2026-10-21T10:30:00.000Z'],
+      ['2026-10-22T09:00:00.000Z', '2026-10-22T10:30:00.000Z']
+    ]);
+  });
+});
+
+describe('describeRule', () => {
+  it('summarizes days, dates and times', () => {
+    expect(describeRule(undefined)).toBe('Always');
+    expect(describeRule({ days: [5, 1, 2, 3, 4], startTime: '11:00', endTime: '13:30' })).toBe('Weekdays · 11:00–13:30');
+    expect(describeRule({ days: [0, 6] })).toBe('Weekends');
+    expect(describeRule({ days: [1, 3], fromDate: '2026-10-01' })).toBe('Mon, Wed · 2026-10-01 → …');
+  });
+});
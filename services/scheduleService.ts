@@ -0,0 +1,119 @@
+import { Announcement, Page, ScheduleRule } from '../types';
+
+export interface LiveWindow {
+  start: Date;
+  end: Date;
+}
+
+const TIMELINE_STEP_MINUTES = 15;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+/**
+ * Evaluates a schedule rule against the kiosk's local clock.
+ * A daily window whose end is before its start wraps past midnight.
+ */
+export const isRuleActive = (rule: ScheduleRule | undefined, now: Date): boolean => {
+  if (!rule) return true;
+
+  if (rule.days && rule.days.length > 0 && !rule.days.includes(now.getDay())) return false;
+
+  const dateKey = toDateKey(now);
+  if (rule.fromDate && dateKey < rule.fromDate) return false;
+  if (rule.toDate && dateKey > rule.toDate) return false;
+
+  if (rule.startTime || rule.endTime) {
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    const start = rule.startTime ? toMinutes(rule.startTime) : 0;
+    const end = rule.endTime ? toMinutes(rule.endTime) : 24 * 60;
+    if (start <= end) {
+      if (minutes < start || minutes >= end) return false;
+    } else if (minutes < start && minutes >= end) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Whether an announcement should be on screen: published, inside its
+ * start/end window and matching its recurrence rule.
+ */
+export const isAnnouncementLive = (announcement: Announcement, now: Date): boolean => {
+  if (!announcement.active) return false;
+  if (announcement.startAt && now < new Date(announcement.startAt)) return false;
+  if (announcement.endAt && now >= new Date(announcement.endAt)) return false;
+  return isRuleActive(announcement.recurrence, now);
+};
+
+/**
+ * Pages in the rotation at a given moment: enabled and inside their daypart schedule.
+ */
+export const getScheduledPages = (pages: Page[], now: Date): Page[] =>
+  pages.filter(page => page.enabled !== false && isRuleActive(page.schedule, now));
+
+/**
+ * Samples a predicate over a time range and merges consecutive live samples
+ * into windows. Used to draw schedule timelines in the admin panel.
+ */
+export const getLiveWindows = (isLive: (at: Date) => boolean, from: Date, days: number): LiveWindow[] => {
+  const windows: LiveWindow[] = [];
+  const stepMs = TIMELINE_STEP_MINUTES * 60 * 1000;
+  const endMs = from.getTime() + days * 24 * 60 * 60 * 1000;
+  let current: LiveWindow | null = null;
+
+  for (let t = from.getTime(); t < endMs; t += stepMs) {
+    const at = new Date(t);
+    if (isLive(at)) {
+      if (current) current.end = new Date(t + stepMs);
+      else current = { start: at, end: new Date(t + stepMs) };
+    } else if (current) {
+      windows.push(current);
+      current = null;
+    }
+  }
+  if (current) windows.push(current);
+
+  return windows;
+};
+
+/**
+ * Converts an ISO timestamp to the value format of a `datetime-local` input.
+ */
+export const toLocalInputValue = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+/**
+ * Short human-readable summary of a schedule rule, e.g. "Mon–Fri · 11:00–13:30".
+ */
+export const describeRule = (rule?: ScheduleRule): string => {
+  if (!rule) return 'Always';
+  const parts: string[] = [];
+
+  const days = [...(rule.days || [])].sort();
+  if (days.length > 0 && days.length < 7) {
+    if (days.join() === '1,2,3,4,5') parts.push('Weekdays');
+    else if (days.join() === '0,6') parts.push('Weekends');
+    else parts.push(days.map(d => WEEKDAY_LABELS[d]).join(', '));
+  }
+  if (rule.fromDate || rule.toDate) parts.push(`${rule.fromDate || '…'} → ${rule.toDate || '…'}`);
+  if (rule.startTime || rule.endTime) parts.push(`${rule.startTime || '00:00'}–${rule.endTime || '24:00'}`);
+
+  return parts.length > 0 ? parts.join(' · ') : 'Always';
+};
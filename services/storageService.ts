@@ -1,22 +1,34 @@
 
-import { AppData, Announcement, Event as AppEvent, Page } from '../types';
+import { AppData, Announcement, Event as AppEvent, Page, DisplayTarget, RevisionMeta, Theme } from '../types';
 import { addLog } from './logService';
 import { safeStorage } from '../lib/safeStorage';
 import { loadCloudData, saveCloudData } from './cloudStorageService';
+import { getActiveTarget, isSameTarget, formatTarget } from './tenantService';
+import { createRevision } from './revisionService';
+import { DEFAULT_WEATHER_ALERT_CONFIG } from './weatherAlertService';
+import { normalizeEvent } from './eventService';
+import { normalizeTickerItems, DEFAULT_TICKER_SPEED } from './tickerService';
+import { DEFAULT_BELL_SCHEDULE } from './bellScheduleService';
 
 const STORAGE_KEY = 'HARDY_SIGNAGE_DATA';
 
+const todayAt = (hours: number, minutes: number) => new Date(new Date().setHours(hours, minutes, 0, 0)).toISOString();
+
+const DEFAULT_THEME: Theme = {
+  id: 'default',
+  name: 'Midnight Blue',
+  gradientStart: '#000000',
+  gradientEnd: '#1e1b4b', // Dark blue
+  accentColor: '#3b82f6', // Blue 500
+  textColor: '#ffffff',
+  logoUrl: '' 
+};
+
 const DEFAULT_DATA: AppData = {
   schoolName: 'Nova Academy',
-  theme: {
-    id: 'default',
-    name: 'Midnight Blue',
-    gradientStart: '#000000',
-    gradientEnd: '#1e1b4b', // Dark blue
-    accentColor: '#3b82f6', // Blue 500
-    textColor: '#ffffff',
-    logoUrl: '' 
-  },
+  theme: DEFAULT_THEME,
+  themeLibrary: [DEFAULT_THEME],
+  themeSchedule: [],
   announcements: [
     {
       id: '1',
@@ -37,9 +49,9 @@ const DEFAULT_DATA: AppData = {
     }
   ],
   events: [
-    { id: '1', title: 'Parent Teacher Conf', time: '16:00', location: 'Auditorium', date: new Date().toISOString(), category: 'Academic' },
-    { id: '2', title: 'Basketball Finals', time: '15:30', location: 'Gym', date: new Date().toISOString(), category: 'Sports' },
-    { id: '3', title: 'Jazz Band', time: '12:00', location: 'Music Room', date: new Date().toISOString(), category: 'Arts' },
+    { id: '1', title: 'Parent Teacher Conf', location: 'Auditorium', start: todayAt(16, 0), end: todayAt(19, 0), category: 'Academic' },
+    { id: '2', title: 'Basketball Finals', location: 'Gym', start: todayAt(15, 30), end: todayAt(17, 30), category: 'Sports' },
+    { id: '3', title: 'Jazz Band', location: 'Music Room', start: todayAt(12, 0), end: todayAt(13, 0), category: 'Arts' },
   ],
   eventCategories: [
       { id: 'cat-1', name: 'Academic', icon: 'BookOpen' },
@@ -47,17 +59,24 @@ const DEFAULT_DATA: AppData = {
       { id: 'cat-3', name: 'Arts', icon: 'Palette' },
       { id: 'cat-4', name: 'General', icon: 'Users' }
   ],
-  tickerItems: [
+  calendarSources: [],
+  eventSettings: {
+    autoArchive: false
+  },
+  bellSchedule: DEFAULT_BELL_SCHEDULE,
+  tickerItems: normalizeTickerItems([
     "REMINDER: Early dismissal this Friday at 1:00 PM.",
     "Report cards will be distributed next Monday.",
     "Yearbook sales end on May 30th!"
-  ],
+  ]),
+  tickerSpeed: DEFAULT_TICKER_SPEED,
   liveCamUrls: [
       'https://webcams.nyctmc.org/api/cameras/4c47eda8-a4a1-4e40-baea-578e0a99e1d8/image',
       'https://webcams.nyctmc.org/api/cameras/9ca4e591-4ac8-471c-8e76-4710b52e6f9b/image',
       'https://webcams.nyctmc.org/api/cameras/a01a8c98-d314-4eb4-bd7c-4a4f80d71c4b/image'
   ], 
   enableLiveCam: true,
+  liveCamRefreshSeconds: 10,
   pageDuration: 60,
   pages: [
     {
@@ -86,7 +105,9 @@ const DEFAULT_DATA: AppData = {
     lat: 40.6090,
     lon: -73.7630
   },
+  weatherAlerts: DEFAULT_WEATHER_ALERT_CONFIG,
   customWidgets: [],
+  adminEmailDomains: ['schools.nyc.gov'],
   isSafeMode: false
 };
 
@@ -104,8 +125,12 @@ export const getStoredData = (): AppData => {
 
     // Migrations / Backwards compatibility
     if (!parsed.theme) parsed.theme = DEFAULT_DATA.theme;
-    if (!parsed.tickerItems) parsed.tickerItems = DEFAULT_DATA.tickerItems;
+    if (!parsed.themeLibrary) parsed.themeLibrary = [parsed.theme];
+    if (!parsed.themeSchedule) parsed.themeSchedule = [];
+    parsed.tickerItems = parsed.tickerItems ? normalizeTickerItems(parsed.tickerItems) : DEFAULT_DATA.tickerItems;
+    if (!parsed.tickerSpeed) parsed.tickerSpeed = DEFAULT_TICKER_SPEED;
     if (parsed.enableLiveCam === undefined) parsed.enableLiveCam = false;
+    if (!parsed.liveCamRefreshSeconds) parsed.liveCamRefreshSeconds = DEFAULT_DATA.liveCamRefreshSeconds;
     if (parsed.pageDuration === undefined) parsed.pageDuration = 60;
     
     if (!parsed.liveCamUrls) {
@@ -132,15 +157,34 @@ export const getStoredData = (): AppData => {
     if (parsed.socials === undefined) parsed.socials = DEFAULT_DATA.socials;
     if (parsed.emergency === undefined) parsed.emergency = DEFAULT_DATA.emergency;
     if (parsed.weatherConfig === undefined) parsed.weatherConfig = DEFAULT_DATA.weatherConfig;
+    if (parsed.weatherAlerts === undefined) parsed.weatherAlerts = DEFAULT_DATA.weatherAlerts;
     
     if (!parsed.eventCategories) {
         parsed.eventCategories = DEFAULT_DATA.eventCategories;
     } 
 
+    if (!parsed.calendarSources) {
+        parsed.calendarSources = DEFAULT_DATA.calendarSources;
+    }
+
+    if (!parsed.eventSettings) {
+        parsed.eventSettings = DEFAULT_DATA.eventSettings;
+    }
+
+    if (!parsed.bellSchedule) {
+        parsed.bellSchedule = DEFAULT_DATA.bellSchedule;
+    }
+    // Events used to store a free-text time next to a bare date
+    parsed.events = (parsed.events || []).map((e: AppEvent) => normalizeEvent(e, parsed.eventSettings.timeZone));
+
     if (!parsed.customWidgets) {
         parsed.customWidgets = DEFAULT_DATA.customWidgets;
     }
 
+    if (!parsed.adminEmailDomains) {
+        parsed.adminEmailDomains = DEFAULT_DATA.adminEmailDomains;
+    }
+
     parsed.isSafeMode = false;
     return parsed;
   } catch (error: any) {
@@ -167,21 +211,49 @@ export const saveStoredData = (data: AppData): void => {
   }
 };
 
-export const loadAppData = async (): Promise<AppData> => {
+/**
+ * Loads a display group's config from the cloud. Only the group this device is
+ * showing gets mirrored into local storage, so admins can edit other groups
+ * without changing what the local kiosk displays.
+ */
+export const loadAppData = async (target: DisplayTarget = getActiveTarget()): Promise<AppData> => {
+  const isLocalTarget = isSameTarget(target, getActiveTarget());
   try {
-    const cloudData = await loadCloudData();
+    const cloudData = await loadCloudData(target);
     if (cloudData) {
-      saveStoredData(cloudData);
+      if (isLocalTarget) saveStoredData(cloudData);
       return cloudData;
     }
   } catch (error) {
     console.error('Cloud load failed, falling back to local data', error);
   }
 
+  if (!isLocalTarget) throw new Error(`No config available for ${formatTarget(target)}`);
   return getStoredData();
 };
 
-export const saveAppData = async (data: AppData): Promise<void> => {
-  await saveCloudData(data);
-  saveStoredData(data);
+/**
+ * Saves a config to the cloud and, when `revision` is given, records it in the
+ * immutable revision history. A failed history write is logged but does not
+ * undo the save that already reached the screens.
+ */
+export const saveAppData = async (
+  data: AppData,
+  target: DisplayTarget = getActiveTarget(),
+  revision?: RevisionMeta
+): Promise<void> => {
+  await saveCloudData(data, target);
+  if (isSameTarget(target, getActiveTarget())) saveStoredData(data);
+
+  if (revision) {
+    try {
+      await createRevision(data, target, revision);
+    } catch (error: any) {
+      addLog({
+        level: 'error',
+        source: 'StorageService',
+        message: `Config saved but revision history write failed: ${error.message}`
+      });
+    }
+  }
 };
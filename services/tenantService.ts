@@ -0,0 +1,109 @@
+import { DisplayTarget } from '../types';
+import { safeStorage } from '../lib/safeStorage';
+import { supabase } from '../lib/supabase';
+
+const TARGET_KEY = 'HARDY_DISPLAY_TARGET';
+const DEVICE_KEY = 'HARDY_DEVICE_ID';
+
+export const DEFAULT_TARGET: DisplayTarget = { tenantId: 'default', groupId: 'default' };
+
+export const isSameTarget = (a: DisplayTarget, b: DisplayTarget) =>
+  a.tenantId === b.tenantId && a.groupId === b.groupId;
+
+export const formatTarget = (target: DisplayTarget) => `${target.tenantId} / ${target.groupId}`;
+
+/**
+ * Stable identifier for this screen. A `?device=` URL param overrides and persists it,
+ * otherwise a random ID is generated on first boot.
+ */
+export const getDeviceId = (): string => {
+  const fromUrl = new URLSearchParams(window.location.search).get('device');
+  if (fromUrl) {
+    safeStorage.setItem(DEVICE_KEY, fromUrl);
+    return fromUrl;
+  }
+
+  const stored = safeStorage.getItem(DEVICE_KEY);
+  if (stored) return stored;
+
+  const generated = `kiosk-${Math.random().toString(36).substring(2, 10)}`;
+  safeStorage.setItem(DEVICE_KEY, generated);
+  return generated;
+};
+
+/**
+ * The tenant/group whose config this browser displays and caches locally.
+ */
+export const getActiveTarget = (): DisplayTarget => {
+  try {
+    const stored = safeStorage.getItem(TARGET_KEY);
+    if (!stored) return DEFAULT_TARGET;
+    const parsed = JSON.parse(stored);
+    if (!parsed.tenantId || !parsed.groupId) return DEFAULT_TARGET;
+    return { tenantId: parsed.tenantId, groupId: parsed.groupId };
+  } catch {
+    return DEFAULT_TARGET;
+  }
+};
+
+export const setActiveTarget = (target: DisplayTarget) => {
+  safeStorage.setItem(TARGET_KEY, JSON.stringify(target));
+};
+
+/**
+ * Resolves which display group this kiosk belongs to, in priority order:
+ * 1. `?tenant=` / `?group=` URL params
+ * 2. An admin-assigned group for this device ID in `display_devices`
+ * 3. The last resolved target cached on this device
+ */
+export const resolveDisplayTarget = async (): Promise<DisplayTarget> => {
+  const params = new URLSearchParams(window.location.search);
+  const tenantParam = params.get('tenant');
+  const groupParam = params.get('group');
+
+  if (tenantParam || groupParam) {
+    const target = {
+      tenantId: tenantParam || getActiveTarget().tenantId,
+      groupId: groupParam || DEFAULT_TARGET.groupId
+    };
+    setActiveTarget(target);
+    return target;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('display_devices')
+      .select('tenant_id, group_id')
+      .eq('device_id', getDeviceId())
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data?.tenant_id && data?.group_id) {
+      const target = { tenantId: data.tenant_id, groupId: data.group_id };
+      setActiveTarget(target);
+      return target;
+    }
+  } catch (error) {
+    console.warn('Device assignment lookup failed, using cached display group', error);
+  }
+
+  return getActiveTarget();
+};
+
+/**
+ * Lists every tenant/group that has a config row, for the admin switcher.
+ */
+export const listDisplayTargets = async (): Promise<DisplayTarget[]> => {
+  const { data, error } = await supabase
+    .from('app_config')
+    .select('tenant_id, group_id')
+    .order('tenant_id')
+    .order('group_id');
+
+  if (error) {
+    console.error('Failed to list display groups', error);
+    return [];
+  }
+
+  return (data || []).map((row: any) => ({ tenantId: row.tenant_id, groupId: row.group_id }));
+};
@@ -0,0 +1,95 @@
+import { AppData, Theme, ThemeScheduleEntry } from '../types';
+import { isRuleActive, toDateKey } from './scheduleService';
+
+export const DEFAULT_THEME_TOKENS = {
+  uiScale: 1,
+  baseFont: 16,
+  fontFamily: 'Inter',
+  overlayOpacity: 0.5,
+  spacingScale: 1
+};
+
+// Google Fonts offered in the Visual Theme tab; anything else is treated as an installed font
+export const THEME_FONTS = ['Inter', 'Roboto', 'Poppins', 'Montserrat', 'Lato', 'Oswald', 'Merriweather', 'Playfair Display'];
+
+const FONT_LINK_ID = 'theme-font';
+
+/**
+ * Whether a scheduled theme applies at `now`. Yearly entries compare month and day only,
+ * so a Dec 20 – Jan 2 range wraps over New Year.
+ */
+export const isThemeEntryActive = (entry: ThemeScheduleEntry, now: Date) => {
+  const rule = entry.rule;
+  if (!entry.repeatYearly || !rule?.fromDate) return isRuleActive(rule, now);
+
+  const today = toDateKey(now).slice(5);
+  const from = rule.fromDate.slice(5);
+  const to = (rule.toDate || rule.fromDate).slice(5);
+  const inRange = from <= to ? today >= from && today <= to : today >= from || today <= to;
+  return inRange && isRuleActive({ ...rule, fromDate: undefined, toDate: undefined }, now);
+};
+
+/**
+ * The scheduled theme entry in effect, if any. Later entries win.
+ */
+export const getActiveThemeEntry = (data: AppData, now: Date): ThemeScheduleEntry | undefined =>
+  [...(data.themeSchedule || [])]
+    .reverse()
+    .find(entry => isThemeEntryActive(entry, now) && (data.themeLibrary || []).some(t => t.id === entry.themeId));
+
+/**
+ * The theme to show at `now`: a scheduled library theme, otherwise the current theme.
+ * A scheduled theme without a logo keeps the school's logo.
+ */
+export const getActiveTheme = (data: AppData, now: Date): Theme => {
+  const entry = getActiveThemeEntry(data, now);
+  const scheduled = entry && (data.themeLibrary || []).find(t => t.id === entry.themeId);
+  if (!scheduled) return data.theme;
+  return { ...scheduled, logoUrl: scheduled.logoUrl || data.theme.logoUrl };
+};
+
+export const resolveThemeTokens = (theme: Theme) => ({
+  uiScale: theme.uiScale ?? DEFAULT_THEME_TOKENS.uiScale,
+  baseFont: theme.baseFont ?? DEFAULT_THEME_TOKENS.baseFont,
+  fontFamily: theme.fontFamily || DEFAULT_THEME_TOKENS.fontFamily,
+  overlayOpacity: theme.overlayOpacity ?? DEFAULT_THEME_TOKENS.overlayOpacity,
+  spacingScale: theme.spacingScale ?? DEFAULT_THEME_TOKENS.spacingScale
+});
+
+/**
+ * CSS variables for a theme, as ThemeSync sets them on the document root.
+ */
+export const getThemeVariables = (theme: Theme): Record<string, string> => {
+  const tokens = resolveThemeTokens(theme);
+  return {
+    '--accent-color': theme.accentColor,
+    '--gradient-start': theme.gradientStart,
+    '--gradient-end': theme.gradientEnd,
+    '--text-primary': theme.textColor || '#ffffff',
+    '--glass-border': `${theme.accentColor}33`,
+    '--font-family': `'${tokens.fontFamily}'`,
+    '--ui-scale': String(tokens.uiScale),
+    '--base-font': `${tokens.baseFont}px`,
+    '--overlay-opacity': String(tokens.overlayOpacity),
+    '--spacing-scale': String(tokens.spacingScale)
+  };
+};
+
+/**
+ * Loads a Google Font for the theme once; the stylesheet is swapped when the font changes.
+ */
+export const loadThemeFont = (fontFamily: string) => {
+  const existing = document.getElementById(FONT_LINK_ID) as HTMLLinkElement | null;
+  // Inter ships with index.html
+  if (fontFamily === DEFAULT_THEME_TOKENS.fontFamily || !THEME_FONTS.includes(fontFamily)) {
+    existing?.remove();
+    return;
+  }
+  const href = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(fontFamily).replace(/%20/g, '+')}:wght@400;500;700;800;900&display=swap`;
+  if (existing?.href === href) return;
+  const link = existing || document.createElement('link');
+  link.id = FONT_LINK_ID;
+  link.rel = 'stylesheet';
+  link.href = href;
+  if (!existing) document.head.appendChild(link);
+};
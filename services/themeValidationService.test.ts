@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { Theme } from '../types';
+import { checkThemeContrast, contrastRatio, ensureReadableTheme, failsAA, parseColor, parseHex, suggestColor, suggestThemeColors } from './themeValidationService';
+
+const theme = (colors: Partial<Theme> = {}): Theme => ({
+  id: 't',
+  name: 'Test',
+  gradientStart: '#000000',
+  gradientEnd: '#111111',
+  accentColor: '#0284c7',
+  textColor: '#ffffff',
+  ...colors
+});
+
+describe('parseHex', () => {
+  it('reads short and long hex colors', () => {
+    expect(parseHex('#abc')).toEqual([170, 187, 204]);
+    expect(parseHex('1E3A8A')).toEqual([30, 58, 138]);
+    expect(parseHex('#12345')).toBeNull();
+  });
+});
+
+describe('parseColor', () => {
+  it('reads rgb() and hsl() in both syntaxes', () => {
+    expect(parseColor('rgb(30, 58, 138)')).toEqual([30, 58, 138]);
+    expect(parseColor('rgb(100% 0% 50% / 1)')).toEqual([255, 0, 128]);
+    expect(parseColor('hsl(0, 100%, 50%)')).toEqual([255, 0, 0]);
+    expect(parseColor('hsla(240deg 100% 25% / 100%)')).toEqual([0, 0, 128]);
+  });
+
+  it('gives up on colors it cannot measure', () => {
+    expect(parseColor('white')).toBeNull();
+    expect(parseColor('var(--brand)')).toBeNull();
+    expect(parseColor('rgba(0, 0, 0, 0.5)')).toBeNull();
+    expect(parseColor('hsl(0, 100, 50)')).toBeNull();
+  });
+});
+
+describe('contrastRatio', () => {
+  it('matches the WCAG extremes', () => {
+    expect(contrastRatio('#000000', '#ffffff')).toBeCloseTo(21);
+    expect(contrastRatio('#777777', '#777777')).toBe(1);
+    expect(contrastRatio('#767676', '#ffffff')).toBeCloseTo(4.54, 2);
+    expect(contrastRatio('rgb(0, 0, 0)', '#ffffff')).toBeCloseTo(21);
+    expect(contrastRatio('white', '#000000')).toBeNull();
+  });
+});
+
+describe('checkThemeContrast', () => {
+  it('holds text to normal and accent colors to large-text thresholds', () => {
+    const checks = checkThemeContrast(theme({ textColor: '#64748b', gradientEnd: '#1e3a8a' }));
+    expect(checks.map(c => [c.id, c.large, c.aa])).toEqual([
+      ['text-start', false, false],
+      ['text-end', false, false],
+      ['accent-start', true, true],
+      ['accent-end', true, false],
+      ['white-accent', true, true]
+    ]);
+  });
+
+  it('passes a readable theme', () => {
+    expect(failsAA(theme())).toBe(false);
+  });
+
+  it('skips pairs it cannot measure instead of reading them as black', () => {
+    const named = theme({ gradientStart: 'black', textColor: 'rgb(255, 255, 255)' });
+    expect(checkThemeContrast(named).map(c => c.ratio === null)).toEqual([true, false, true, false, false]);
+    expect(failsAA(named)).toBe(false);
+    expect(failsAA(theme({ textColor: 'var(--text)' }))).toBe(false);
+    expect(failsAA(theme({ gradientEnd: 'hsl(0, 0%, 100%)' }))).toBe(true);
+  });
+});
+
+describe('suggestColor', () => {
+  it('moves lightness just far enough to reach the target', () => {
+    const suggestion = suggestColor('#777777', ['#ffffff'], 4.5)!;
+    expect(contrastRatio(suggestion, '#ffffff')).toBeGreaterThanOrEqual(4.5);
+    expect(contrastRatio(suggestion, '#ffffff')).toBeLessThan(4.8);
+  });
+
+  it('gives up when no lightness works against every background', () => {
+    expect(suggestColor('#777777', ['#000000', '#ffffff'], 7)).toBeNull();
+  });
+});
+
+describe('suggestThemeColors', () => {
+  it('only suggests fields that fail and makes them pass', () => {
+    const dim = theme({ textColor: '#71717a' });
+    const suggestions = suggestThemeColors(dim);
+    expect(Object.keys(suggestions)).toEqual(['textColor']);
+    expect(failsAA({ ...dim, ...suggestions })).toBe(false);
+  });
+});
+
+describe('ensureReadableTheme', () => {
+  it('fills unreadable colors from the fallback and fixes failing pairs', () => {
+    const fixed = ensureReadableTheme({ name: 'AI', gradientStart: 'not a color', textColor: '#333' }, theme());
+    expect(fixed.gradientStart).toBe('#000000');
+    expect(failsAA(fixed)).toBe(false);
+  });
+});
@@ -0,0 +1,228 @@
+import { ColorVisionDeficiency, ContrastCheck, Theme } from '../types';
+
+// WCAG 2.x minimum ratios
+const AA_NORMAL = 4.5;
+const AAA_NORMAL = 7;
+const AA_LARGE = 3;
+const AAA_LARGE = 4.5;
+
+// Machado et al. (2009) simulation matrices at full severity, applied to linear RGB
+export const CVD_MATRICES: Record<ColorVisionDeficiency, number[]> = {
+  protanopia: [0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882, -0.048116, 1.051998],
+  deuteranopia: [0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.011820, 0.042940, 0.968881],
+  tritanopia: [1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733, 0.691367, 0.303900]
+};
+
+export const CVD_LABELS: Record<ColorVisionDeficiency, string> = {
+  deuteranopia: 'Deuteranopia',
+  protanopia: 'Protanopia',
+  tritanopia: 'Tritanopia'
+};
+
+/**
+ * Parses #rgb / #rrggbb into 0-255 channels, or null for anything else.
+ */
+export const parseHex = (color?: string): [number, number, number] | null => {
+  const match = (color || '').trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+const toHex = (rgb: number[]) =>
+  `#${rgb.map(c => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('')}`;
+
+const toLinear = (c: number) => {
+  const s = c / 255;
+  return s <= 0.04045 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+};
+
+const fromLinear = (c: number) => {
+  const s = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  return s * 255;
+};
+
+const toHsl = ([r, g, b]: number[]) => {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === rn ? (gn - bn) / d + (gn < bn ? 6 : 0) : max === gn ? (bn - rn) / d + 2 : (rn - gn) / d + 4;
+  return [h / 6, s, l];
+};
+
+const fromHsl = ([h, s, l]: number[]) => {
+  if (s === 0) return [l * 255, l * 255, l * 255];
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    const tt = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (tt < 1 / 6) return p + (q - p) * 6 * tt;
+    if (tt < 1 / 2) return q;
+    if (tt < 2 / 3) return p + (q - p) * (2 / 3 - tt) * 6;
+    return p;
+  };
+  return [channel(h + 1 / 3), channel(h), channel(h - 1 / 3)].map(c => c * 255);
+};
+
+const parseChannel = (part: string, percentScale: number) => {
+  const value = parseFloat(part);
+  if (!/^-?[\d.]+%?$/.test(part) || isNaN(value)) return null;
+  return part.endsWith('%') ? value * percentScale / 100 : value;
+};
+
+/**
+ * Parses hex, rgb() and hsl() colors into 0-255 channels. Null for colors that can't be measured
+ * here: named colors, var(--…), and translucent colors, whose contrast depends on what is behind them.
+ */
+export const parseColor = (color?: string): [number, number, number] | null => {
+  const hex = parseHex(color);
+  if (hex) return hex;
+  const match = (color || '').trim().toLowerCase().match(/^(rgb|hsl)a?\(([^)]*)\)$/);
+  if (!match) return null;
+  const parts = match[2].trim().split(/\s*[,\/]\s*|\s+/);
+  if (parts.length !== 3 && parts.length !== 4) return null;
+  const alpha = parts.length === 4 ? parseChannel(parts[3], 1) : 1;
+  if (alpha === null || alpha < 1) return null;
+
+  if (match[1] === 'rgb') {
+    const rgb = parts.slice(0, 3).map(part => parseChannel(part, 255));
+    if (rgb.some(c => c === null)) return null;
+    return rgb.map(c => Math.round(Math.min(255, Math.max(0, c!)))) as [number, number, number];
+  }
+  const hue = parseChannel(parts[0].replace(/deg$/, ''), 360);
+  const [s, l] = parts.slice(1, 3).map(part => part.endsWith('%') ? parseChannel(part, 1) : null);
+  if (hue === null || s === null || l === null) return null;
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  return fromHsl([(((hue % 360) + 360) % 360) / 360, clamp(s), clamp(l)]).map(Math.round) as [number, number, number];
+};
+
+export const relativeLuminance = (color: string): number | null => {
+  const rgb = parseColor(color);
+  if (!rgb) return null;
+  const [r, g, b] = rgb.map(toLinear);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+/**
+ * WCAG contrast ratio, or null when either color can't be measured (see parseColor).
+ */
+export const contrastRatio = (a: string, b: string): number | null => {
+  const [la, lb] = [relativeLuminance(a), relativeLuminance(b)];
+  if (la === null || lb === null) return null;
+  const [hi, lo] = [la, lb].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+};
+
+/**
+ * How a color appears with the given color vision deficiency. Colors parseColor can't read are returned unchanged.
+ */
+export const simulateColor = (color: string, deficiency: ColorVisionDeficiency) => {
+  const rgb = parseColor(color);
+  if (!rgb) return color;
+  const linear = rgb.map(toLinear);
+  const m = CVD_MATRICES[deficiency];
+  return toHex([0, 1, 2].map(row => fromLinear(Math.min(1, Math.max(0,
+    m[row * 3] * linear[0] + m[row * 3 + 1] * linear[1] + m[row * 3 + 2] * linear[2]
+  )))));
+};
+
+/**
+ * The nearest color (same hue and saturation, lightness moved as little as possible) that reaches
+ * `target` against every color in `against`. Null when no lightness works.
+ */
+export const suggestColor = (color: string, against: string[], target: number): string | null => {
+  const rgb = parseColor(color);
+  if (!rgb) return null;
+  const [h, s, l] = toHsl(rgb);
+  const passes = (hex: string) => against.every(bg => (contrastRatio(hex, bg) ?? 0) >= target);
+  if (passes(toHex(rgb))) return toHex(rgb);
+
+  for (let step = 0.01; step <= 1; step += 0.01) {
+    const candidates = [l - step, l + step].filter(v => v >= 0 && v <= 1).map(v => toHex(fromHsl([h, s, v])));
+    const match = candidates.find(passes);
+    if (match) return match;
+  }
+  return null;
+};
+
+interface PairSpec {
+  id: string;
+  label: string;
+  field: 'textColor' | 'accentColor';
+  background: 'gradientStart' | 'gradientEnd' | 'white';
+  large: boolean;
+}
+
+// Where the kiosk puts each color on top of another
+const PAIRS: PairSpec[] = [
+  { id: 'text-start', label: 'Text on gradient start', field: 'textColor', background: 'gradientStart', large: false },
+  { id: 'text-end', label: 'Text on gradient end', field: 'textColor', background: 'gradientEnd', large: false },
+  { id: 'accent-start', label: 'Accent on gradient start', field: 'accentColor', background: 'gradientStart', large: true },
+  { id: 'accent-end', label: 'Accent on gradient end', field: 'accentColor', background: 'gradientEnd', large: true },
+  { id: 'white-accent', label: 'White labels on accent', field: 'accentColor', background: 'white', large: true }
+];
+
+const backgroundOf = (theme: Theme, pair: PairSpec) => pair.background === 'white' ? '#ffffff' : theme[pair.background];
+
+/**
+ * Contrast of every color pairing the kiosk uses. Accent pairings are held to the large-text
+ * thresholds since the accent colors headings, big numbers, icons and bold button labels.
+ * Pairs with a color that can't be measured get a null ratio and are neither passed nor failed.
+ */
+export const checkThemeContrast = (theme: Theme, deficiency?: ColorVisionDeficiency): ContrastCheck[] =>
+  PAIRS.map(pair => {
+    const view = (color: string) => deficiency ? simulateColor(color, deficiency) : color;
+    const foreground = theme[pair.field];
+    const background = backgroundOf(theme, pair);
+    const ratio = contrastRatio(view(foreground), view(background));
+    return {
+      id: pair.id,
+      label: pair.label,
+      field: pair.field,
+      foreground,
+      background,
+      ratio,
+      large: pair.large,
+      aa: ratio !== null && ratio >= (pair.large ? AA_LARGE : AA_NORMAL),
+      aaa: ratio !== null && ratio >= (pair.large ? AAA_LARGE : AAA_NORMAL)
+    };
+  });
+
+/**
+ * Adjusted text and accent colors that pass every check at the given level. Fields already passing are left out.
+ */
+export const suggestThemeColors = (theme: Theme, level: 'AA' | 'AAA' = 'AA'): Partial<Pick<Theme, 'textColor' | 'accentColor'>> => {
+  const checks = checkThemeContrast(theme);
+  const suggestions: Partial<Pick<Theme, 'textColor' | 'accentColor'>> = {};
+
+  (['textColor', 'accentColor'] as const).forEach(field => {
+    const pairs = PAIRS.filter(p => p.field === field && parseColor(backgroundOf(theme, p)));
+    if (checks.filter(c => c.field === field && c.ratio !== null).every(c => level === 'AA' ? c.aa : c.aaa)) return;
+    const large = pairs[0].large;
+    const target = level === 'AA' ? (large ? AA_LARGE : AA_NORMAL) : (large ? AAA_LARGE : AAA_NORMAL);
+    const suggestion = suggestColor(theme[field], pairs.map(p => backgroundOf(theme, p)), target);
+    if (suggestion) suggestions[field] = suggestion;
+  });
+  return suggestions;
+};
+
+export const failsAA = (theme: Theme) => checkThemeContrast(theme).some(c => c.ratio !== null && !c.aa);
+
+const COLOR_FIELDS = ['gradientStart', 'gradientEnd', 'accentColor', 'textColor'] as const;
+
+/**
+ * Makes a theme safe to show: missing or unparseable colors come from `fallback`, and text and
+ * accent colors are adjusted until every pairing passes AA.
+ */
+export const ensureReadableTheme = (theme: Partial<Theme>, fallback: Theme): Theme => {
+  const merged = { ...fallback, ...theme } as Theme;
+  COLOR_FIELDS.forEach(field => {
+    const rgb = parseColor(theme[field]);
+    merged[field] = rgb ? toHex(rgb) : fallback[field];
+  });
+  return { ...merged, ...suggestThemeColors(merged) };
+};
@@ -0,0 +1,126 @@
+import _ from 'lodash';
+import { CustomWidgetDefinition, TickerIcon, TickerItem, TickerPriority, TickerSource, TickerSourceKind } from '../types';
+import { safeFetch } from './cacheService';
+import { toDateKey } from './scheduleService';
+
+const ESPN_SCOREBOARD_URL = 'https://site.api.espn.com/apis/site/v2/sports';
+export const DEFAULT_TICKER_SPEED = 80;
+export const TICKER_SOURCE_REFRESH_MS = 300000;
+// Urgent items take over the bar for this long, then again after each repeat interval while they stay live
+export const URGENT_HOLD_MS = 15000;
+export const URGENT_REPEAT_MS = 120000;
+
+export const TICKER_PRIORITY_LABELS: Record<TickerPriority, string> = {
+  normal: 'Normal',
+  high: 'High',
+  urgent: 'Urgent'
+};
+
+export const TICKER_SOURCE_LABELS: Record<TickerSourceKind, string> = {
+  custom_widget: 'Data Source',
+  sports_scores: 'Sports Scores',
+  lunch_menu: 'Lunch Menu'
+};
+
+export const TICKER_ICONS: TickerIcon[] = ['alert', 'info', 'megaphone', 'trophy', 'utensils', 'calendar', 'star'];
+
+const PRIORITY_RANK: Record<TickerPriority, number> = { urgent: 0, high: 1, normal: 2 };
+
+export const createTickerItem = (text: string): TickerItem => ({
+  id: `ticker-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+  text,
+  priority: 'normal'
+});
+
+/**
+ * Upgrades plain-string ticker entries from older configs. The first one keeps the alert icon it always had.
+ */
+export const normalizeTickerItems = (items: (TickerItem | string)[] = []): TickerItem[] =>
+  items.map((item, idx) => typeof item === 'string'
+    ? { id: `ticker-${idx}`, text: item, priority: 'normal', icon: idx === 0 ? 'alert' : undefined }
+    : item);
+
+export const isTickerItemLive = (item: TickerItem, now: Date) =>
+  (!item.startAt || new Date(item.startAt).getTime() <= now.getTime()) &&
+  (!item.endAt || new Date(item.endAt).getTime() > now.getTime());
+
+/**
+ * Items to show right now, highest priority first and otherwise in the admin's order.
+ * Items whose data source came back empty are dropped rather than shown as a bare label.
+ */
+export const selectTickerItems = (items: TickerItem[], values: Record<string, string | null>, now: Date): TickerItem[] =>
+  _.sortBy(
+    items.filter(item => isTickerItemLive(item, now) && (!item.source || !!values[item.id])),
+    item => PRIORITY_RANK[item.priority] ?? PRIORITY_RANK.normal
+  );
+
+export const getTickerText = (item: TickerItem, values: Record<string, string | null>) => {
+  const value = item.source ? values[item.id] : null;
+  if (!value) return item.text;
+  return item.text.trim() ? `${item.text.trim()} ${value}` : value;
+};
+
+const fetchCustomValue = async (source: TickerSource, customWidgets: CustomWidgetDefinition[]) => {
+  const def = customWidgets.find(w => w.id === source.customWidgetId);
+  if (!def) return null;
+  const res: any = await safeFetch(`ticker_custom_${def.id}`, def.endpoint, def.refreshSeconds || 60);
+  const value = res ? _.get(res, def.jsonPath) : undefined;
+  return value === undefined || value === null ? null : `${def.prefix || ''}${value}${def.suffix || ''}`;
+};
+
+const fetchSportsScores = async (source: TickerSource) => {
+  if (!source.league) return null;
+  const res: any = await safeFetch(`ticker_scores_${source.league}`, `${ESPN_SCOREBOARD_URL}/${source.league}/scoreboard`, 120);
+  const team = source.team?.trim().toLowerCase();
+
+  const games = (res?.events || [])
+    .map((event: any) => {
+      const competitors: any[] = event.competitions?.[0]?.competitors || [];
+      const away = competitors.find(c => c.homeAway === 'away');
+      const home = competitors.find(c => c.homeAway === 'home');
+      if (!away || !home) return null;
+      const names = [away, home].flatMap(c => [c.team?.abbreviation, c.team?.displayName, c.team?.shortDisplayName]);
+      if (team && !names.some(name => name?.toLowerCase().includes(team))) return null;
+      const status = event.status?.type;
+      const score = status?.state === 'pre'
+        ? `${away.team?.abbreviation} @ ${home.team?.abbreviation}`
+        : `${away.team?.abbreviation} ${away.score} – ${home.team?.abbreviation} ${home.score}`;
+      return status?.shortDetail ? `${score} (${status.shortDetail})` : score;
+    })
+    .filter(Boolean);
+
+  return games.length ? games.join('  ·  ') : null;
+};
+
+const fetchLunchMenu = async (source: TickerSource, now: Date) => {
+  if (!source.menuUrl) return null;
+  const [y, m, d] = toDateKey(now).split('-');
+  const res: any = await safeFetch(`ticker_lunch_${source.menuUrl}_${y}${m}${d}`, `${source.menuUrl.replace(/\/+$/, '')}/${y}/${m}/${d}/`, 3600);
+  const today = (res?.days || []).find((day: any) => day.date === `${y}-${m}-${d}`);
+  const dishes = (today?.menu_items || [])
+    .filter((item: any) => !item.is_section_title && item.food?.name)
+    .map((item: any) => item.food.name);
+  return dishes.length ? dishes.join(', ') : null;
+};
+
+/**
+ * Current values for every data-driven item, keyed by item id. A source that can't be read resolves to null.
+ */
+export const resolveTickerSources = async (items: TickerItem[], customWidgets: CustomWidgetDefinition[] = []): Promise<Record<string, string | null>> => {
+  const now = new Date();
+  const entries = await Promise.all(items.filter(item => item.source).map(async item => {
+    const source = item.source!;
+    try {
+      switch (source.kind) {
+        case 'custom_widget': return [item.id, await fetchCustomValue(source, customWidgets)] as const;
+        case 'sports_scores': return [item.id, await fetchSportsScores(source)] as const;
+        case 'lunch_menu': return [item.id, await fetchLunchMenu(source, now)] as const;
+        default: return [item.id, null] as const;
+      }
+    } catch (error) {
+      console.error(`Ticker source failed for ${item.id}`, error);
+      return [item.id, null] as const;
+    }
+  }));
+  return Object.fromEntries(entries);
+};
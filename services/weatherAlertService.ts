@@ -0,0 +1,98 @@
+import { AlertSeverity, WeatherAlert, WeatherAlertConfig, EmergencyAlert } from '../types';
+
+// National Weather Service active alerts; only covers US locations
+const NWS_ALERTS_URL = 'https://api.weather.gov/alerts/active';
+const ATOM_NS = 'http://www.w3.org/2005/Atom';
+const CAP_NS = 'urn:oasis:names:tc:emergency:cap:1.2';
+export const WEATHER_ALERT_REFRESH_MS = 120000;
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['Unknown', 'Minor', 'Moderate', 'Severe', 'Extreme'];
+
+export const DEFAULT_WEATHER_ALERT_CONFIG: WeatherAlertConfig = {
+  enabled: true,
+  bannerSeverity: 'Moderate',
+  takeoverSeverity: 'Extreme',
+  requireConfirmation: true,
+  includeSiren: false,
+  messages: [],
+  dismissedAlertIds: []
+};
+
+const severityRank = (severity: AlertSeverity) => Math.max(0, ALERT_SEVERITIES.indexOf(severity));
+
+export const meetsSeverity = (alert: WeatherAlert, threshold: AlertSeverity | 'never') =>
+  threshold !== 'never' && severityRank(alert.severity) >= severityRank(threshold);
+
+const readCap = (entry: Element, name: string) =>
+  entry.getElementsByTagNameNS(CAP_NS, name)[0]?.textContent?.trim() || '';
+
+const readAtom = (entry: Element, name: string) =>
+  entry.getElementsByTagNameNS(ATOM_NS, name)[0]?.textContent?.trim() || '';
+
+/**
+ * Parses an NWS CAP ATOM feed into alerts, highest severity first.
+ */
+export const parseCapFeed = (xml: string): WeatherAlert[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Malformed CAP feed');
+
+  return Array.from(doc.getElementsByTagNameNS(ATOM_NS, 'entry'))
+    .map((entry): WeatherAlert => {
+      const severity = readCap(entry, 'severity') as AlertSeverity;
+      return {
+        id: readAtom(entry, 'id'),
+        event: readCap(entry, 'event'),
+        headline: readAtom(entry, 'title'),
+        summary: readAtom(entry, 'summary'),
+        severity: ALERT_SEVERITIES.includes(severity) ? severity : 'Unknown',
+        urgency: readCap(entry, 'urgency'),
+        areaDesc: readCap(entry, 'areaDesc'),
+        effective: readCap(entry, 'effective') || undefined,
+        expires: readCap(entry, 'expires') || undefined
+      };
+    })
+    .filter(alert => alert.id && alert.event)
+    .sort((a, b) => severityRank(b.severity) - severityRank(a.severity));
+};
+
+/**
+ * Active, unexpired alerts for a point. Returns null when the feed couldn't be reached,
+ * so callers can keep showing what they last had.
+ */
+export const fetchWeatherAlerts = async (lat: number, lon: number): Promise<WeatherAlert[] | null> => {
+  try {
+    const res = await fetch(`${NWS_ALERTS_URL}?point=${lat.toFixed(4)},${lon.toFixed(4)}`, {
+      headers: { Accept: 'application/atom+xml' }
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const now = Date.now();
+    return parseCapFeed(await res.text()).filter(alert => !alert.expires || new Date(alert.expires).getTime() > now);
+  } catch (error) {
+    console.error('Weather alert fetch failed', error);
+    return null;
+  }
+};
+
+/**
+ * The admin-mapped message for an alert type, falling back to the NWS headline.
+ */
+export const getAlertMessage = (alert: WeatherAlert, config: WeatherAlertConfig) => {
+  const mapped = config.messages.find(m => m.event.trim().toLowerCase() === alert.event.toLowerCase());
+  return mapped?.message.trim() || alert.headline || alert.event;
+};
+
+/**
+ * Alerts that should escalate to the emergency takeover under the current config.
+ */
+export const getEscalatingAlerts = (alerts: WeatherAlert[], config: WeatherAlertConfig) =>
+  alerts.filter(alert => meetsSeverity(alert, config.takeoverSeverity) && !config.dismissedAlertIds.includes(alert.id));
+
+/**
+ * Builds the takeover a kiosk raises on its own when escalation doesn't require confirmation.
+ */
+export const toEmergencyAlert = (alert: WeatherAlert, config: WeatherAlertConfig): EmergencyAlert => ({
+  active: true,
+  message: getAlertMessage(alert, config),
+  timestamp: alert.effective ? new Date(alert.effective).getTime() : Date.now(),
+  includeSiren: config.includeSiren
+});
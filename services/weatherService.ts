@@ -0,0 +1,156 @@
+import { WeatherConfig, WeatherData, ForecastSlot, GeocodeResult, WindUnit, TemperatureUnit } from '../types';
+import { safeFetch } from './cacheService';
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+// Kept just under the refresh interval so each refresh hits the network, while reloads reuse the cached copy
+const WEATHER_TTL_SECONDS = 540;
+const WEATHER_REFRESH_MS = 600000;
+const FORECAST_SLOTS = 3;
+
+export const TEMPERATURE_UNIT_LABELS: Record<TemperatureUnit, string> = {
+  fahrenheit: '°F',
+  celsius: '°C'
+};
+
+export const WIND_UNIT_LABELS: Record<WindUnit, string> = {
+  mph: 'mph',
+  kmh: 'km/h',
+  ms: 'm/s',
+  kn: 'kn'
+};
+
+type WeatherListener = (data: WeatherData) => void;
+
+interface WeatherFeed {
+  listeners: Set<WeatherListener>;
+  latest: WeatherData | null;
+  timer: ReturnType<typeof setInterval> | null;
+}
+
+// One feed per location + unit combination, shared by the kiosk home view and every weather widget
+const feeds = new Map<string, WeatherFeed>();
+
+const getFeedKey = (config: WeatherConfig) =>
+  [config.lat.toFixed(3), config.lon.toFixed(3), config.temperatureUnit || 'fahrenheit', config.windUnit || 'mph'].join('|');
+
+const buildForecastUrl = (config: WeatherConfig) =>
+  `${FORECAST_URL}?latitude=${config.lat}&longitude=${config.lon}` +
+  `&daily=temperature_2m_max,temperature_2m_min,weathercode&hourly=temperature_2m,weathercode&current_weather=true` +
+  `&temperature_unit=${config.temperatureUnit || 'fahrenheit'}&wind_speed_unit=${config.windUnit || 'mph'}` +
+  `&forecast_days=4&timezone=auto`;
+
+const parseForecast = (json: any): WeatherData | null => {
+  if (!json?.current_weather || !json.daily) return null;
+  return {
+    current: {
+      temp: Math.round(json.current_weather.temperature),
+      code: json.current_weather.weathercode,
+      windSpeed: Math.round(json.current_weather.windspeed)
+    },
+    daily: (json.daily.time || []).map((date: string, i: number) => ({
+      date,
+      max: Math.round(json.daily.temperature_2m_max[i]),
+      min: Math.round(json.daily.temperature_2m_min[i]),
+      code: json.daily.weathercode[i]
+    })),
+    hourly: (json.hourly?.time || []).map((time: string, i: number) => ({
+      time,
+      temp: Math.round(json.hourly.temperature_2m[i]),
+      code: json.hourly.weathercode[i]
+    }))
+  };
+};
+
+const refreshFeed = async (key: string, config: WeatherConfig) => {
+  const json = await safeFetch<any>(`weather_${key}`, buildForecastUrl(config), WEATHER_TTL_SECONDS);
+  const data = parseForecast(json);
+  const feed = feeds.get(key);
+  if (!data || !feed) return;
+  feed.latest = data;
+  feed.listeners.forEach(listener => listener(data));
+};
+
+/**
+ * Subscribes to shared weather for a location. Subscribers with the same location
+ * and units share one request and one refresh timer. Returns the unsubscribe function.
+ */
+export const subscribeWeather = (config: WeatherConfig, onData: WeatherListener): (() => void) => {
+  const key = getFeedKey(config);
+  let feed = feeds.get(key);
+
+  if (!feed) {
+    feed = { listeners: new Set(), latest: null, timer: null };
+    feeds.set(key, feed);
+    refreshFeed(key, config);
+    feed.timer = setInterval(() => refreshFeed(key, config), WEATHER_REFRESH_MS);
+  } else if (feed.latest) {
+    onData(feed.latest);
+  }
+
+  feed.listeners.add(onData);
+
+  return () => {
+    const current = feeds.get(key);
+    if (!current) return;
+    current.listeners.delete(onData);
+    if (current.listeners.size === 0) {
+      if (current.timer) clearInterval(current.timer);
+      feeds.delete(key);
+    }
+  };
+};
+
+// A half-typed locale from the admin form would make toLocale*String throw
+const resolveLocale = (locale?: string) => {
+  try {
+    return locale && Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0 ? locale : 'en-US';
+  } catch (e) {
+    return 'en-US';
+  }
+};
+
+/**
+ * The next few forecast slots in the configured mode: upcoming days, or upcoming hours from now.
+ */
+export const getForecastSlots = (weather: WeatherData, config: WeatherConfig, count = FORECAST_SLOTS): ForecastSlot[] => {
+  const locale = resolveLocale(config.locale);
+
+  if (config.forecastMode === 'hourly') {
+    const now = Date.now();
+    return weather.hourly
+      .filter(hour => new Date(hour.time).getTime() > now)
+      .slice(0, count)
+      .map(hour => ({
+        label: new Date(hour.time).toLocaleTimeString(locale, { hour: 'numeric' }),
+        temp: hour.temp,
+        code: hour.code
+      }));
+  }
+
+  return weather.daily.slice(0, count).map(day => ({
+    // Daily dates are plain YYYY-MM-DD; parse as local midnight so the weekday doesn't shift
+    label: new Date(`${day.date}T00:00:00`).toLocaleDateString(locale, { weekday: 'short' }),
+    temp: day.max,
+    low: day.min,
+    code: day.code
+  }));
+};
+
+export const searchCities = async (query: string): Promise<GeocodeResult[]> => {
+  if (query.trim().length < 2) return [];
+  try {
+    const res = await fetch(`${GEOCODING_URL}?name=${encodeURIComponent(query.trim())}&count=6&language=en&format=json`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const json = await res.json();
+    return (json.results || []).map((r: any) => ({
+      name: r.name,
+      region: [r.admin1, r.country].filter(Boolean).join(', '),
+      lat: r.latitude,
+      lon: r.longitude
+    }));
+  } catch (error) {
+    console.error('City search failed', error);
+    return [];
+  }
+};
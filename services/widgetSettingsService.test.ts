@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Page, WidgetSettings, WidgetType } from '../types';
+import { canReplaceCountdown, getInvalidWidgets, getVisibleFields, validateWidgetSettings } from './widgetSettingsService';
+
+describe('validateWidgetSettings', () => {
+  it('requires the fields a widget cannot render without', () => {
+    expect(validateWidgetSettings('countdown', undefined)).toEqual({
+      label: 'Label is required',
+      target: 'Counts down to is required'
+    });
+    expect(validateWidgetSettings('clock', undefined)).toEqual({});
+  });
+
+  it('only validates fields that are shown', () => {
+    const countdown = { label: 'Summer break', target: '2027-06-20T15:00' };
+    expect(getVisibleFields('countdown', countdown).map(f => f.key)).toEqual(['label', 'target', 'onComplete', 'completionMessage']);
+    expect(validateWidgetSettings('countdown', countdown)).toEqual({});
+    expect(validateWidgetSettings('countdown', { ...countdown, onComplete: 'widget' })).toEqual({ replacementType: 'Replace with is required' });
+  });
+
+  it('checks numbers, URLs, dates and options', () => {
+    // As a hand-edited or older config might hold them
+    const corrupt = { label: 'x', target: 'someday', onComplete: 'explode' } as unknown as WidgetSettings;
+    expect(validateWidgetSettings('countdown', corrupt)).toEqual({
+      target: 'Not a valid date',
+      onComplete: 'Choose one of the options'
+    });
+    expect(validateWidgetSettings('livecam', { urls: ['https://cam.example.org/1.jpg', 'cam2'], refreshSeconds: 0 })).toEqual({
+      urls: 'Not a valid URL: cam2',
+      refreshSeconds: 'Must be at least 1'
+    });
+    expect(validateWidgetSettings('custom_api', { endpoint: 'ftp://example.org/stats', jsonPath: 'total' })).toEqual({
+      endpoint: 'Must be an http(s) URL'
+    });
+  });
+
+  it('requires latitude and longitude together', () => {
+    expect(validateWidgetSettings('weather', { lat: 40.7 })).toEqual({ lon: 'Set both latitude and longitude, or neither' });
+    expect(validateWidgetSettings('weather', { lat: 40.7, lon: -74 })).toEqual({});
+    expect(validateWidgetSettings('weather', {})).toEqual({});
+  });
+});
+
+describe('canReplaceCountdown', () => {
+  it('allows only types that render without settings of their own', () => {
+    expect((['clock', 'weather', 'events', 'livecam'] as WidgetType[]).every(canReplaceCountdown)).toBe(true);
+    expect((['countdown', 'text', 'image', 'video', 'custom_api'] as WidgetType[]).some(canReplaceCountdown)).toBe(false);
+    expect(validateWidgetSettings('countdown', { label: 'x', target: '2027-06-20T15:00', onComplete: 'widget', replacementType: 'image' })).toEqual({
+      replacementType: 'Choose a widget that works without settings'
+    });
+  });
+});
+
+describe('getInvalidWidgets', () => {
+  it('only reports widgets placed on the grid', () => {
+    const page = {
+      id: 'p',
+      title: 'Page',
+      type: 'grid',
+      layout: [{ i: 'text', x: 0, y: 0, w: 2, h: 2 }, { i: 'image', x: 2, y: 0, w: 2, h: 2 }],
+      widgets: {
+        text: { id: 'text', type: 'text', refreshSeconds: 60, settings: { text: 'Welcome' } },
+        image: { id: 'image', type: 'image', refreshSeconds: 60, settings: {} },
+        unplaced: { id: 'unplaced', type: 'video', refreshSeconds: 60, settings: {} }
+      }
+    } as Page;
+    expect(getInvalidWidgets(page).map(w => w.id)).toEqual(['image']);
+  });
+});
@@ -0,0 +1,157 @@
+import { Page, WidgetConfig, WidgetSettingErrors, WidgetSettingField, WidgetSettings, WidgetSettingsByType, WidgetSettingsOf, WidgetSettingsSchema, WidgetType, CountdownCompletion } from '../types';
+import { TEMPERATURE_UNIT_LABELS, WIND_UNIT_LABELS } from './weatherService';
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const toOptions = (labels: Record<string, string>) =>
+  Object.entries(labels).map(([value, label]) => ({ value, label }));
+
+const COMPLETION_LABELS: Record<CountdownCompletion, string> = {
+  message: 'Show completion message',
+  hide: 'Hide the widget',
+  widget: 'Switch to another widget'
+};
+
+type SchemasByType = { [W in keyof WidgetSettingsByType]?: WidgetSettingsSchema<WidgetSettingsOf<W>> };
+
+/**
+ * The settings each widget type exposes in the designer. Types without an entry have no settings.
+ */
+export const WIDGET_SETTINGS_SCHEMAS: SchemasByType = {
+  countdown: {
+    fields: [
+      { key: 'label', label: 'Label', kind: 'text', required: true },
+      { key: 'target', label: 'Counts down to', kind: 'datetime', required: true },
+      { key: 'onComplete', label: "When it's over", kind: 'select', options: toOptions(COMPLETION_LABELS), defaultValue: 'message' },
+      { key: 'completionMessage', label: 'Completion message', kind: 'textarea', showIf: s => (s.onComplete || 'message') === 'message' },
+      { key: 'replacementType', label: 'Replace with', kind: 'widget_type', required: true, showIf: s => s.onComplete === 'widget', help: 'Only widgets that need no settings of their own' }
+    ],
+    validate: s =>
+      s.onComplete === 'widget' && s.replacementType && !canReplaceCountdown(s.replacementType)
+        ? { replacementType: 'Choose a widget that works without settings' }
+        : {}
+  },
+  text: {
+    fields: [
+      { key: 'text', label: 'Text', kind: 'textarea', required: true }
+    ]
+  },
+  image: {
+    fields: [
+      { key: 'url', label: 'Image', kind: 'image', required: true }
+    ]
+  },
+  video: {
+    fields: [
+      { key: 'url', label: 'Video', kind: 'video', required: true },
+      { key: 'muted', label: 'Muted', kind: 'toggle', defaultValue: true },
+      { key: 'loop', label: 'Loop', kind: 'toggle', defaultValue: true },
+      { key: 'holdRotation', label: 'Hold page until finished', kind: 'toggle', defaultValue: false }
+    ]
+  },
+  weather: {
+    fields: [
+      { key: 'city', label: 'Display name', kind: 'text', placeholder: 'Uses the Weather tab location', help: 'Leave fields blank to use the Weather tab settings' },
+      { key: 'lat', label: 'Latitude', kind: 'number', min: -90, max: 90 },
+      { key: 'lon', label: 'Longitude', kind: 'number', min: -180, max: 180 },
+      { key: 'temperatureUnit', label: 'Temperature', kind: 'select', options: toOptions(TEMPERATURE_UNIT_LABELS) },
+      { key: 'windUnit', label: 'Wind speed', kind: 'select', options: toOptions(WIND_UNIT_LABELS) },
+      { key: 'forecastMode', label: 'Forecast', kind: 'select', options: [{ value: 'daily', label: 'Daily' }, { value: 'hourly', label: 'Hourly' }] }
+    ],
+    validate: s => {
+      // One coordinate on its own would pair with the other from the global config and point somewhere random
+      const hasLat = !isBlank(s.lat);
+      const hasLon = !isBlank(s.lon);
+      if (hasLat === hasLon) return {};
+      return { [hasLat ? 'lon' : 'lat']: 'Set both latitude and longitude, or neither' };
+    }
+  },
+  livecam: {
+    fields: [
+      { key: 'urls', label: 'Camera feeds', kind: 'url_list', help: 'One per line. Leave blank to use the Live Cam tab feeds' },
+      { key: 'refreshSeconds', label: 'Snapshot refresh (seconds)', kind: 'number', min: 1, max: 3600 }
+    ]
+  },
+  custom_api: {
+    fields: [
+      { key: 'name', label: 'Name', kind: 'text' },
+      { key: 'endpoint', label: 'Endpoint', kind: 'url', required: true, placeholder: 'https://api.example.org/stats' },
+      { key: 'jsonPath', label: 'JSON path', kind: 'text', required: true, placeholder: 'data.total' },
+      { key: 'prefix', label: 'Prefix', kind: 'text' },
+      { key: 'suffix', label: 'Suffix', kind: 'text' }
+    ]
+  }
+};
+
+// The schema of any type, read as plain key/value settings so forms and validation handle every type alike
+const getSchema = (type: WidgetType) =>
+  (WIDGET_SETTINGS_SCHEMAS as Partial<Record<WidgetType, WidgetSettingsSchema>>)[type];
+
+export const getVisibleFields = (type: WidgetType, settings: WidgetSettings | undefined): WidgetSettingField[] =>
+  (getSchema(type)?.fields || []).filter(field => !field.showIf || field.showIf(settings || {}));
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch (e) {
+    return false;
+  }
+};
+
+const validateField = (field: WidgetSettingField, value: unknown): string | undefined => {
+  if (isBlank(value)) return field.required ? `${field.label} is required` : undefined;
+
+  switch (field.kind) {
+    case 'number': {
+      const n = Number(value);
+      if (Number.isNaN(n)) return 'Must be a number';
+      if (field.min !== undefined && n < field.min) return `Must be at least ${field.min}`;
+      if (field.max !== undefined && n > field.max) return `Must be at most ${field.max}`;
+      return undefined;
+    }
+    case 'url':
+      return isHttpUrl(String(value)) ? undefined : 'Must be an http(s) URL';
+    case 'url_list': {
+      const bad = (Array.isArray(value) ? value : [value]).map(String).find(url => !isHttpUrl(url));
+      return bad ? `Not a valid URL: ${bad}` : undefined;
+    }
+    case 'datetime':
+      return Number.isNaN(new Date(String(value)).getTime()) ? 'Not a valid date' : undefined;
+    case 'select':
+      return field.options?.some(o => o.value === value) ? undefined : 'Choose one of the options';
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Problems with a widget's settings, keyed by field. Empty when the widget is ready to publish.
+ */
+export const validateWidgetSettings = (type: WidgetType, settings: WidgetSettings | undefined): WidgetSettingErrors => {
+  const schema = getSchema(type);
+  if (!schema) return {};
+  const values: Record<string, unknown> = settings || {};
+  const errors: WidgetSettingErrors = {};
+
+  getVisibleFields(type, values).forEach(field => {
+    const error = validateField(field, values[field.key]);
+    if (error) errors[field.key] = error;
+  });
+  return { ...(schema.validate?.(values) || {}), ...errors };
+};
+
+/**
+ * Whether a widget type can stand in for a finished countdown. The replacement is rendered with
+ * empty settings, so only types that work from the app config alone qualify.
+ */
+export const canReplaceCountdown = (type: WidgetType) =>
+  type !== 'countdown' && Object.keys(validateWidgetSettings(type, {})).length === 0;
+
+/**
+ * Widgets placed on a grid page whose settings don't validate.
+ */
+export const getInvalidWidgets = (page: Page): WidgetConfig[] =>
+  (page.layout || [])
+    .map(item => page.widgets?.[item.i])
+    .filter((widget): widget is WidgetConfig => !!widget && Object.keys(validateWidgetSettings(widget.type, widget.settings)).length > 0);
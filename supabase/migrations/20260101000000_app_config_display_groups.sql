@@ -0,0 +1,35 @@
+-- Display groups: app_config goes from a single row (id = 1) to one row per (tenant_id, group_id).
+-- The existing row becomes the default/default group, so current installs keep their config.
+
+alter table public.app_config
+  add column if not exists tenant_id text,
+  add column if not exists group_id text;
+
+update public.app_config
+  set tenant_id = 'default', group_id = 'default'
+  where tenant_id is null or group_id is null;
+
+alter table public.app_config
+  alter column tenant_id set default 'default',
+  alter column tenant_id set not null,
+  alter column group_id set default 'default',
+  alter column group_id set not null;
+
+-- New groups are inserted without an id, so it needs a default if it was a plain integer key
+do $$
+begin
+  if (select column_default is null and is_identity = 'NO'
+      from information_schema.columns
+      where table_schema = 'public' and table_name = 'app_config' and column_name = 'id') then
+    create sequence if not exists public.app_config_id_seq owned by public.app_config.id;
+    perform setval('public.app_config_id_seq', coalesce((select max(id) from public.app_config), 0) + 1, false);
+    alter table public.app_config alter column id set default nextval('public.app_config_id_seq');
+  end if;
+end $$;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'app_config_tenant_group_key') then
+    alter table public.app_config add constraint app_config_tenant_group_key unique (tenant_id, group_id);
+  end if;
+end $$;
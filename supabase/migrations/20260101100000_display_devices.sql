@@ -0,0 +1,41 @@
+-- Kiosk registry: one row per screen, created on first start and refreshed by heartbeats.
+-- Screens run signed out, so they read and write their row with the anon key. group_id is
+-- the admin's assignment (set from the Supabase dashboard) and is only written on insert;
+-- screens may update their profile and heartbeat columns, nothing else.
+
+create table if not exists public.display_devices (
+  device_id text primary key,
+  tenant_id text not null default 'default',
+  group_id text not null default 'default',
+  name text,
+  location text,
+  app_version text,
+  screen_width integer,
+  screen_height integer,
+  last_seen_at timestamptz,
+  view_index integer,
+  config_hash text,
+  recent_errors jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists display_devices_target_idx on public.display_devices (tenant_id, group_id);
+
+alter table public.display_devices enable row level security;
+
+drop policy if exists "Screens and admins read devices" on public.display_devices;
+create policy "Screens and admins read devices" on public.display_devices
+  for select to anon, authenticated using (true);
+
+drop policy if exists "Screens register themselves" on public.display_devices;
+create policy "Screens register themselves" on public.display_devices
+  for insert to anon, authenticated with check (true);
+
+drop policy if exists "Screens send heartbeats" on public.display_devices;
+create policy "Screens send heartbeats" on public.display_devices
+  for update to anon, authenticated using (true) with check (true);
+
+-- Column grants keep screens from moving themselves to another tenant or group
+revoke update on public.display_devices from anon, authenticated;
+grant update (name, location, app_version, screen_width, screen_height, last_seen_at, view_index, config_hash, recent_errors)
+  on public.display_devices to anon, authenticated;
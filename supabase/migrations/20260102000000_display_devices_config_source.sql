@@ -0,0 +1,8 @@
+-- Heartbeats report whether a screen has loaded its group's config from the cloud ('cloud')
+-- or is still running from local or cached data ('local'), so the health tab can tell
+-- "never synced" apart from "stale". Screens on older versions leave it null.
+
+alter table public.display_devices
+  add column if not exists config_source text;
+
+grant update (config_source) on public.display_devices to anon, authenticated;
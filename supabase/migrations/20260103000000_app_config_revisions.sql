@@ -0,0 +1,25 @@
+-- Config history: every admin save appends the full AppData for its display group.
+-- Rows are append-only; there are deliberately no update or delete policies.
+
+create table if not exists public.app_config_revisions (
+  id bigint generated always as identity primary key,
+  tenant_id text not null,
+  group_id text not null,
+  data jsonb not null,
+  author_email text,
+  note text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists app_config_revisions_target_idx
+  on public.app_config_revisions (tenant_id, group_id, created_at desc);
+
+alter table public.app_config_revisions enable row level security;
+
+drop policy if exists "Signed-in admins read revisions" on public.app_config_revisions;
+create policy "Signed-in admins read revisions" on public.app_config_revisions
+  for select to authenticated using (true);
+
+drop policy if exists "Signed-in admins record revisions" on public.app_config_revisions;
+create policy "Signed-in admins record revisions" on public.app_config_revisions
+  for insert to authenticated with check (true);
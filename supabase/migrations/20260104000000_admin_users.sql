@@ -0,0 +1,74 @@
+-- Admin accounts: Supabase Auth users get a role by email. The admin panel only shapes its UI
+-- by role; these policies are what actually stop other visitors and lower roles from writing.
+--   viewer          read-only
+--   content_editor, designer, super_admin   may save configs and record revisions
+-- Finer splits (which tabs a role may change) stay in the client, since every tab saves the
+-- same app_config row.
+
+create table if not exists public.admin_users (
+  email text primary key,
+  role text not null check (role in ('viewer', 'content_editor', 'designer', 'super_admin')),
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists admin_users_email_lower_idx on public.admin_users (lower(email));
+
+alter table public.admin_users enable row level security;
+
+-- Accounts are managed from the Supabase dashboard; admins may only read their own role
+drop policy if exists "Admins read their own role" on public.admin_users;
+create policy "Admins read their own role" on public.admin_users
+  for select to authenticated using (lower(email) = lower(auth.jwt() ->> 'email'));
+
+-- Role of the signed-in user, or null. Security definer so policies can call it without
+-- being able to read the accounts table themselves.
+create or replace function public.admin_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.admin_users where lower(email) = lower(auth.jwt() ->> 'email')
+$$;
+
+revoke all on function public.admin_role() from public;
+grant execute on function public.admin_role() to anon, authenticated;
+
+-- app_config: screens read their config signed out; only editing roles write it.
+-- Policies are permissive and combine with OR, so any older open policy has to go first.
+alter table public.app_config enable row level security;
+
+do $$
+declare
+  existing record;
+begin
+  for existing in select policyname from pg_policies where schemaname = 'public' and tablename = 'app_config' loop
+    execute format('drop policy %I on public.app_config', existing.policyname);
+  end loop;
+end $$;
+
+create policy "Screens and admins read configs" on public.app_config
+  for select to anon, authenticated using (true);
+
+create policy "Editors create configs" on public.app_config
+  for insert to authenticated
+  with check (public.admin_role() in ('content_editor', 'designer', 'super_admin'));
+
+create policy "Editors save configs" on public.app_config
+  for update to authenticated
+  using (public.admin_role() in ('content_editor', 'designer', 'super_admin'))
+  with check (public.admin_role() in ('content_editor', 'designer', 'super_admin'));
+
+-- app_config_revisions: any admin may browse history; only editors record saves, as themselves
+drop policy if exists "Signed-in admins read revisions" on public.app_config_revisions;
+create policy "Admins read revisions" on public.app_config_revisions
+  for select to authenticated using (public.admin_role() is not null);
+
+drop policy if exists "Signed-in admins record revisions" on public.app_config_revisions;
+create policy "Editors record revisions" on public.app_config_revisions
+  for insert to authenticated
+  with check (
+    public.admin_role() in ('content_editor', 'designer', 'super_admin')
+    and lower(author_email) = lower(auth.jwt() ->> 'email')
+  );
@@ -0,0 +1,33 @@
+-- Admin audit trail. Append-only: no update or delete policies, so entries can't be edited
+-- or removed from the panel. Any admin records their own actions; failed sign-ins happen
+-- before there is a session, so those alone may be written signed out. Only super admins
+-- read the log, matching the Security tab.
+
+create table if not exists public.admin_audit_log (
+  id bigint generated always as identity primary key,
+  tenant_id text,
+  group_id text,
+  actor_email text not null,
+  action text not null,
+  summary text not null default '',
+  details jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_tenant_idx on public.admin_audit_log (tenant_id, created_at desc);
+
+alter table public.admin_audit_log enable row level security;
+
+drop policy if exists "Super admins read the audit log" on public.admin_audit_log;
+create policy "Super admins read the audit log" on public.admin_audit_log
+  for select to authenticated using (public.admin_role() = 'super_admin');
+
+drop policy if exists "Admins record their own actions" on public.admin_audit_log;
+create policy "Admins record their own actions" on public.admin_audit_log
+  for insert to authenticated
+  with check (public.admin_role() is not null and lower(actor_email) = lower(auth.jwt() ->> 'email'));
+
+drop policy if exists "Failed sign-ins are recorded signed out" on public.admin_audit_log;
+create policy "Failed sign-ins are recorded signed out" on public.admin_audit_log
+  for insert to anon, authenticated
+  with check (action = 'login' and details ->> 'success' = 'false');
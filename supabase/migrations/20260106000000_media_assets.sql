@@ -0,0 +1,66 @@
+-- Media library: files in the public `media` storage bucket under <tenant>/<asset id>/,
+-- one media_assets row per upload. Screens load files by public URL, so only the admin
+-- panel reads the table. Uploads, tag edits and deletes are for the roles that can edit
+-- the Media tab.
+
+create table if not exists public.media_assets (
+  id uuid primary key,
+  tenant_id text not null,
+  name text not null,
+  kind text not null check (kind in ('image', 'audio', 'video', 'other')),
+  mime_type text not null default '',
+  size bigint not null default 0,
+  width integer,
+  height integer,
+  tags text[] not null default '{}',
+  url text not null,
+  thumbnail_url text,
+  original_url text,
+  paths text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists media_assets_tenant_idx on public.media_assets (tenant_id, created_at desc);
+
+alter table public.media_assets enable row level security;
+
+drop policy if exists "Admins browse media" on public.media_assets;
+create policy "Admins browse media" on public.media_assets
+  for select to authenticated using (public.admin_role() is not null);
+
+drop policy if exists "Editors add media" on public.media_assets;
+create policy "Editors add media" on public.media_assets
+  for insert to authenticated
+  with check (public.admin_role() in ('content_editor', 'designer', 'super_admin'));
+
+drop policy if exists "Editors tag media" on public.media_assets;
+create policy "Editors tag media" on public.media_assets
+  for update to authenticated
+  using (public.admin_role() in ('content_editor', 'designer', 'super_admin'))
+  with check (public.admin_role() in ('content_editor', 'designer', 'super_admin'));
+
+drop policy if exists "Editors delete media" on public.media_assets;
+create policy "Editors delete media" on public.media_assets
+  for delete to authenticated
+  using (public.admin_role() in ('content_editor', 'designer', 'super_admin'));
+
+-- Public bucket: reads go through public URLs and need no policy
+insert into storage.buckets (id, name, public)
+values ('media', 'media', true)
+on conflict (id) do update set public = true;
+
+drop policy if exists "Editors upload media files" on storage.objects;
+create policy "Editors upload media files" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'media' and public.admin_role() in ('content_editor', 'designer', 'super_admin'));
+
+-- Storage checks select as well as delete before removing an object
+drop policy if exists "Editors list media files" on storage.objects;
+create policy "Editors list media files" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'media' and public.admin_role() in ('content_editor', 'designer', 'super_admin'));
+
+drop policy if exists "Editors delete media files" on storage.objects;
+create policy "Editors delete media files" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'media' and public.admin_role() in ('content_editor', 'designer', 'super_admin'));
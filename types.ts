@@ -4,19 +4,79 @@ export enum ViewMode {
   ADMIN = 'ADMIN'
 }
 
+export type AdminRole = 'viewer' | 'content_editor' | 'designer' | 'super_admin';
+
+export type AdminTab =
+  | 'announcements' | 'events' | 'pages' | 'appearance' | 'ticker' | 'livecam' | 'contact' | 'weather'
+  | 'widgets' | 'import' | 'config' | 'health' | 'security' | 'emergency' | 'history' | 'media' | 'bells';
+
 export interface AdminSession {
   email: string;
-  method: 'passcode';
+  role: AdminRole;
+  method: string;
   createdAt: number;
   expiresAt: number;
 }
 
+export interface DisplayTarget {
+  tenantId: string;
+  groupId: string;
+}
+
+export interface DeviceErrorSummary {
+  timestamp: number;
+  source: string;
+  message: string;
+}
+
+// 'local' until the screen has loaded its group's config from the cloud since starting
+export type DeviceConfigSource = 'cloud' | 'local';
+
+export interface DeviceRecord {
+  deviceId: string;
+  tenantId: string;
+  groupId: string;
+  name: string;
+  location: string;
+  appVersion: string;
+  screen: {
+    width: number;
+    height: number;
+  };
+  lastSeenAt: number;
+  viewIndex: number;
+  configHash: string | null;
+  configSource: DeviceConfigSource | null; // null for screens on versions that did not report it
+  recentErrors: DeviceErrorSummary[];
+}
+
+export interface ConfigRevision {
+  id: string;
+  tenantId: string;
+  groupId: string;
+  authorEmail: string;
+  note: string;
+  createdAt: number;
+  data?: AppData;
+}
+
+export interface RevisionMeta {
+  authorEmail: string;
+  note?: string;
+}
+
+export interface ConfigDiffEntry {
+  section: string;
+  kind: 'added' | 'removed' | 'changed' | 'reordered';
+  label: string;
+}
+
 export interface LoginLogEntry {
   id: string;
   email: string;
   timestamp: number;
   success: boolean;
-  reason: 'invalid_email_domain' | 'wrong_passcode' | 'success' | 'unknown';
+  reason: 'invalid_email_domain' | 'wrong_passcode' | 'invalid_credentials' | 'no_role' | 'success' | 'unknown';
   userAgent: string;
   screen: {
     width: number;
@@ -24,6 +84,79 @@ export interface LoginLogEntry {
   };
 }
 
+export type AuditAction =
+  | 'login'
+  | 'config_save'
+  | 'announcement_edit'
+  | 'raw_config_edit'
+  | 'emergency_trigger'
+  | 'emergency_clear'
+  | 'revision_restore'
+  | 'group_create'
+  | 'factory_reset'
+  | 'import';
+
+export interface AuditEntry {
+  id: string;
+  actorEmail: string;
+  action: AuditAction;
+  summary: string;
+  tenantId?: string;
+  groupId?: string;
+  details?: Record<string, unknown>;
+  createdAt: number;
+}
+
+export interface AuditFilter {
+  email?: string;
+  action?: AuditAction;
+  fromDate?: string; // YYYY-MM-DD, inclusive
+  toDate?: string;   // YYYY-MM-DD, inclusive
+}
+
+export type AiProviderKind = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+// What an AI request is for; the mock provider answers by task
+export type AiTask = 'rewrite' | 'theme' | 'newsletter' | 'news';
+
+export interface AiSettings {
+  provider: AiProviderKind;
+  model?: string;      // Unset means the provider's default model
+  baseUrl?: string;    // OpenAI-compatible or Ollama endpoint
+  apiKey?: string;     // Stored in this browser only; Gemini falls back to the build-time key
+  timeoutMs: number;   // Per attempt
+  maxRetries: number;  // Extra attempts after network errors, 429s and 5xxs
+}
+
+export interface AiUsageEntry {
+  provider: AiProviderKind;
+  model: string;
+  requests: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  lastUsedAt: number;
+}
+
+export type MediaKind = 'image' | 'audio' | 'video' | 'other';
+
+export interface MediaAsset {
+  id: string;
+  tenantId: string;
+  name: string;
+  kind: MediaKind;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  tags: string[];
+  url: string;           // Display variant for images, the original file otherwise
+  thumbnailUrl?: string;
+  originalUrl: string;
+  paths: string[];       // Every stored object (original + variants), removed together
+  createdAt: number;
+}
+
 export interface Theme {
   id: string;
   name: string;
@@ -32,16 +165,63 @@ export interface Theme {
   accentColor: string;
   textColor: string;
   logoUrl?: string;
+  // Scale and typography tokens; unset means the defaults in themeService
+  uiScale?: number;        // Multiplies the kiosk's base font size, 0.85-1.2
+  baseFont?: number;       // Kiosk root font size in px
+  fontFamily?: string;
+  overlayOpacity?: number; // Darkening over page background images, 0-1
+  spacingScale?: number;   // Multiplies kiosk padding and grid gaps, 0.85-1.2
+}
+
+export interface ThemeScheduleEntry {
+  id: string;
+  themeId: string;        // A theme in AppData.themeLibrary
+  label?: string;         // e.g. "Spirit Week"
+  rule?: ScheduleRule;
+  repeatYearly?: boolean; // Match the rule's date range every year, ignoring its year
+}
+
+export type ColorVisionDeficiency = 'deuteranopia' | 'protanopia' | 'tritanopia';
+
+export interface ContrastCheck {
+  id: string;
+  label: string;               // e.g. "Text on gradient start"
+  field: 'textColor' | 'accentColor'; // The theme color a suggestion would change
+  foreground: string;
+  background: string;
+  ratio: number | null;        // Null when a color isn't one the checker can measure (named colors, var(--…), translucent)
+  large: boolean;              // Judged by the large-text / UI component thresholds
+  aa: boolean;
+  aaa: boolean;
+}
+
+export interface ScheduleRule {
+  days?: number[];       // Days of week the item is live (0 = Sunday). Omitted means every day.
+  fromDate?: string;     // 'YYYY-MM-DD', inclusive
+  toDate?: string;       // 'YYYY-MM-DD', inclusive
+  startTime?: string;    // 'HH:mm' daily window start
+  endTime?: string;      // 'HH:mm' daily window end (exclusive)
+}
+
+export interface VideoSettings {
+  url: string;
+  muted?: boolean;        // Defaults to true so autoplay is allowed
+  loop?: boolean;         // Defaults to true; ignored while holding rotation
+  holdRotation?: boolean; // Keep the slide/page on screen until the video finishes
 }
 
 export interface Announcement {
   id: string;
-  type: 'text' | 'image';
+  type: 'text' | 'image' | 'video';
   title: string;
   content: string;
   imageUrl?: string;
+  video?: VideoSettings;
   active: boolean;
   priority: 'low' | 'normal' | 'high';
+  startAt?: string;
+  endAt?: string;
+  recurrence?: ScheduleRule;
 }
 
 export interface CategoryDefinition {
@@ -55,22 +235,146 @@ export type EventCategory = string;
 export interface Event {
   id: string;
   title: string;
-  time: string;
   location: string;
-  date: string;
   category: EventCategory;
+  start: string;       // ISO instant; all-day events start at midnight in the event time zone
+  end?: string;        // ISO instant, exclusive; all-day events end at midnight after their last day
+  allDay?: boolean;
+  archived?: boolean;  // Set by auto-archive once the event has ended; hidden everywhere
+  sourceId?: string;   // Set on events synced from a CalendarSource; those are read-only in the admin
+  uid?: string;        // Calendar UID (plus occurrence for recurring events), used to de-duplicate across syncs
+  date?: string;       // Legacy day + free-text time from older configs, converted by normalizeEvent
+  time?: string;
 }
 
-export type WidgetType = 'clock' | 'weather' | 'announcements' | 'events' | 'nasa' | 'quote' | 'news' | 'text' | 'image' | 'custom_api';
+export interface EventSettings {
+  timeZone?: string;   // IANA zone events are entered and shown in; defaults to each screen's own zone
+  autoArchive: boolean;
+}
 
-export interface WidgetConfig {
+export type EventGroup = 'Today' | 'This Week' | 'Coming Up';
+
+export interface EventRow {
+  event: Event;
+  group: EventGroup;
+}
+
+export type CalendarSourceKind = 'ics_url' | 'ics_file' | 'google';
+
+export interface CategoryMappingRule {
+  match: string;     // Case-insensitive keyword matched against the event title and its calendar categories
+  category: EventCategory;
+}
+
+export interface CalendarSource {
+  id: string;
+  name: string;
+  kind: CalendarSourceKind;
+  url: string;                 // ICS URL, media library URL of an uploaded .ics, or Google Calendar ID
+  apiKey?: string;             // Google Calendar API key (public calendars only)
+  enabled: boolean;
+  defaultCategory: EventCategory;
+  categoryRules: CategoryMappingRule[];
+  refreshMinutes: number;
+  lastSyncedAt?: number;
+  lastAttemptAt?: number;
+  lastError?: string;
+  failureCount?: number;       // Consecutive failed syncs; each one doubles the wait before the next attempt
+}
+
+export type WidgetType = 'clock' | 'bell_schedule' | 'countdown' | 'weather' | 'announcements' | 'featured_announcements' | 'events' | 'nasa' | 'quote' | 'news' | 'text' | 'image' | 'video' | 'livecam' | 'custom_api';
+
+interface WidgetConfigBase {
   id: string;
-  type: WidgetType;
   title?: string;
   refreshSeconds: number;
-  settings?: any;
 }
 
+export type WidgetConfigOf<W extends WidgetType> = WidgetConfigBase & {
+  type: W;
+  settings?: WidgetSettingsOf<W>;
+};
+
+// Discriminated on `type`, so checking it narrows `settings`
+export type WidgetConfig = { [W in WidgetType]: WidgetConfigOf<W> }[WidgetType];
+
+// What a countdown widget shows once its target has passed
+export type CountdownCompletion = 'message' | 'hide' | 'widget';
+
+export interface CountdownSettings {
+  label: string;
+  target: string; // ISO timestamp
+  completionMessage: string;
+  onComplete: CountdownCompletion;
+  replacementType?: WidgetType; // Rendered in place of the countdown when onComplete is 'widget'
+}
+
+export interface TextWidgetSettings {
+  text: string;
+}
+
+export interface ImageWidgetSettings {
+  url: string;
+}
+
+// Blank fields fall back to the global weather config
+export type WeatherWidgetSettings = Partial<WeatherConfig>;
+
+export interface LiveCamWidgetSettings {
+  urls?: string[];         // Falls back to the global live camera feeds
+  refreshSeconds?: number;
+}
+
+export interface CustomApiWidgetSettings {
+  name?: string;
+  endpoint: string;
+  jsonPath: string;
+  prefix?: string;
+  suffix?: string;
+}
+
+export interface WidgetSettingsByType {
+  countdown: CountdownSettings;
+  text: TextWidgetSettings;
+  image: ImageWidgetSettings;
+  video: VideoSettings;
+  weather: WeatherWidgetSettings;
+  livecam: LiveCamWidgetSettings;
+  custom_api: CustomApiWidgetSettings;
+}
+
+// Stored settings of a widget type; anything may be unset on widgets saved before a field existed.
+// Types without an entry in WidgetSettingsByType have no settings.
+export type WidgetSettingsOf<W extends WidgetType> =
+  W extends keyof WidgetSettingsByType ? Partial<WidgetSettingsByType[W]> : Record<string, never>;
+
+// Settings of any widget, for code that treats every type alike (the settings form, validation)
+export type WidgetSettings = WidgetSettingsOf<WidgetType>;
+
+export type WidgetSettingFieldKind = 'text' | 'textarea' | 'number' | 'url' | 'url_list' | 'datetime' | 'select' | 'toggle' | 'image' | 'video' | 'widget_type';
+
+export interface WidgetSettingField<S extends object = Record<string, unknown>> {
+  key: Extract<keyof S, string>;
+  label: string;
+  kind: WidgetSettingFieldKind;
+  required?: boolean;
+  placeholder?: string;
+  help?: string;
+  options?: { value: string; label: string }[];
+  min?: number;
+  max?: number;
+  defaultValue?: S[keyof S];          // Shown (and used by the widget) while the setting is unset
+  showIf?: (settings: S) => boolean;  // Hidden fields are neither shown nor validated
+}
+
+export interface WidgetSettingsSchema<S extends object = Record<string, unknown>> {
+  fields: WidgetSettingField<S>[];
+  validate?: (settings: S) => WidgetSettingErrors; // Checks spanning more than one field
+}
+
+// Field key -> message
+export type WidgetSettingErrors = Record<string, string>;
+
 export interface GridItemConfig {
   i: string;
   x: number;
@@ -95,22 +399,35 @@ export interface Page {
   type: 'standard' | 'grid';
   content?: string;
   imageUrl?: string;
+  backgroundVideo?: VideoSettings;
   layout?: GridItemConfig[];
   widgets?: Record<string, WidgetConfig>;
   duration?: number;
   enabled?: boolean;
+  schedule?: ScheduleRule;
 }
 
+export type LiveCamFeedType = 'snapshot' | 'mjpeg' | 'hls';
+
+export type TemperatureUnit = 'fahrenheit' | 'celsius';
+export type WindUnit = 'mph' | 'kmh' | 'ms' | 'kn';
+export type ForecastMode = 'daily' | 'hourly';
+
 export interface WeatherConfig {
   city: string;
   lat: number;
   lon: number;
+  temperatureUnit?: TemperatureUnit; // Defaults to fahrenheit
+  windUnit?: WindUnit;               // Defaults to mph
+  forecastMode?: ForecastMode;       // Defaults to daily
+  locale?: string;                   // BCP 47 tag for day/hour labels, defaults to en-US
 }
 
 export interface WeatherData {
   current: {
     temp: number;
     code: number;
+    windSpeed: number;
   };
   daily: Array<{
     date: string;
@@ -118,6 +435,25 @@ export interface WeatherData {
     min: number;
     code: number;
   }>;
+  hourly: Array<{
+    time: string;
+    temp: number;
+    code: number;
+  }>;
+}
+
+export interface ForecastSlot {
+  label: string;
+  temp: number;
+  low?: number;
+  code: number;
+}
+
+export interface GeocodeResult {
+  name: string;
+  region: string;
+  lat: number;
+  lon: number;
 }
 
 export interface Socials {
@@ -132,23 +468,124 @@ export interface EmergencyAlert {
   message: string;
   timestamp: number;
   includeSiren: boolean;
-  audioData?: string;
+  audioData?: string; // Media library URL (older configs may hold an inline data URL)
+}
+
+// CAP severity levels, lowest to highest
+export type AlertSeverity = 'Unknown' | 'Minor' | 'Moderate' | 'Severe' | 'Extreme';
+
+export interface WeatherAlert {
+  id: string;
+  event: string;        // e.g. "Tornado Warning"
+  headline: string;
+  summary: string;
+  severity: AlertSeverity;
+  urgency: string;
+  areaDesc: string;
+  effective?: string;   // ISO timestamps
+  expires?: string;
+}
+
+export interface WeatherAlertMessage {
+  event: string;        // Matched case-insensitively against WeatherAlert.event
+  message: string;
+}
+
+export interface WeatherAlertConfig {
+  enabled: boolean;
+  bannerSeverity: AlertSeverity;                // Lowest severity shown in the kiosk banner
+  takeoverSeverity: AlertSeverity | 'never';    // Lowest severity that escalates to the emergency takeover
+  requireConfirmation: boolean;                 // Escalations wait for an admin instead of taking over automatically
+  includeSiren: boolean;
+  messages: WeatherAlertMessage[];
+  dismissedAlertIds: string[];                  // Alerts an admin has stopped from auto-escalating
+}
+
+export interface BellPeriod {
+  id: string;
+  name: string;
+  start: string; // "HH:MM", kiosk local time
+  end: string;
+}
+
+export interface BellSchedule {
+  id: string;
+  name: string;  // e.g. "Regular", "Half Day", "Testing"
+  periods: BellPeriod[];
+}
+
+export interface BellScheduleOverride {
+  id: string;
+  fromDate: string;          // YYYY-MM-DD
+  toDate?: string;           // Inclusive; single day when omitted
+  scheduleId: string | null; // null means no school
+  note?: string;
+}
+
+export interface BellScheduleConfig {
+  showInHeader: boolean;
+  schedules: BellSchedule[];
+  defaultScheduleId: string | null;
+  schoolDays: number[];      // 0 = Sunday
+  overrides: BellScheduleOverride[];
+}
+
+export type BellState = 'in_period' | 'passing' | 'before_school' | 'after_school' | 'no_school';
+
+export interface BellStatus {
+  state: BellState;
+  schedule: BellSchedule | null;
+  current?: BellPeriod;
+  next?: BellPeriod;
+  countdownTo?: Date;        // End of the current period, or start of the next one
+}
+
+export type TickerPriority = 'normal' | 'high' | 'urgent';
+export type TickerIcon = 'alert' | 'info' | 'megaphone' | 'trophy' | 'utensils' | 'calendar' | 'star';
+export type TickerSourceKind = 'custom_widget' | 'sports_scores' | 'lunch_menu';
+
+export interface TickerSource {
+  kind: TickerSourceKind;
+  customWidgetId?: string; // custom_widget: a CustomWidgetDefinition id
+  league?: string;         // sports_scores: ESPN sport/league path, e.g. "football/college-football"
+  team?: string;           // sports_scores: only games involving this team
+  menuUrl?: string;        // lunch_menu: Nutrislice weeks API base for the school's lunch menu
+}
+
+export interface TickerItem {
+  id: string;
+  text: string;            // The message, or the label shown before a data source's value
+  priority: TickerPriority;
+  color?: string;
+  icon?: TickerIcon;
+  startAt?: string;        // ISO; shown from this moment
+  endAt?: string;          // ISO; hidden from this moment
+  source?: TickerSource;
 }
 
 export interface AppData {
   schoolName: string;
   theme: Theme;
+  themeLibrary: Theme[];
+  themeSchedule: ThemeScheduleEntry[]; // Later matching entries win over earlier ones and over `theme`
   announcements: Announcement[];
   events: Event[];
   eventCategories: CategoryDefinition[];
-  tickerItems: string[];
+  calendarSources: CalendarSource[];
+  eventSettings: EventSettings;
+  bellSchedule: BellScheduleConfig;
+  tickerItems: TickerItem[];
+  tickerSpeed: number; // Pixels per second
   liveCamUrls: string[]; 
   enableLiveCam: boolean;
+  liveCamRefreshSeconds: number;
   pageDuration: number;
   pages: Page[];
   socials: Socials;
   emergency: EmergencyAlert;
   weatherConfig: WeatherConfig;
+  weatherAlerts: WeatherAlertConfig;
   customWidgets: CustomWidgetDefinition[];
+  adminEmailDomains: string[];
   isSafeMode?: boolean;
 }